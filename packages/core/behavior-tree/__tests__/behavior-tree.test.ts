@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { BehaviorTree } from "../src/behavior-tree";
+import {
+	action,
+	type BTNodeSpec,
+	condition,
+	reactiveSelector,
+	reactiveSequence,
+	selector,
+	sequence,
+	wait,
+} from "../src/nodes";
+
+describe("BehaviorTree", () => {
+	it("reports the running path and an empty one once the root finishes", () => {
+		const tree = new BehaviorTree(
+			selector([sequence([condition(() => true, "ready"), wait(100, "pause")], "fight"), action(() => true)]),
+		);
+
+		expect(tree.tick(50)).toBe("running");
+		expect(tree.getRunningPath()).toEqual(["selector", "fight", "pause"]);
+		// The wait counts from the tick that started it
+		expect(tree.tick(100)).toBe("success");
+		expect(tree.getRunningPath()).toEqual([]);
+	});
+
+	it("shares the blackboard between leaves and the caller", () => {
+		const blackboard: Record<string, unknown> = { hits: 0 };
+		const tree = new BehaviorTree(
+			sequence([
+				action((bb) => {
+					bb.hits = (bb.hits as number) + 1;
+					return "success";
+				}),
+				condition((bb) => (bb.hits as number) >= 2),
+			]),
+			blackboard,
+		);
+
+		expect(tree.tick(16)).toBe("failure");
+		expect(tree.tick(16)).toBe("success");
+		expect(tree.blackboard).toBe(blackboard);
+		expect(blackboard.hits).toBe(2);
+	});
+
+	it("resumes the running child of a memory sequence without re-checking earlier ones", () => {
+		const bb = { ok: true, checks: 0 };
+		const tree = new BehaviorTree(
+			sequence([
+				condition(() => {
+					bb.checks++;
+					return bb.ok;
+				}),
+				wait(100),
+			]),
+		);
+
+		tree.tick(50);
+		bb.ok = false;
+		expect(tree.tick(10)).toBe("running");
+		expect(bb.checks).toBe(1);
+	});
+
+	it("halts the running child of a reactive sequence when an earlier child fails", () => {
+		const bb = { ok: true };
+		const tree = new BehaviorTree(reactiveSequence([condition(() => bb.ok, "ok"), wait(100, "pause")]));
+
+		expect(tree.tick(60)).toBe("running");
+		bb.ok = false;
+		expect(tree.tick(10)).toBe("failure");
+		expect(tree.dump()).toBe('reactiveSequence [failure]\n  condition "ok" [failure]\n  wait "pause" [-]');
+
+		// The wait starts over instead of finishing with the time it had before
+		bb.ok = true;
+		expect(tree.tick(60)).toBe("running");
+		expect(tree.tick(30)).toBe("running");
+		expect(tree.tick(70)).toBe("success");
+	});
+
+	it("lets a higher priority branch of a reactive selector interrupt a running one", () => {
+		const bb = { danger: false, patrols: 0 };
+		const tree = new BehaviorTree(
+			reactiveSelector([
+				sequence([condition(() => bb.danger), action(() => "running", "flee")], "survive"),
+				action(() => {
+					bb.patrols++;
+					return "running";
+				}, "patrol"),
+			]),
+		);
+
+		tree.tick(16);
+		expect(tree.getRunningPath()).toEqual(["reactiveSelector", "patrol"]);
+		bb.danger = true;
+		tree.tick(16);
+		expect(tree.getRunningPath()).toEqual(["reactiveSelector", "survive", "flee"]);
+		expect(bb.patrols).toBe(1);
+	});
+
+	it("keeps a memory selector on its running branch", () => {
+		const bb = { danger: false };
+		const tree = new BehaviorTree(
+			selector([
+				sequence([condition(() => bb.danger), action(() => "running", "flee")], "survive"),
+				action(() => "running", "patrol"),
+			]),
+		);
+
+		tree.tick(16);
+		bb.danger = true;
+		tree.tick(16);
+		expect(tree.getRunningPath()).toEqual(["selector", "patrol"]);
+	});
+
+	it("rejects specs it cannot compile with the offending node type", () => {
+		const noChildren = { type: "selector" } as unknown as BTNodeSpec;
+		expect(() => new BehaviorTree(noChildren)).toThrow("Behavior tree selector needs a children array");
+		expect(() => new BehaviorTree(sequence([{ type: "parallel" } as unknown as BTNodeSpec]))).toThrow(
+			"Behavior tree parallel needs a children array",
+		);
+		expect(() => new BehaviorTree({ type: "loop" } as unknown as BTNodeSpec)).toThrow(
+			'Unknown behavior tree node type "loop"',
+		);
+	});
+});
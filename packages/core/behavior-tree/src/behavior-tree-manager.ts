@@ -0,0 +1,76 @@
+import { BehaviorTree } from "./behavior-tree";
+import {
+	action,
+	type BTNodeSpec,
+	type BTStatus,
+	condition,
+	cooldown,
+	inverter,
+	parallel,
+	reactiveSelector,
+	reactiveSequence,
+	repeat,
+	selector,
+	sequence,
+	timeout,
+	wait,
+} from "./nodes";
+
+export class BehaviorTreeManager {
+	private instances: Map<number, BehaviorTree> = new Map();
+	private nextId = 0;
+
+	/** Ticks every tree once */
+	update(dtMs: number): void {
+		for (const tree of this.instances.values()) {
+			tree.tick(dtMs);
+		}
+	}
+
+	create(root: BTNodeSpec, blackboard?: Record<string, unknown>): number {
+		const tree = new BehaviorTree(root, blackboard);
+		tree.id = this.nextId++;
+		this.instances.set(tree.id, tree);
+		return tree.id;
+	}
+
+	destroy(id: number): void {
+		this.instances.delete(id);
+	}
+
+	reset(): void {
+		this.instances.clear();
+		this.nextId = 0;
+	}
+
+	getInterface(): Record<string, unknown> {
+		return {
+			sequence,
+			selector,
+			reactiveSequence,
+			reactiveSelector,
+			parallel,
+			inverter,
+			repeat,
+			cooldown,
+			timeout,
+			action,
+			condition,
+			wait,
+			create: (root: BTNodeSpec, blackboard?: Record<string, unknown>) => this.create(root, blackboard),
+			destroy: (id: number) => this.destroy(id),
+			restart: (id: number) => {
+				this.instances.get(id)?.reset();
+			},
+			getBlackboard: (id: number): Record<string, unknown> | null => this.instances.get(id)?.blackboard ?? null,
+			get: (id: number, key: string): unknown => this.instances.get(id)?.blackboard[key],
+			set: (id: number, key: string, value: unknown) => {
+				const tree = this.instances.get(id);
+				if (tree) tree.blackboard[key] = value;
+			},
+			getStatus: (id: number): BTStatus | null => this.instances.get(id)?.getStatus() ?? null,
+			getRunningPath: (id: number): string[] => this.instances.get(id)?.getRunningPath() ?? [],
+			dump: (id: number): string => this.instances.get(id)?.dump() ?? "",
+		};
+	}
+}
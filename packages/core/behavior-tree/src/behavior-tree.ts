@@ -0,0 +1,385 @@
+import type { BTLeafFn, BTNodeSpec, BTStatus, ParallelPolicy } from "./nodes";
+
+interface TickContext {
+	blackboard: Record<string, unknown>;
+	dtMs: number;
+	/** Game time of the tree, summed from tick's dtMs */
+	time: number;
+	/** Number of the current tick, to tell fresh statuses from stale ones */
+	tick: number;
+}
+
+const toStatus = (value: unknown): BTStatus => {
+	if (value === "success" || value === "failure" || value === "running") return value;
+	return value ? "success" : "failure";
+};
+
+abstract class BTNode {
+	readonly type: string;
+	readonly name: string | null;
+	readonly children: BTNode[];
+	/** Status from the last tick that reached this node */
+	status: BTStatus | null = null;
+	lastTick = -1;
+
+	constructor(type: string, name: string | undefined, children: BTNode[] = []) {
+		this.type = type;
+		this.name = name ?? null;
+		this.children = children;
+	}
+
+	run(ctx: TickContext): BTStatus {
+		const status = this.tick(ctx);
+		this.status = status;
+		this.lastTick = ctx.tick;
+		return status;
+	}
+
+	/** Drops the progress of a running node and its subtree, e.g. when a parent gives up on it */
+	halt(): void {
+		for (const child of this.children) child.halt();
+		if (this.status === "running") this.status = null;
+	}
+
+	protected abstract tick(ctx: TickContext): BTStatus;
+}
+
+/** Halts the children after `index`: a reactive composite stopped before reaching a child that was running */
+const haltAfter = (children: BTNode[], index: number): void => {
+	for (let i = index + 1; i < children.length; i++) children[i].halt();
+};
+
+/**
+ * Memory sequence: a running child is resumed on the next tick without
+ * re-running the children before it. A reactive one starts from the first
+ * child every tick and halts the running child when an earlier one fails.
+ */
+class SequenceNode extends BTNode {
+	private readonly reactive: boolean;
+	private index = 0;
+
+	constructor(name: string | undefined, children: BTNode[], reactive: boolean) {
+		super(reactive ? "reactiveSequence" : "sequence", name, children);
+		this.reactive = reactive;
+	}
+
+	protected tick(ctx: TickContext): BTStatus {
+		if (this.reactive) this.index = 0;
+		while (this.index < this.children.length) {
+			const status = this.children[this.index].run(ctx);
+			if (status !== "success" && this.reactive) haltAfter(this.children, this.index);
+			if (status === "running") return status;
+			if (status === "failure") {
+				this.index = 0;
+				return status;
+			}
+			this.index++;
+		}
+		this.index = 0;
+		return "success";
+	}
+
+	halt(): void {
+		super.halt();
+		this.index = 0;
+	}
+}
+
+/**
+ * Memory selector: a running child is resumed on the next tick without
+ * re-trying the children before it. A reactive one starts from the first
+ * child every tick and halts the running child when an earlier one succeeds
+ * or starts running.
+ */
+class SelectorNode extends BTNode {
+	private readonly reactive: boolean;
+	private index = 0;
+
+	constructor(name: string | undefined, children: BTNode[], reactive: boolean) {
+		super(reactive ? "reactiveSelector" : "selector", name, children);
+		this.reactive = reactive;
+	}
+
+	protected tick(ctx: TickContext): BTStatus {
+		if (this.reactive) this.index = 0;
+		while (this.index < this.children.length) {
+			const status = this.children[this.index].run(ctx);
+			if (status !== "failure" && this.reactive) haltAfter(this.children, this.index);
+			if (status === "running") return status;
+			if (status === "success") {
+				this.index = 0;
+				return status;
+			}
+			this.index++;
+		}
+		this.index = 0;
+		return "failure";
+	}
+
+	halt(): void {
+		super.halt();
+		this.index = 0;
+	}
+}
+
+class ParallelNode extends BTNode {
+	private readonly policy: ParallelPolicy;
+	// Result of each child that finished during the current run
+	private results: (BTStatus | null)[];
+
+	constructor(name: string | undefined, children: BTNode[], policy: ParallelPolicy) {
+		super("parallel", name, children);
+		this.policy = policy;
+		this.results = children.map(() => null);
+	}
+
+	protected tick(ctx: TickContext): BTStatus {
+		this.children.forEach((child, i) => {
+			if (this.results[i] === null) {
+				const status = child.run(ctx);
+				if (status !== "running") this.results[i] = status;
+			}
+		});
+		const decisive = this.policy === "all" ? "failure" : "success";
+		if (this.results.includes(decisive)) {
+			this.halt();
+			return decisive;
+		}
+		if (this.results.every((r) => r !== null)) {
+			this.halt();
+			return decisive === "failure" ? "success" : "failure";
+		}
+		return "running";
+	}
+
+	halt(): void {
+		super.halt();
+		this.results = this.children.map(() => null);
+	}
+}
+
+class InverterNode extends BTNode {
+	protected tick(ctx: TickContext): BTStatus {
+		const status = this.children[0].run(ctx);
+		if (status === "running") return status;
+		return status === "success" ? "failure" : "success";
+	}
+}
+
+class RepeatNode extends BTNode {
+	private readonly count: number;
+	private done = 0;
+
+	constructor(name: string | undefined, child: BTNode, count: number) {
+		super("repeat", name, [child]);
+		this.count = count;
+	}
+
+	protected tick(ctx: TickContext): BTStatus {
+		const status = this.children[0].run(ctx);
+		if (status === "running") return status;
+		if (status === "failure") {
+			this.done = 0;
+			return status;
+		}
+		// The next round starts on the next tick, so an instant child cannot loop forever
+		this.done++;
+		if (this.count > 0 && this.done >= this.count) {
+			this.done = 0;
+			return "success";
+		}
+		return "running";
+	}
+
+	halt(): void {
+		super.halt();
+		this.done = 0;
+	}
+}
+
+class CooldownNode extends BTNode {
+	private readonly ms: number;
+	private readyAt = 0;
+
+	constructor(name: string | undefined, child: BTNode, ms: number) {
+		super("cooldown", name, [child]);
+		this.ms = ms;
+	}
+
+	protected tick(ctx: TickContext): BTStatus {
+		if (ctx.time < this.readyAt) return "failure";
+		const status = this.children[0].run(ctx);
+		if (status !== "running") this.readyAt = ctx.time + this.ms;
+		return status;
+	}
+}
+
+class TimeoutNode extends BTNode {
+	private readonly ms: number;
+	private startedAt: number | null = null;
+
+	constructor(name: string | undefined, child: BTNode, ms: number) {
+		super("timeout", name, [child]);
+		this.ms = ms;
+	}
+
+	protected tick(ctx: TickContext): BTStatus {
+		this.startedAt ??= ctx.time;
+		if (ctx.time - this.startedAt >= this.ms) {
+			this.halt();
+			return "failure";
+		}
+		const status = this.children[0].run(ctx);
+		if (status !== "running") this.startedAt = null;
+		return status;
+	}
+
+	halt(): void {
+		super.halt();
+		this.startedAt = null;
+	}
+}
+
+class WaitNode extends BTNode {
+	private readonly ms: number;
+	private startedAt: number | null = null;
+
+	constructor(name: string | undefined, ms: number) {
+		super("wait", name);
+		this.ms = ms;
+	}
+
+	protected tick(ctx: TickContext): BTStatus {
+		this.startedAt ??= ctx.time;
+		if (ctx.time - this.startedAt < this.ms) return "running";
+		this.startedAt = null;
+		return "success";
+	}
+
+	halt(): void {
+		super.halt();
+		this.startedAt = null;
+	}
+}
+
+class LeafNode extends BTNode {
+	private readonly fn: BTLeafFn;
+
+	constructor(type: "action" | "condition", name: string | undefined, fn: BTLeafFn) {
+		super(type, name);
+		this.fn = fn;
+	}
+
+	protected tick(ctx: TickContext): BTStatus {
+		const status = toStatus(this.fn(ctx.blackboard, ctx.dtMs));
+		if (this.type === "condition" && status === "running") return "failure";
+		return status;
+	}
+}
+
+/** Children of a composite spec; specs built by hand may leave the array out */
+const compileChildren = (spec: { type: string; children?: BTNodeSpec[] }): BTNode[] => {
+	if (!Array.isArray(spec.children)) throw new Error(`Behavior tree ${spec.type} needs a children array`);
+	return spec.children.map(compile);
+};
+
+function compile(spec: BTNodeSpec): BTNode {
+	switch (spec?.type) {
+		case "sequence":
+		case "reactiveSequence":
+			return new SequenceNode(spec.name, compileChildren(spec), spec.type === "reactiveSequence");
+		case "selector":
+		case "reactiveSelector":
+			return new SelectorNode(spec.name, compileChildren(spec), spec.type === "reactiveSelector");
+		case "parallel":
+			return new ParallelNode(spec.name, compileChildren(spec), spec.policy === "one" ? "one" : "all");
+		case "inverter":
+			return new InverterNode(spec.type, spec.name, [compile(spec.child)]);
+		case "repeat":
+			return new RepeatNode(spec.name, compile(spec.child), spec.count ?? 0);
+		case "cooldown":
+			return new CooldownNode(spec.name, compile(spec.child), spec.ms);
+		case "timeout":
+			return new TimeoutNode(spec.name, compile(spec.child), spec.ms);
+		case "wait":
+			return new WaitNode(spec.name, spec.ms);
+		case "action":
+		case "condition":
+			if (typeof spec.fn !== "function") throw new Error(`Behavior tree ${spec.type} needs a function`);
+			return new LeafNode(spec.type, spec.name, spec.fn);
+		default:
+			throw new Error(`Unknown behavior tree node type "${(spec as { type?: unknown })?.type}"`);
+	}
+}
+
+const label = (node: BTNode): string => (node.name === null ? node.type : node.name);
+
+/**
+ * One running tree: its own node state, blackboard and clock. Ticking after
+ * the root has finished starts it over.
+ */
+export class BehaviorTree {
+	id = 0;
+	/** Data shared by the leaves of this tree */
+	readonly blackboard: Record<string, unknown>;
+	private readonly spec: BTNodeSpec;
+	private root: BTNode;
+	private time = 0;
+	private ticks = 0;
+
+	constructor(spec: BTNodeSpec, blackboard: Record<string, unknown> = {}) {
+		this.spec = spec;
+		this.root = compile(spec);
+		this.blackboard = blackboard;
+	}
+
+	tick(dtMs: number): BTStatus {
+		this.time += dtMs;
+		this.ticks++;
+		return this.root.run({ blackboard: this.blackboard, dtMs, time: this.time, tick: this.ticks });
+	}
+
+	/** Root status from the last tick, null before the first one */
+	getStatus(): BTStatus | null {
+		return this.root.status;
+	}
+
+	/**
+	 * Names (or types, for unnamed nodes) from the root down to the running
+	 * leaf, following the first running child of parallel nodes. Empty when
+	 * the last tick did not end running.
+	 */
+	getRunningPath(): string[] {
+		const path: string[] = [];
+		let node: BTNode | undefined = this.root;
+		while (node && this.isFresh(node) && node.status === "running") {
+			path.push(label(node));
+			node = node.children.find((c) => this.isFresh(c) && c.status === "running");
+		}
+		return path;
+	}
+
+	/** The whole tree as indented text, with each node's status from the last tick ("-" if not reached) */
+	dump(): string {
+		const lines: string[] = [];
+		const visit = (node: BTNode, depth: number) => {
+			const name = node.name === null ? node.type : `${node.type} "${node.name}"`;
+			const status = this.isFresh(node) && node.status !== null ? node.status : "-";
+			lines.push(`${"  ".repeat(depth)}${name} [${status}]`);
+			for (const child of node.children) visit(child, depth + 1);
+		};
+		visit(this.root, 0);
+		return lines.join("\n");
+	}
+
+	/** Starts the tree over from a clean state (cooldowns included); the blackboard is kept */
+	reset(): void {
+		this.root = compile(this.spec);
+		this.time = 0;
+		this.ticks = 0;
+	}
+
+	private isFresh(node: BTNode): boolean {
+		return node.lastTick === this.ticks;
+	}
+}
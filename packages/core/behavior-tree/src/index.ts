@@ -0,0 +1,20 @@
+export { BehaviorTree } from "./behavior-tree";
+export { BehaviorTreeManager } from "./behavior-tree-manager";
+export {
+	action,
+	type BTLeafFn,
+	type BTNodeSpec,
+	type BTStatus,
+	condition,
+	cooldown,
+	inverter,
+	type ParallelPolicy,
+	parallel,
+	reactiveSelector,
+	reactiveSequence,
+	repeat,
+	selector,
+	sequence,
+	timeout,
+	wait,
+} from "./nodes";
@@ -0,0 +1,95 @@
+export type BTStatus = "success" | "failure" | "running";
+
+/**
+ * Leaf callback, given the tree's blackboard and the frame time in ms. Actions
+ * return "success", "failure" or "running"; any other value counts as success
+ * when truthy and failure otherwise.
+ */
+export type BTLeafFn = (blackboard: Record<string, unknown>, dtMs: number) => unknown;
+
+/** When a parallel node finishes */
+export type ParallelPolicy =
+	/** Succeeds once every child has succeeded, fails as soon as one fails */
+	| "all"
+	/** Succeeds as soon as one child succeeds, fails once every child has failed */
+	| "one";
+
+/**
+ * Plain description of a node. Trees compile their own copy, so one
+ * description can be shared by many trees (e.g. every enemy of a kind).
+ */
+export type BTNodeSpec =
+	| {
+			type: "sequence" | "selector" | "reactiveSequence" | "reactiveSelector";
+			children: BTNodeSpec[];
+			name?: string;
+	  }
+	| { type: "parallel"; children: BTNodeSpec[]; policy: ParallelPolicy; name?: string }
+	| { type: "inverter"; child: BTNodeSpec; name?: string }
+	| { type: "repeat"; child: BTNodeSpec; count: number; name?: string }
+	| { type: "cooldown" | "timeout"; child: BTNodeSpec; ms: number; name?: string }
+	| { type: "action" | "condition"; fn: BTLeafFn; name?: string }
+	| { type: "wait"; ms: number; name?: string };
+
+/** Runs children in order until one fails; succeeds when all do. A running child is resumed next tick. */
+export const sequence = (children: BTNodeSpec[], name?: string): BTNodeSpec => ({ type: "sequence", children, name });
+
+/** Runs children in order until one succeeds; fails when all do. A running child is resumed next tick. */
+export const selector = (children: BTNodeSpec[], name?: string): BTNodeSpec => ({ type: "selector", children, name });
+
+/** Like sequence, but re-checks every child from the first on each tick, halting the running one if an earlier fails */
+export const reactiveSequence = (children: BTNodeSpec[], name?: string): BTNodeSpec => ({
+	type: "reactiveSequence",
+	children,
+	name,
+});
+
+/** Like selector, but re-tries every child from the first on each tick, so a higher priority one can take over */
+export const reactiveSelector = (children: BTNodeSpec[], name?: string): BTNodeSpec => ({
+	type: "reactiveSelector",
+	children,
+	name,
+});
+
+/** Runs every child each tick */
+export const parallel = (children: BTNodeSpec[], policy: ParallelPolicy = "all", name?: string): BTNodeSpec => ({
+	type: "parallel",
+	children,
+	policy,
+	name,
+});
+
+/** Swaps success and failure */
+export const inverter = (child: BTNodeSpec, name?: string): BTNodeSpec => ({ type: "inverter", child, name });
+
+/** Runs the child `count` times in a row (forever when count <= 0), failing if it fails */
+export const repeat = (child: BTNodeSpec, count = 0, name?: string): BTNodeSpec => ({
+	type: "repeat",
+	child,
+	count,
+	name,
+});
+
+/** Fails without running the child for `ms` after the child finishes */
+export const cooldown = (child: BTNodeSpec, ms: number, name?: string): BTNodeSpec => ({
+	type: "cooldown",
+	child,
+	ms,
+	name,
+});
+
+/** Fails and halts the child once it has been running for `ms` */
+export const timeout = (child: BTNodeSpec, ms: number, name?: string): BTNodeSpec => ({
+	type: "timeout",
+	child,
+	ms,
+	name,
+});
+
+export const action = (fn: BTLeafFn, name?: string): BTNodeSpec => ({ type: "action", fn, name });
+
+/** Succeeds when `fn` returns a truthy value, fails otherwise; never running */
+export const condition = (fn: BTLeafFn, name?: string): BTNodeSpec => ({ type: "condition", fn, name });
+
+/** Running for `ms`, then succeeds */
+export const wait = (ms: number, name?: string): BTNodeSpec => ({ type: "wait", ms, name });
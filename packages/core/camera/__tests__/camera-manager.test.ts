@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+import { CameraManager } from "../src/camera-manager";
+
+const fakeContext = () =>
+	({
+		save: vi.fn(),
+		restore: vi.fn(),
+		beginPath: vi.fn(),
+		rect: vi.fn(),
+		clip: vi.fn(),
+		translate: vi.fn(),
+		scale: vi.fn(),
+		rotate: vi.fn(),
+	}) as unknown as CanvasRenderingContext2D;
+
+const cameraOf = (cameras: CameraManager, id: number) => {
+	const camera = cameras.get(id);
+	if (!camera) throw new Error(`No camera ${id}`);
+	return camera;
+};
+
+describe("CameraManager split-screen picking", () => {
+	const splitScreen = () => {
+		const cameras = new CameraManager(400, 300);
+		const ctx = fakeContext();
+		cameras.setContextProvider(() => ctx);
+		const left = cameras.create();
+		const right = cameras.create();
+		cameraOf(cameras, left).setViewport(-100, 0, 200, 300);
+		cameraOf(cameras, right).setViewport(100, 0, 200, 300);
+		cameraOf(cameras, right).x = 1000;
+		cameras.setActive(left);
+		const draw = () => {
+			cameras.initDraw();
+			for (const id of [left, right]) {
+				cameras.begin(id);
+				cameras.end(id);
+			}
+		};
+		return { cameras, left, right, draw };
+	};
+
+	it("picks the camera drawn under the pointer in the last draw", () => {
+		const { cameras, left, right, draw } = splitScreen();
+		draw();
+		cameras.update(16);
+		expect(cameras.cameraAt(-150, 0)?.id).toBe(left);
+		expect(cameras.pointerToWorld(110, 20)).toEqual({ x: 1010, y: -20, camera: right });
+	});
+
+	it("keeps picking through several updates between two draws", () => {
+		const { cameras, right, draw } = splitScreen();
+		draw();
+		cameras.update(16);
+		cameras.update(16);
+		cameras.update(16);
+		expect(cameras.cameraAt(150, 0)?.id).toBe(right);
+	});
+});
+
+describe("CameraManager blends", () => {
+	it("eases from one camera's view to the other's", () => {
+		const cameras = new CameraManager(400, 300);
+		const a = cameras.create();
+		const b = cameras.create();
+		cameraOf(cameras, b).x = 100;
+		cameras.blend(a, b, 1000, "linear");
+		cameras.update(250);
+		expect(cameras.pointerToWorld(0, 0)).toEqual({ x: 25, y: 0, camera: b });
+		cameras.update(750);
+		expect(cameraOf(cameras, b).isMoving()).toBe(false);
+		expect(cameras.pointerToWorld(0, 0)?.x).toBe(100);
+	});
+
+	it("blends back to a camera that is still blending", () => {
+		const cameras = new CameraManager(400, 300);
+		const a = cameras.create();
+		const b = cameras.create();
+		cameraOf(cameras, b).x = 100;
+		cameras.blend(a, b, 1000, "linear");
+		cameras.update(500);
+		cameras.blend(b, a, 1000, "linear");
+		expect(() => cameras.update(16)).not.toThrow();
+
+		// Starts from what b showed halfway through its own blend
+		expect(cameras.pointerToWorld(0, 0)?.x).toBeCloseTo(49.2);
+		cameras.update(984);
+		expect(cameras.pointerToWorld(0, 0)).toEqual({ x: 0, y: 0, camera: a });
+	});
+});
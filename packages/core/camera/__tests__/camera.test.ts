@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { Camera } from "../src/camera";
+
+describe("Camera screen mapping", () => {
+	it("maps the same way with a full-screen viewport as without one", () => {
+		const cam = new Camera(400, 300);
+		cam.x = 120;
+		cam.y = -40;
+		cam.zoom = 2;
+		const before = cam.pointerToWorld(50, 30);
+		cam.setViewport(0, 0, 400, 300);
+		expect(cam.pointerToWorld(50, 30)).toEqual(before);
+		expect(before).toEqual({ x: 145, y: -55 });
+	});
+
+	it("round-trips world and screen positions through a viewport", () => {
+		const cam = new Camera(400, 300);
+		cam.x = 10;
+		cam.y = 20;
+		cam.zoom = 1.5;
+		cam.setViewport(-100, 50, 200, 150);
+		const screen = cam.worldToScreen(30, -5);
+		const world = cam.screenToWorld(screen.x, screen.y);
+		expect(world.x).toBeCloseTo(30);
+		expect(world.y).toBeCloseTo(-5);
+		expect(cam.worldToScreen(10, 20)).toEqual({ x: -100, y: -50 });
+	});
+});
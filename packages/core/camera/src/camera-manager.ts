@@ -1,4 +1,12 @@
-import { Camera, type CameraTarget } from "./camera";
+import {
+	Camera,
+	type CameraPathOptions,
+	type CameraTarget,
+	type CameraWaypoint,
+	type FollowGroupOptions,
+	type TraumaShakeOptions,
+} from "./camera";
+import type { CameraEasing } from "./motion";
 
 export class CameraManager {
 	private cameras: Map<number, Camera> = new Map();
@@ -7,6 +15,9 @@ export class CameraManager {
 	private screenW: number;
 	private screenH: number;
 	private getCtx: (() => CanvasRenderingContext2D | null) | null = null;
+	// Cameras begun during the current draw, and during the last complete one, in drawing order
+	private drawing: number[] = [];
+	private drawn: number[] = [];
 
 	constructor(screenW: number, screenH: number) {
 		this.screenW = screenW;
@@ -18,11 +29,18 @@ export class CameraManager {
 	}
 
 	update(dtMs: number): void {
+		// Several updates can run between two draws when the game catches up; each sees the last draw
+		this.drawn = this.drawing;
 		for (const cam of this.cameras.values()) {
 			cam.update(dtMs);
 		}
 	}
 
+	/** Called before each draw, to collect the cameras it begins */
+	initDraw(): void {
+		this.drawing = [];
+	}
+
 	create(): number {
 		const cam = new Camera(this.screenW, this.screenH);
 		cam.id = this.nextId++;
@@ -42,6 +60,60 @@ export class CameraManager {
 		return this.cameras.get(id) ?? null;
 	}
 
+	/**
+	 * Makes `toId` the active camera, easing from what `fromId` shows to what
+	 * `toId` shows over `durationMs`. Both cameras keep moving meanwhile,
+	 * unless `fromId` is still blending itself: then the blend starts from
+	 * what it shows at that moment.
+	 */
+	blend(fromId: number, toId: number, durationMs: number, easing?: CameraEasing, onComplete?: () => void): void {
+		const from = this.get(fromId);
+		const to = this.get(toId);
+		if (!to) return;
+		this.setActive(toId);
+		if (from) to.blendFrom(from, durationMs, easing, onComplete);
+		else onComplete?.();
+	}
+
+	/**
+	 * The camera a mouse or touch point (screen coordinates) falls on: the
+	 * last one drawn in the previous frame whose viewport contains it, or the
+	 * active camera when none was drawn there.
+	 */
+	cameraAt(px: number, py: number): Camera | null {
+		for (let i = this.drawn.length - 1; i >= 0; i--) {
+			const cam = this.cameras.get(this.drawn[i]);
+			if (cam?.containsPointer(px, py)) return cam;
+		}
+		return this.getActive();
+	}
+
+	/** World position under a mouse or touch point, through the camera under it */
+	pointerToWorld(px: number, py: number): { x: number; y: number; camera: number } | null {
+		const cam = this.cameraAt(px, py);
+		if (!cam) return null;
+		return { ...cam.pointerToWorld(px, py), camera: cam.id };
+	}
+
+	begin(id: number): void {
+		const cam = this.get(id);
+		const ctx = this.getCtx?.();
+		if (!cam || !ctx) return;
+		cam.applyTransform(ctx);
+		this.drawing.push(id);
+	}
+
+	/** Like begin, for a background that moves by a fraction of the camera's scroll */
+	beginParallax(id: number, factorX: number, factorY: number = factorX): void {
+		const ctx = this.getCtx?.();
+		if (ctx) this.get(id)?.applyTransform(ctx, factorX, factorY);
+	}
+
+	end(id: number): void {
+		const ctx = this.getCtx?.();
+		if (ctx) this.get(id)?.resetTransform(ctx);
+	}
+
 	destroy(id: number): void {
 		const cam = this.cameras.get(id);
 		if (cam) {
@@ -56,37 +128,55 @@ export class CameraManager {
 		this.cameras.clear();
 		this.activeId = null;
 		this.nextId = 0;
+		this.drawing = [];
+		this.drawn = [];
 	}
 
 	getInterface(): Record<string, unknown> {
-		const self = this;
 		return {
-			create: () => self.create(),
-			setActive: (id: number) => self.setActive(id),
-			destroy: (id: number) => self.destroy(id),
+			create: () => this.create(),
+			setActive: (id: number) => this.setActive(id),
+			destroy: (id: number) => this.destroy(id),
 			follow: (id: number, target: CameraTarget, lerp?: number, offX?: number, offY?: number) => {
-				self.get(id)?.follow(target, lerp, offX, offY);
+				this.get(id)?.follow(target, lerp, offX, offY);
 			},
-			unfollow: (id: number) => self.get(id)?.unfollow(),
-			setDeadZone: (id: number, w: number, h: number) => self.get(id)?.setDeadZone(w, h),
-			shake: (id: number, intensity: number, durationMs: number) => self.get(id)?.shake(intensity, durationMs),
+			unfollow: (id: number) => this.get(id)?.unfollow(),
+			followGroup: (id: number, targets: CameraTarget[], options?: FollowGroupOptions) =>
+				this.get(id)?.followGroup(targets, options),
+			setDeadZone: (id: number, w: number, h: number) => this.get(id)?.setDeadZone(w, h),
+			shake: (id: number, intensity: number, durationMs: number, onComplete?: () => void) =>
+				this.get(id)?.shake(intensity, durationMs, onComplete),
+			addTrauma: (id: number, amount: number) => this.get(id)?.addTrauma(amount),
+			getTrauma: (id: number) => this.get(id)?.getTrauma() ?? 0,
+			setTraumaShake: (id: number, options: TraumaShakeOptions) => this.get(id)?.setTraumaShake(options ?? {}),
+			setLookAhead: (id: number, distance: number, lerp?: number) => this.get(id)?.setLookAhead(distance, lerp),
+			panTo: (id: number, x: number, y: number, durationMs: number, easing?: CameraEasing, onComplete?: () => void) =>
+				this.get(id)?.panTo(x, y, durationMs, easing, onComplete),
+			zoomTo: (id: number, zoom: number, durationMs: number, easing?: CameraEasing, onComplete?: () => void) =>
+				this.get(id)?.zoomTo(zoom, durationMs, easing, onComplete),
+			followPath: (id: number, waypoints: CameraWaypoint[], options?: CameraPathOptions) =>
+				this.get(id)?.followPath(waypoints, options),
+			stopMoves: (id: number) => this.get(id)?.stopMoves(),
+			isMoving: (id: number) => this.get(id)?.isMoving() ?? false,
+			blend: (fromId: number, toId: number, durationMs: number, easing?: CameraEasing, onComplete?: () => void) =>
+				this.blend(fromId, toId, durationMs, easing, onComplete),
 			setBounds: (id: number, minX: number, minY: number, maxX: number, maxY: number) =>
-				self.get(id)?.setBounds(minX, minY, maxX, maxY),
-			clearBounds: (id: number) => self.get(id)?.clearBounds(),
-			setZoom: (id: number, zoom: number, smooth?: boolean) => self.get(id)?.setZoom(zoom, smooth),
-			worldToScreen: (id: number, wx: number, wy: number) => self.get(id)?.worldToScreen(wx, wy) ?? { x: wx, y: wy },
-			screenToWorld: (id: number, sx: number, sy: number) => self.get(id)?.screenToWorld(sx, sy) ?? { x: sx, y: sy },
-			begin: (id: number) => {
-				const ctx = self.getCtx?.();
-				if (ctx) self.get(id)?.applyTransform(ctx);
-			},
-			end: (id: number) => {
-				const ctx = self.getCtx?.();
-				if (ctx) self.get(id)?.resetTransform(ctx);
-			},
-			getX: (id: number) => self.get(id)?.x ?? 0,
-			getY: (id: number) => self.get(id)?.y ?? 0,
-			getZoom: (id: number) => self.get(id)?.zoom ?? 1,
+				this.get(id)?.setBounds(minX, minY, maxX, maxY),
+			clearBounds: (id: number) => this.get(id)?.clearBounds(),
+			setZoom: (id: number, zoom: number, smooth?: boolean) => this.get(id)?.setZoom(zoom, smooth),
+			worldToScreen: (id: number, wx: number, wy: number) => this.get(id)?.worldToScreen(wx, wy) ?? { x: wx, y: wy },
+			screenToWorld: (id: number, sx: number, sy: number) => this.get(id)?.screenToWorld(sx, sy) ?? { x: sx, y: sy },
+			setViewport: (id: number, x: number, y: number, w: number, h: number) => this.get(id)?.setViewport(x, y, w, h),
+			clearViewport: (id: number) => this.get(id)?.clearViewport(),
+			getViewport: (id: number) => this.get(id)?.getViewport() ?? null,
+			cameraAt: (x: number, y: number) => this.cameraAt(x, y)?.id ?? -1,
+			pointerToWorld: (x: number, y: number) => this.pointerToWorld(x, y),
+			begin: (id: number) => this.begin(id),
+			beginParallax: (id: number, factorX: number, factorY?: number) => this.beginParallax(id, factorX, factorY),
+			end: (id: number) => this.end(id),
+			getX: (id: number) => this.get(id)?.x ?? 0,
+			getY: (id: number) => this.get(id)?.y ?? 0,
+			getZoom: (id: number) => this.get(id)?.zoom ?? 1,
 		};
 	}
 }
@@ -1,8 +1,94 @@
+import { type CameraEasing, catmullRom, perlin1d, resolveEasing } from "./motion";
+
 export interface CameraTarget {
 	x: number;
 	y: number;
 }
 
+export interface FollowGroupOptions {
+	/** World-space margin kept around the targets */
+	padding?: number;
+	minZoom?: number;
+	maxZoom?: number;
+	/** How fast position and zoom catch up, like follow's lerp */
+	lerp?: number;
+}
+
+/** A point of a camera path, reached `time` ms after the path starts */
+export interface CameraWaypoint {
+	x: number;
+	y: number;
+	time: number;
+	zoom?: number;
+}
+
+export interface CameraPathOptions {
+	/** Applied to the whole path's time; defaults to "linear" so waypoint times are kept */
+	easing?: CameraEasing;
+	loop?: boolean;
+	onComplete?: () => void;
+}
+
+/** Trauma shake tuning: offsets scale with trauma squared */
+export interface TraumaShakeOptions {
+	/** Largest offset at full trauma, in pixels */
+	maxOffset?: number;
+	/** Largest roll at full trauma, in radians */
+	maxAngle?: number;
+	/** Noise samples per second; higher is more jittery */
+	frequency?: number;
+	/** Trauma lost per second */
+	decay?: number;
+}
+
+interface Move {
+	elapsed: number;
+	duration: number;
+	ease: (t: number) => number;
+	onComplete?: () => void;
+}
+
+interface PanMove extends Move {
+	fromX: number;
+	fromY: number;
+	toX: number;
+	toY: number;
+}
+
+interface ZoomMove extends Move {
+	from: number;
+	to: number;
+}
+
+interface PathMove extends Move {
+	points: CameraWaypoint[];
+	loop: boolean;
+}
+
+interface BlendMove extends Move {
+	source: Camera;
+	/** What the source showed when the blend started, used instead of its live view when it was blending itself */
+	frozen: CameraPose | null;
+}
+
+interface CameraPose {
+	x: number;
+	y: number;
+	zoom: number;
+	rotation: number;
+}
+
+/**
+ * Part of the screen a camera draws into, in screen coordinates as used by
+ * mouse, touch and screen.drawRect: (x, y) is the centre, y points up.
+ */
+export interface CameraViewport {
+	x: number;
+	y: number;
+	w: number;
+	h: number;
+}
+
 export class Camera {
 	id = 0;
 	x = 0;
@@ -16,12 +102,38 @@ export class Camera {
 	private followOffsetY = 0;
 	private deadZoneW = 0;
 	private deadZoneH = 0;
+	private groupTargets: CameraTarget[] | null = null;
+	private groupPadding = 32;
+	private groupMinZoom = 0.5;
+	private groupMaxZoom = 2;
+	private groupLerp = 0.1;
 
 	private shakeIntensity = 0;
 	private shakeDuration = 0;
 	private shakeElapsed = 0;
+	private shakeDone: (() => void) | undefined;
 	private shakeOffX = 0;
 	private shakeOffY = 0;
+	private shakeAngle = 0;
+	private shakeTime = 0;
+
+	private trauma = 0;
+	private traumaOffset = 12;
+	private traumaAngle = 0.05;
+	private traumaFrequency = 20;
+	private traumaDecay = 1;
+
+	private lookAheadDistance = 0;
+	private lookAheadLerp = 0.05;
+	private lookX = 0;
+	private lookY = 0;
+	private lastTargetX: number | null = null;
+	private lastTargetY: number | null = null;
+
+	private panMove: PanMove | null = null;
+	private zoomMove: ZoomMove | null = null;
+	private pathMove: PathMove | null = null;
+	private blendMove: BlendMove | null = null;
 
 	private boundsMinX: number | null = null;
 	private boundsMinY: number | null = null;
@@ -34,16 +146,25 @@ export class Camera {
 	private targetZoom: number | null = null;
 	private zoomLerp = 0.1;
 
+	private viewport: CameraViewport | null = null;
+
 	constructor(screenW: number, screenH: number) {
 		this.screenW = screenW;
 		this.screenH = screenH;
 	}
 
 	update(dtMs: number): void {
-		const dt = dtMs / 1000;
-
 		// Smooth zoom
-		if (this.targetZoom !== null) {
+		if (this.zoomMove) {
+			const move = this.zoomMove;
+			const t = this.advance(move, dtMs);
+			this.zoom = move.from + (move.to - move.from) * move.ease(t);
+			if (t >= 1) {
+				this.finish(move, () => {
+					this.zoomMove = null;
+				});
+			}
+		} else if (this.targetZoom !== null) {
 			this.zoom += (this.targetZoom - this.zoom) * Math.min(1, this.zoomLerp * dtMs / 16);
 			if (Math.abs(this.zoom - this.targetZoom) < 0.001) {
 				this.zoom = this.targetZoom;
@@ -51,10 +172,26 @@ export class Camera {
 			}
 		}
 
-		// Follow target
-		if (this.followTarget !== null) {
-			const tx = this.followTarget.x + this.followOffsetX;
-			const ty = this.followTarget.y + this.followOffsetY;
+		// Scripted moves take over from following until they finish
+		if (this.pathMove) {
+			this.updatePath(this.pathMove, dtMs);
+		} else if (this.panMove) {
+			const move = this.panMove;
+			const t = this.advance(move, dtMs);
+			const e = move.ease(t);
+			this.x = move.fromX + (move.toX - move.fromX) * e;
+			this.y = move.fromY + (move.toY - move.fromY) * e;
+			if (t >= 1) {
+				this.finish(move, () => {
+					this.panMove = null;
+				});
+			}
+		} else if (this.groupTargets !== null) {
+			this.updateGroup(dtMs);
+		} else if (this.followTarget !== null) {
+			this.updateLookAhead(dtMs);
+			const tx = this.followTarget.x + this.followOffsetX + this.lookX;
+			const ty = this.followTarget.y + this.followOffsetY + this.lookY;
 
 			if (this.deadZoneW > 0 || this.deadZoneH > 0) {
 				const diffX = tx - this.x;
@@ -74,27 +211,27 @@ export class Camera {
 		}
 
 		// Clamp to bounds
-		if (this.boundsMinX !== null) this.x = Math.max(this.boundsMinX + this.screenW / 2 / this.zoom, this.x);
-		if (this.boundsMinY !== null) this.y = Math.max(this.boundsMinY + this.screenH / 2 / this.zoom, this.y);
-		if (this.boundsMaxX !== null) this.x = Math.min(this.boundsMaxX - this.screenW / 2 / this.zoom, this.x);
-		if (this.boundsMaxY !== null) this.y = Math.min(this.boundsMaxY - this.screenH / 2 / this.zoom, this.y);
+		const viewW = this.viewport?.w ?? this.screenW;
+		const viewH = this.viewport?.h ?? this.screenH;
+		if (this.boundsMinX !== null) this.x = Math.max(this.boundsMinX + viewW / 2 / this.zoom, this.x);
+		if (this.boundsMinY !== null) this.y = Math.max(this.boundsMinY + viewH / 2 / this.zoom, this.y);
+		if (this.boundsMaxX !== null) this.x = Math.min(this.boundsMaxX - viewW / 2 / this.zoom, this.x);
+		if (this.boundsMaxY !== null) this.y = Math.min(this.boundsMaxY - viewH / 2 / this.zoom, this.y);
 
-		// Shake
-		if (this.shakeElapsed < this.shakeDuration) {
-			this.shakeElapsed += dtMs;
-			const progress = 1 - this.shakeElapsed / this.shakeDuration;
-			const intensity = this.shakeIntensity * progress * progress;
-			this.shakeOffX = (Math.random() * 2 - 1) * intensity;
-			this.shakeOffY = (Math.random() * 2 - 1) * intensity;
-		} else {
-			this.shakeOffX = 0;
-			this.shakeOffY = 0;
-		}
+		this.updateShake(dtMs);
 
-		void dt;
+		if (this.blendMove) {
+			const move = this.blendMove;
+			if (this.advance(move, dtMs) >= 1) {
+				this.finish(move, () => {
+					this.blendMove = null;
+				});
+			}
+		}
 	}
 
 	follow(target: CameraTarget, lerp = 0.1, offX = 0, offY = 0): void {
+		this.groupTargets = null;
 		this.followTarget = target;
 		this.followLerp = lerp;
 		this.followOffsetX = offX;
@@ -103,6 +240,21 @@ export class Camera {
 
 	unfollow(): void {
 		this.followTarget = null;
+		this.groupTargets = null;
+	}
+
+	/**
+	 * Keeps every target in view: centres on their bounding box and zooms to
+	 * fit it (plus padding) inside the screen or viewport, between minZoom
+	 * and maxZoom. Replaces follow(); the list is read live each frame.
+	 */
+	followGroup(targets: CameraTarget[], options: FollowGroupOptions = {}): void {
+		this.followTarget = null;
+		this.groupTargets = targets;
+		this.groupPadding = options.padding ?? 32;
+		this.groupMinZoom = options.minZoom ?? 0.5;
+		this.groupMaxZoom = options.maxZoom ?? 2;
+		this.groupLerp = options.lerp ?? 0.1;
 	}
 
 	setDeadZone(w: number, h: number): void {
@@ -110,10 +262,107 @@ export class Camera {
 		this.deadZoneH = h;
 	}
 
-	shake(intensity: number, durationMs: number): void {
+	/** Shake that fades out over `durationMs`; `intensity` is the largest offset in pixels */
+	shake(intensity: number, durationMs: number, onComplete?: () => void): void {
 		this.shakeIntensity = intensity;
 		this.shakeDuration = durationMs;
 		this.shakeElapsed = 0;
+		this.shakeDone = onComplete;
+	}
+
+	/** Adds trauma (0 to 1, capped at 1); the camera shakes until it decays back to 0 */
+	addTrauma(amount: number): void {
+		this.trauma = Math.max(0, Math.min(1, this.trauma + amount));
+	}
+
+	getTrauma(): number {
+		return this.trauma;
+	}
+
+	setTraumaShake(options: TraumaShakeOptions): void {
+		this.traumaOffset = options.maxOffset ?? this.traumaOffset;
+		this.traumaAngle = options.maxAngle ?? this.traumaAngle;
+		this.traumaFrequency = options.frequency ?? this.traumaFrequency;
+		this.traumaDecay = options.decay ?? this.traumaDecay;
+	}
+
+	/**
+	 * Leads the followed target by up to `distance` pixels in the direction it
+	 * moves, easing towards it at `lerp`. A distance of 0 turns it off.
+	 */
+	setLookAhead(distance: number, lerp = 0.05): void {
+		this.lookAheadDistance = distance;
+		this.lookAheadLerp = lerp;
+		if (distance === 0) {
+			this.lookX = 0;
+			this.lookY = 0;
+		}
+	}
+
+	/** Eased move of the centre to (x, y); following resumes afterwards */
+	panTo(x: number, y: number, durationMs: number, easing?: CameraEasing, onComplete?: () => void): void {
+		this.pathMove = null;
+		this.panMove = {
+			elapsed: 0,
+			duration: durationMs,
+			ease: resolveEasing(easing),
+			onComplete,
+			fromX: this.x,
+			fromY: this.y,
+			toX: x,
+			toY: y,
+		};
+	}
+
+	zoomTo(zoom: number, durationMs: number, easing?: CameraEasing, onComplete?: () => void): void {
+		this.targetZoom = null;
+		this.zoomMove = {
+			elapsed: 0,
+			duration: durationMs,
+			ease: resolveEasing(easing),
+			onComplete,
+			from: this.zoom,
+			to: zoom,
+		};
+	}
+
+	/**
+	 * Moves along a Catmull-Rom spline through the waypoints, reaching each at
+	 * its `time`. Waypoints with a zoom also drive the zoom.
+	 */
+	followPath(waypoints: CameraWaypoint[], options: CameraPathOptions = {}): void {
+		const points = [...waypoints].sort((a, b) => a.time - b.time);
+		if (points.length === 0) return;
+		this.panMove = null;
+		this.pathMove = {
+			elapsed: 0,
+			duration: points[points.length - 1].time,
+			ease: resolveEasing(options.easing ?? "linear"),
+			onComplete: options.onComplete,
+			points,
+			loop: options.loop ?? false,
+		};
+		this.updatePath(this.pathMove, 0);
+	}
+
+	/** Cancels pans, zoom moves and paths without calling their callbacks */
+	stopMoves(): void {
+		this.panMove = null;
+		this.zoomMove = null;
+		this.pathMove = null;
+	}
+
+	/** Whether a pan, zoom move, path or blend is running */
+	isMoving(): boolean {
+		return this.panMove !== null || this.zoomMove !== null || this.pathMove !== null || this.blendMove !== null;
+	}
+
+	/** Starts showing `source`'s view and eases into this camera's own over `durationMs` */
+	blendFrom(source: Camera, durationMs: number, easing?: CameraEasing, onComplete?: () => void): void {
+		if (source === this) return;
+		// A blending source may be blending from this camera, so following it live could loop forever
+		const frozen = source.blendMove ? source.pose() : null;
+		this.blendMove = { elapsed: 0, duration: durationMs, ease: resolveEasing(easing), onComplete, source, frozen };
 	}
 
 	setBounds(minX: number, minY: number, maxX: number, maxY: number): void {
@@ -139,26 +388,77 @@ export class Camera {
 		}
 	}
 
+	/** Restricts drawing between begin and end to a rectangle of the screen, centred on this camera */
+	setViewport(x: number, y: number, w: number, h: number): void {
+		this.viewport = { x, y, w, h };
+	}
+
+	/** Back to drawing over the whole screen */
+	clearViewport(): void {
+		this.viewport = null;
+	}
+
+	getViewport(): CameraViewport | null {
+		return this.viewport ? { ...this.viewport } : null;
+	}
+
+	/** Whether a point in screen coordinates (mouse, touch) falls inside the viewport; always true without one */
+	containsPointer(px: number, py: number): boolean {
+		const v = this.viewport;
+		if (!v) return true;
+		return Math.abs(px - v.x) <= v.w / 2 && Math.abs(py - v.y) <= v.h / 2;
+	}
+
+	/** Position in the drawing context: origin at the screen centre, y down */
 	worldToScreen(wx: number, wy: number): { x: number; y: number } {
+		const view = this.pose();
+		const dx = (wx - view.x) * view.zoom;
+		const dy = (wy - view.y) * view.zoom;
+		const cos = Math.cos(view.rotation);
+		const sin = Math.sin(view.rotation);
 		return {
-			x: (wx - this.x) * this.zoom + this.screenW / 2 + this.shakeOffX,
-			y: (wy - this.y) * this.zoom + this.screenH / 2 + this.shakeOffY,
+			x: dx * cos - dy * sin + this.centerX() + this.shakeOffX,
+			y: dx * sin + dy * cos + this.centerY() + this.shakeOffY,
 		};
 	}
 
 	screenToWorld(sx: number, sy: number): { x: number; y: number } {
+		const view = this.pose();
+		const dx = sx - this.centerX() - this.shakeOffX;
+		const dy = sy - this.centerY() - this.shakeOffY;
+		const cos = Math.cos(view.rotation);
+		const sin = Math.sin(view.rotation);
 		return {
-			x: (sx - this.screenW / 2 - this.shakeOffX) / this.zoom + this.x,
-			y: (sy - this.screenH / 2 - this.shakeOffY) / this.zoom + this.y,
+			x: (dx * cos + dy * sin) / view.zoom + view.x,
+			y: (dy * cos - dx * sin) / view.zoom + view.y,
 		};
 	}
 
-	applyTransform(ctx: CanvasRenderingContext2D): void {
+	/** World position under a mouse or touch point (screen coordinates, y up) */
+	pointerToWorld(px: number, py: number): { x: number; y: number } {
+		// The drawing context has y pointing down
+		return this.screenToWorld(px, -py);
+	}
+
+	/**
+	 * Sets up the context for drawing through this camera. Parallax factors
+	 * below 1 make a background scroll (and zoom, by the horizontal factor)
+	 * that much slower than the world: 0 stays fixed, 1 moves with the world.
+	 */
+	applyTransform(ctx: CanvasRenderingContext2D, parallaxX = 1, parallaxY = parallaxX): void {
 		ctx.save();
-		ctx.translate(this.screenW / 2 + this.shakeOffX, this.screenH / 2 + this.shakeOffY);
-		ctx.scale(this.zoom, this.zoom);
-		ctx.rotate(this.rotation);
-		ctx.translate(-this.x, -this.y);
+		const v = this.viewport;
+		if (v) {
+			ctx.beginPath();
+			ctx.rect(v.x - v.w / 2, -v.y - v.h / 2, v.w, v.h);
+			ctx.clip();
+		}
+		const view = this.pose();
+		ctx.translate(this.centerX() + this.shakeOffX, this.centerY() + this.shakeOffY);
+		const zoom = 1 + (view.zoom - 1) * parallaxX;
+		ctx.scale(zoom, zoom);
+		ctx.rotate(view.rotation);
+		ctx.translate(-view.x * parallaxX, -view.y * parallaxY);
 	}
 
 	resetTransform(ctx: CanvasRenderingContext2D): void {
@@ -171,14 +471,178 @@ export class Camera {
 		this.zoom = 1;
 		this.rotation = 0;
 		this.followTarget = null;
+		this.groupTargets = null;
 		this.shakeIntensity = 0;
 		this.shakeDuration = 0;
 		this.shakeElapsed = 0;
+		this.shakeDone = undefined;
 		this.shakeOffX = 0;
 		this.shakeOffY = 0;
+		this.shakeAngle = 0;
+		this.shakeTime = 0;
+		this.trauma = 0;
+		this.lookAheadDistance = 0;
+		this.lookX = 0;
+		this.lookY = 0;
+		this.lastTargetX = null;
+		this.lastTargetY = null;
+		this.stopMoves();
+		this.blendMove = null;
 		this.clearBounds();
 		this.targetZoom = null;
 		this.deadZoneW = 0;
 		this.deadZoneH = 0;
+		this.viewport = null;
+	}
+
+	/**
+	 * Position, zoom and rotation actually shown: the camera's own, mixed with
+	 * the source camera's during a blend, plus shake roll.
+	 */
+	private pose(): CameraPose {
+		let x = this.x;
+		let y = this.y;
+		let zoom = this.zoom;
+		let rotation = this.rotation;
+		const blend = this.blendMove;
+		if (blend) {
+			const from = blend.frozen ?? blend.source.pose();
+			const t = blend.ease(Math.min(1, blend.elapsed / blend.duration));
+			x = from.x + (x - from.x) * t;
+			y = from.y + (y - from.y) * t;
+			zoom = from.zoom + (zoom - from.zoom) * t;
+			rotation = from.rotation + (rotation - from.rotation) * t;
+		}
+		return { x, y, zoom, rotation: rotation + this.shakeAngle };
+	}
+
+	/** Moves a timed move forward and returns its progress, 0 to 1 */
+	private advance(move: Move, dtMs: number): number {
+		move.elapsed += dtMs;
+		return move.duration > 0 ? Math.min(1, move.elapsed / move.duration) : 1;
+	}
+
+	// Clears the move before its callback, so the callback can start the next one
+	private finish(move: Move, clear: () => void): void {
+		clear();
+		move.onComplete?.();
+	}
+
+	private updatePath(move: PathMove, dtMs: number): void {
+		const points = move.points;
+		let t = this.advance(move, dtMs);
+		if (t >= 1 && move.loop && move.duration > 0) {
+			move.elapsed %= move.duration;
+			t = move.elapsed / move.duration;
+		}
+		const time = move.ease(t) * move.duration;
+
+		let i = 0;
+		while (i < points.length - 2 && time >= points[i + 1].time) i++;
+		const p1 = points[i];
+		const p2 = points[Math.min(i + 1, points.length - 1)];
+		const p0 = points[Math.max(i - 1, 0)];
+		const p3 = points[Math.min(i + 2, points.length - 1)];
+		const span = p2.time - p1.time;
+		const u = span > 0 ? Math.max(0, Math.min(1, (time - p1.time) / span)) : 1;
+		this.x = catmullRom(p0.x, p1.x, p2.x, p3.x, u);
+		this.y = catmullRom(p0.y, p1.y, p2.y, p3.y, u);
+		if (p1.zoom !== undefined && p2.zoom !== undefined) {
+			this.zoom = p1.zoom + (p2.zoom - p1.zoom) * u;
+		}
+
+		if (t >= 1 && !move.loop) {
+			this.finish(move, () => {
+				this.pathMove = null;
+			});
+		}
+	}
+
+	private updateGroup(dtMs: number): void {
+		const targets = this.groupTargets;
+		if (!targets || targets.length === 0) return;
+		let minX = Number.POSITIVE_INFINITY;
+		let minY = Number.POSITIVE_INFINITY;
+		let maxX = Number.NEGATIVE_INFINITY;
+		let maxY = Number.NEGATIVE_INFINITY;
+		for (const target of targets) {
+			if (target.x < minX) minX = target.x;
+			if (target.x > maxX) maxX = target.x;
+			if (target.y < minY) minY = target.y;
+			if (target.y > maxY) maxY = target.y;
+		}
+		const k = Math.min(1, (this.groupLerp * dtMs) / 16);
+		this.x += ((minX + maxX) / 2 - this.x) * k;
+		this.y += ((minY + maxY) / 2 - this.y) * k;
+
+		// A running zoomTo or smooth setZoom wins over the fitted zoom
+		if (this.zoomMove || this.targetZoom !== null) return;
+		const viewW = this.viewport?.w ?? this.screenW;
+		const viewH = this.viewport?.h ?? this.screenH;
+		const fit = Math.min(
+			viewW / Math.max(1e-6, maxX - minX + this.groupPadding * 2),
+			viewH / Math.max(1e-6, maxY - minY + this.groupPadding * 2),
+		);
+		const zoom = Math.max(this.groupMinZoom, Math.min(this.groupMaxZoom, fit));
+		this.zoom += (zoom - this.zoom) * k;
+	}
+
+	private updateLookAhead(dtMs: number): void {
+		const target = this.followTarget;
+		if (!target) return;
+		if (this.lookAheadDistance === 0 || dtMs <= 0) {
+			this.lastTargetX = target.x;
+			this.lastTargetY = target.y;
+			return;
+		}
+		const vx = this.lastTargetX === null ? 0 : target.x - this.lastTargetX;
+		const vy = this.lastTargetY === null ? 0 : target.y - this.lastTargetY;
+		this.lastTargetX = target.x;
+		this.lastTargetY = target.y;
+		const speed = Math.sqrt(vx * vx + vy * vy);
+		const wantX = speed > 0 ? (vx / speed) * this.lookAheadDistance : 0;
+		const wantY = speed > 0 ? (vy / speed) * this.lookAheadDistance : 0;
+		const k = Math.min(1, (this.lookAheadLerp * dtMs) / 16);
+		this.lookX += (wantX - this.lookX) * k;
+		this.lookY += (wantY - this.lookY) * k;
+	}
+
+	/** Timed shake and trauma shake, both sampled from Perlin noise */
+	private updateShake(dtMs: number): void {
+		this.shakeTime += dtMs;
+		const n = (this.shakeTime / 1000) * this.traumaFrequency;
+		let offset = 0;
+		let angle = 0;
+
+		if (this.shakeElapsed < this.shakeDuration) {
+			this.shakeElapsed += dtMs;
+			const progress = Math.max(0, 1 - this.shakeElapsed / this.shakeDuration);
+			offset += this.shakeIntensity * progress * progress;
+			if (this.shakeElapsed >= this.shakeDuration) {
+				const done = this.shakeDone;
+				this.shakeDone = undefined;
+				done?.();
+			}
+		}
+
+		if (this.trauma > 0) {
+			const amount = this.trauma * this.trauma;
+			offset += this.traumaOffset * amount;
+			angle = this.traumaAngle * amount * perlin1d(n, 2);
+			this.trauma = Math.max(0, this.trauma - (this.traumaDecay * dtMs) / 1000);
+		}
+
+		this.shakeOffX = offset * perlin1d(n, 0);
+		this.shakeOffY = offset * perlin1d(n, 1);
+		this.shakeAngle = angle;
+	}
+
+	// Where the camera centre lands in the drawing context (origin at the screen centre, y down): the viewport centre
+	private centerX(): number {
+		return this.viewport ? this.viewport.x : 0;
+	}
+
+	private centerY(): number {
+		return this.viewport ? -this.viewport.y : 0;
 	}
 }
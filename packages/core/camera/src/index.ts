@@ -1,2 +1,11 @@
-export { Camera, type CameraTarget } from "./camera";
+export {
+	Camera,
+	type CameraPathOptions,
+	type CameraTarget,
+	type CameraViewport,
+	type CameraWaypoint,
+	type FollowGroupOptions,
+	type TraumaShakeOptions,
+} from "./camera";
 export { CameraManager } from "./camera-manager";
+export type { CameraEasing } from "./motion";
@@ -0,0 +1,47 @@
+import { Easing } from "@al8b/tween";
+
+/** An easing name from @al8b/tween, or a custom curve over 0..1 */
+export type CameraEasing = string | ((t: number) => number);
+
+export const resolveEasing = (easing: CameraEasing | undefined): ((t: number) => number) => {
+	if (typeof easing === "function") return easing;
+	return Easing[easing ?? "easeInOutQuad"] ?? Easing.linear;
+};
+
+// Fixed permutation so shakes replay identically (snapshots, time machine)
+const PERM = new Uint8Array(512);
+{
+	const p = Array.from({ length: 256 }, (_, i) => i);
+	let seed = 1013904223;
+	for (let i = 255; i > 0; i--) {
+		seed = (seed * 1664525 + 1013904223) >>> 0;
+		const j = seed % (i + 1);
+		[p[i], p[j]] = [p[j], p[i]];
+	}
+	for (let i = 0; i < 512; i++) PERM[i] = p[i & 255];
+}
+
+const gradient = (i: number, x: number): number => {
+	const h = PERM[i & 511];
+	return ((h / 255) * 2 - 1) * x;
+};
+
+/** 1D Perlin noise in about -1..1; `channel` picks an independent curve */
+export const perlin1d = (x: number, channel = 0): number => {
+	// Perlin noise is 0 on lattice points; a fractional phase per channel keeps evenly spaced samples off them
+	x += 0.37 + channel * 0.29;
+	const xi = Math.floor(x);
+	const f = x - xi;
+	const fade = f * f * f * (f * (f * 6 - 15) + 10);
+	const base = xi + PERM[channel & 255];
+	const a = gradient(base, f);
+	const b = gradient(base + 1, f - 1);
+	return (a + (b - a) * fade) * 2;
+};
+
+/** Catmull-Rom interpolation between p1 and p2 */
+export const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number): number => {
+	const t2 = t * t;
+	const t3 = t2 * t;
+	return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t3);
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { EventBus } from "../src/event-bus";
+
+describe("EventBus", () => {
+	it("runs listeners by priority, then in subscription order", () => {
+		const bus = new EventBus();
+		const order: string[] = [];
+		bus.on("hit", () => order.push("a"));
+		bus.on("hit", () => order.push("high"), { priority: 10 });
+		bus.on("hit", () => order.push("b"));
+		bus.on("*", () => order.push("wildcard"), { priority: 5 });
+
+		bus.emit("hit");
+		expect(order).toEqual(["high", "wildcard", "a", "b"]);
+	});
+
+	it("matches one segment with * and one or more with **", () => {
+		const bus = new EventBus();
+		const seen: Record<string, string[]> = { one: [], many: [], tail: [] };
+		bus.on("enemy.*", (_p, e) => seen.one.push(e.name));
+		bus.on("enemy.**", (_p, e) => seen.many.push(e.name));
+		bus.on("**.died", (_p, e) => seen.tail.push(e.name));
+
+		bus.emit("enemy.died");
+		bus.emit("enemy.boss.died");
+		bus.emit("enemy");
+		bus.emit("player.died");
+		expect(seen).toEqual({
+			one: ["enemy.died"],
+			many: ["enemy.died", "enemy.boss.died"],
+			tail: ["enemy.died", "enemy.boss.died", "player.died"],
+		});
+	});
+
+	it("stops lower priority listeners when one cancels the event", () => {
+		const bus = new EventBus();
+		const order: string[] = [];
+		bus.on(
+			"damage",
+			(_p, e) => {
+				order.push("shield");
+				e.stop();
+			},
+			{ priority: 1 },
+		);
+		bus.on("damage", () => order.push("health"));
+
+		expect(bus.emit("damage", 5)).toBe(false);
+		expect(order).toEqual(["shield"]);
+		expect(bus.emit("heal")).toBe(true);
+	});
+
+	it("stops only the innermost emit from bus.stop", () => {
+		const bus = new EventBus();
+		const order: string[] = [];
+		bus.on("outer", () => {
+			expect(bus.emit("inner")).toBe(false);
+			order.push("outer after inner");
+		});
+		bus.on("outer", () => order.push("outer 2"));
+		bus.on("inner", () => bus.stop());
+		bus.on("inner", () => order.push("inner 2"));
+
+		expect(bus.emit("outer")).toBe(true);
+		expect(order).toEqual(["outer after inner", "outer 2"]);
+	});
+
+	it("runs once listeners a single time and skips listeners removed mid-emit", () => {
+		const bus = new EventBus();
+		let once = 0;
+		let late = 0;
+		bus.once("tick", () => once++);
+		bus.on("tick", () => bus.off(lateId));
+		const lateId = bus.on("tick", () => late++);
+
+		bus.emit("tick");
+		bus.emit("tick");
+		expect(once).toBe(1);
+		expect(late).toBe(0);
+	});
+
+	it("removes a group's subscriptions together", () => {
+		const bus = new EventBus();
+		const level = bus.group("level");
+		let calls = 0;
+		level.on("spawn", () => calls++);
+		level.once("enemy.*", () => calls++);
+		bus.on("spawn", () => calls++);
+
+		level.clear();
+		bus.emit("spawn");
+		bus.emit("enemy.died");
+		expect(calls).toBe(1);
+	});
+
+	it("emits deferred events on flush, in order", () => {
+		const bus = new EventBus();
+		const order: string[] = [];
+		bus.on("a", () => {
+			order.push("a");
+			bus.defer("c");
+		});
+		bus.on("b", () => order.push("b"));
+		bus.on("c", () => order.push("c"));
+
+		bus.defer("a");
+		bus.defer("b");
+		expect(order).toEqual([]);
+		bus.flushDeferred();
+		expect(order).toEqual(["a", "c", "b"]);
+	});
+});
@@ -1,55 +1,152 @@
-type EventCallback = (payload: unknown) => void;
+/**
+ * Untyped event map. Pass your own to get checked names and payloads, e.g.
+ * `EventBus<{ "enemy.died": { id: number }; "level.start": undefined }>`.
+ */
+export type EventMap = Record<string, unknown>;
+
+/**
+ * Namespace patterns: segments are separated by ".", `*` matches exactly one
+ * segment and `**` one or more ("enemy.*" matches "enemy.died", not
+ * "enemy.boss.died"; "enemy.**" matches both).
+ */
+export type EventPattern = "*" | "**" | `${string}.*` | `${string}.**` | `*.${string}` | `**.${string}`;
+
+/** Passed to every listener along with the payload */
+export interface EventInfo {
+	/** The emitted event name (not the pattern that matched) */
+	readonly name: string;
+	/** Stops listeners after this one from running; emit then returns false */
+	stop(): void;
+	readonly stopped: boolean;
+}
+
+export type EventCallback<P = unknown> = (payload: P, event: EventInfo) => void;
+
+export interface SubscribeOptions {
+	/** Higher runs first; equal priorities run in subscription order. Defaults to 0 */
+	priority?: number;
+	once?: boolean;
+	/** Group the subscription belongs to, torn down with offGroup */
+	group?: string;
+}
 
 interface Subscription {
 	id: number;
 	event: string;
 	cb: EventCallback;
 	once: boolean;
+	priority: number;
+	group: string | null;
+	/** Compiled matcher for wildcard patterns, null for plain names */
+	matcher: RegExp | null;
+	removed: boolean;
 }
 
-export class EventBus {
+/** Subscriptions made through one group, removable together */
+export class EventGroup<Events extends object = EventMap> {
+	readonly name: string;
+	private readonly bus: EventBus<Events>;
+
+	constructor(bus: EventBus<Events>, name: string) {
+		this.bus = bus;
+		this.name = name;
+	}
+
+	on<K extends keyof Events & string>(event: K, cb: EventCallback<Events[K]>, priority?: number): number;
+	on(pattern: EventPattern, cb: EventCallback, priority?: number): number;
+	on(event: string, cb: EventCallback<never>, priority = 0): number {
+		return this.bus.subscribe(event, cb as EventCallback, { priority, group: this.name });
+	}
+
+	once<K extends keyof Events & string>(event: K, cb: EventCallback<Events[K]>, priority?: number): number;
+	once(pattern: EventPattern, cb: EventCallback, priority?: number): number;
+	once(event: string, cb: EventCallback<never>, priority = 0): number {
+		return this.bus.subscribe(event, cb as EventCallback, { priority, once: true, group: this.name });
+	}
+
+	/** Removes every subscription of the group */
+	clear(): void {
+		this.bus.offGroup(this.name);
+	}
+}
+
+const isPattern = (event: string): boolean => event.split(".").some((s) => s === "*" || s === "**");
+
+const compilePattern = (pattern: string): RegExp => {
+	const parts = pattern.split(".").map((segment) => {
+		if (segment === "*") return "[^.]+";
+		if (segment === "**") return "[^.]+(?:\\.[^.]+)*";
+		return segment.replace(/[\\^$+?()[\]{}|*]/g, "\\$&");
+	});
+	return new RegExp(`^${parts.join("\\.")}$`);
+};
+
+// Priority first, then subscription order
+const byPriority = (a: Subscription, b: Subscription): number => b.priority - a.priority || a.id - b.id;
+
+export class EventBus<Events extends object = EventMap> {
 	private subs: Map<string, Subscription[]> = new Map();
-	private idToEvent: Map<number, string> = new Map();
+	private wildcards: Subscription[] = [];
+	private byId: Map<number, Subscription> = new Map();
 	private nextId = 0;
 	private deferredQueue: Array<{ event: string; payload: unknown }> = [];
 	private flushing = false;
+	// Info objects of the emits in progress, innermost last
+	private dispatching: Array<{ stopped: boolean }> = [];
 
-	on(event: string, cb: EventCallback): number {
-		return this._add(event, cb, false);
+	on<K extends keyof Events & string>(event: K, cb: EventCallback<Events[K]>, options?: SubscribeOptions): number;
+	on(pattern: EventPattern, cb: EventCallback, options?: SubscribeOptions): number;
+	on(event: string, cb: EventCallback<never>, options?: SubscribeOptions): number {
+		return this.subscribe(event, cb as EventCallback, options);
 	}
 
-	once(event: string, cb: EventCallback): number {
-		return this._add(event, cb, true);
+	once<K extends keyof Events & string>(event: K, cb: EventCallback<Events[K]>, options?: SubscribeOptions): number;
+	once(pattern: EventPattern, cb: EventCallback, options?: SubscribeOptions): number;
+	once(event: string, cb: EventCallback<never>, options?: SubscribeOptions): number {
+		return this.subscribe(event, cb as EventCallback, { ...options, once: true });
 	}
 
 	off(id: number): void {
-		const event = this.idToEvent.get(id);
-		if (!event) return;
-		const list = this.subs.get(event);
+		const sub = this.byId.get(id);
+		if (!sub) return;
+		sub.removed = true;
+		this.byId.delete(id);
+		const list = sub.matcher ? this.wildcards : this.subs.get(sub.event);
 		if (!list) return;
-		const idx = list.findIndex((s) => s.id === id);
+		const idx = list.indexOf(sub);
 		if (idx !== -1) list.splice(idx, 1);
-		this.idToEvent.delete(id);
 	}
 
-	emit(event: string, payload?: unknown): void {
-		const list = this.subs.get(event);
-		if (!list || list.length === 0) return;
-		// Snapshot to allow modifications during iteration
-		const snap = list.slice();
-		for (const sub of snap) {
-			if (sub.once) this.off(sub.id);
-			sub.cb(payload);
+	/** A handle whose subscriptions can all be removed at once, e.g. when a scene unloads */
+	group(name: string): EventGroup<Events> {
+		return new EventGroup(this, name);
+	}
+
+	offGroup(name: string): void {
+		for (const sub of [...this.byId.values()]) {
+			if (sub.group === name) this.off(sub.id);
 		}
 	}
 
+	/**
+	 * Runs the listeners of `event` (exact and wildcard) by priority. Returns
+	 * false when one of them stopped the event.
+	 */
+	emit<K extends keyof Events & string>(event: K, payload?: Events[K]): boolean;
+	emit(event: string, payload?: unknown): boolean {
+		return this._dispatch(event, payload);
+	}
+
+	/** Stops the event currently being emitted, from inside one of its listeners */
+	stop(): void {
+		const current = this.dispatching[this.dispatching.length - 1];
+		if (current) current.stopped = true;
+	}
+
+	/** Queues `event` to be emitted at the end of the frame */
+	defer<K extends keyof Events & string>(event: K, payload?: Events[K]): void;
 	defer(event: string, payload?: unknown): void {
-		if (this.flushing) {
-			// If called during flush, emit immediately to avoid infinite queue
-			this.emit(event, payload);
-		} else {
-			this.deferredQueue.push({ event, payload });
-		}
+		this._enqueue(event, payload);
 	}
 
 	flushDeferred(): void {
@@ -57,53 +154,122 @@ export class EventBus {
 		this.flushing = true;
 		const queue = this.deferredQueue.splice(0);
 		for (const item of queue) {
-			this.emit(item.event, item.payload);
+			this._dispatch(item.event, item.payload);
 		}
 		this.flushing = false;
 	}
 
+	/** Removes the subscriptions made to one event name or pattern, or every subscription */
 	clear(event?: string): void {
 		if (event !== undefined) {
-			const list = this.subs.get(event);
-			if (list) {
-				for (const sub of list) this.idToEvent.delete(sub.id);
-				this.subs.delete(event);
+			for (const sub of [...this.byId.values()]) {
+				if (sub.event === event) this.off(sub.id);
 			}
 		} else {
+			for (const sub of this.byId.values()) sub.removed = true;
 			this.subs.clear();
-			this.idToEvent.clear();
+			this.wildcards = [];
+			this.byId.clear();
 		}
 	}
 
 	reset(): void {
-		this.subs.clear();
-		this.idToEvent.clear();
+		this.clear();
 		this.deferredQueue.length = 0;
 		this.nextId = 0;
 		this.flushing = false;
 	}
 
 	getInterface(): Record<string, unknown> {
+		const groupInterface = (name: string) => ({
+			name,
+			on: (event: string, cb: EventCallback, priority?: number) => this.subscribe(event, cb, { priority, group: name }),
+			once: (event: string, cb: EventCallback, priority?: number) =>
+				this.subscribe(event, cb, { priority, once: true, group: name }),
+			clear: () => this.offGroup(name),
+		});
 		return {
-			on: (event: string, cb: EventCallback) => this.on(event, cb),
-			once: (event: string, cb: EventCallback) => this.once(event, cb),
+			on: (event: string, cb: EventCallback, priority?: number) => this.subscribe(event, cb, { priority }),
+			once: (event: string, cb: EventCallback, priority?: number) => this.subscribe(event, cb, { priority, once: true }),
 			off: (id: number) => this.off(id),
-			emit: (event: string, payload?: unknown) => this.emit(event, payload),
-			defer: (event: string, payload?: unknown) => this.defer(event, payload),
+			emit: (event: string, payload?: unknown) => this._dispatch(event, payload),
+			defer: (event: string, payload?: unknown) => this._enqueue(event, payload),
+			stop: () => this.stop(),
+			group: (name: string) => groupInterface(name),
+			offGroup: (name: string) => this.offGroup(name),
 			clear: (event?: string) => this.clear(event),
 		};
 	}
 
-	private _add(event: string, cb: EventCallback, once: boolean): number {
+	/** @internal Untyped subscription used by on, once and groups */
+	subscribe(event: string, cb: EventCallback, options: SubscribeOptions = {}): number {
 		const id = this.nextId++;
-		const sub: Subscription = { id, event, cb, once };
-		let list = this.subs.get(event);
-		if (!list) {
-			list = [];
-			this.subs.set(event, list);
+		const matcher = isPattern(event) ? compilePattern(event) : null;
+		const sub: Subscription = {
+			id,
+			event,
+			cb,
+			once: options.once ?? false,
+			priority: options.priority ?? 0,
+			group: options.group ?? null,
+			matcher,
+			removed: false,
+		};
+		let list: Subscription[];
+		if (matcher) {
+			list = this.wildcards;
+		} else {
+			list = this.subs.get(event) ?? [];
+			if (list.length === 0) this.subs.set(event, list);
 		}
-		list.push(sub);
-		this.idToEvent.set(id, event);
+		// Keep lists sorted: after every listener of equal or higher priority
+		let idx = list.length;
+		while (idx > 0 && list[idx - 1].priority < sub.priority) idx--;
+		list.splice(idx, 0, sub);
+		this.byId.set(id, sub);
 		return id;
 	}
+
+	private _dispatch(event: string, payload: unknown): boolean {
+		const exact = this.subs.get(event);
+		let list = exact ? exact.slice() : [];
+		if (this.wildcards.length > 0) {
+			const matched = this.wildcards.filter((s) => s.matcher?.test(event));
+			if (matched.length > 0) list = list.concat(matched).sort(byPriority);
+		}
+		if (list.length === 0) return true;
+
+		const state = { stopped: false };
+		const info: EventInfo = {
+			name: event,
+			stop: () => {
+				state.stopped = true;
+			},
+			get stopped() {
+				return state.stopped;
+			},
+		};
+		this.dispatching.push(state);
+		try {
+			for (const sub of list) {
+				// Listeners removed by an earlier one in this emit no longer run
+				if (sub.removed) continue;
+				if (sub.once) this.off(sub.id);
+				sub.cb(payload, info);
+				if (state.stopped) break;
+			}
+		} finally {
+			this.dispatching.pop();
+		}
+		return !state.stopped;
+	}
+
+	private _enqueue(event: string, payload: unknown): void {
+		if (this.flushing) {
+			// If called during flush, emit immediately to avoid infinite queue
+			this._dispatch(event, payload);
+		} else {
+			this.deferredQueue.push({ event, payload });
+		}
+	}
 }
@@ -1 +1,9 @@
-export { EventBus } from "./event-bus";
+export {
+	EventBus,
+	type EventCallback,
+	EventGroup,
+	type EventInfo,
+	type EventMap,
+	type EventPattern,
+	type SubscribeOptions,
+} from "./event-bus";
@@ -0,0 +1,331 @@
+import { describe, expect, it } from "vitest";
+import { FSM } from "../src/fsm";
+import { FSMManager } from "../src/fsm-manager";
+import { toDot, toMermaid } from "../src/graph";
+
+describe("FSM nesting", () => {
+	it("keeps dotted names flat unless a parent is given", () => {
+		const fsm = new FSM();
+		fsm.addState("run", {});
+		fsm.addState("run.fast", {});
+
+		fsm.transition("run.fast");
+		expect(fsm.getActiveStates()).toEqual(["run.fast"]);
+		fsm.transition("run");
+		expect(fsm.getActiveStates()).toEqual(["run"]);
+		expect(fsm.getPrevious()).toBe("run.fast");
+	});
+
+	it("nests states under their parent, whatever their names", () => {
+		const fsm = new FSM();
+		const log: string[] = [];
+		fsm.addState("combat", { initial: "ranged", onEnter: () => log.push("enter combat") });
+		fsm.addState("melee", { parent: "combat", onExit: () => log.push("exit melee") });
+		fsm.addState("ranged", { parent: "combat" });
+
+		fsm.transition("combat");
+		expect(fsm.getActiveStates()).toEqual(["combat", "ranged"]);
+		fsm.transition("melee");
+		fsm.transition("ranged");
+		expect(fsm.getState()).toBe("ranged");
+		expect(fsm.isIn("combat")).toBe(true);
+		expect(log).toEqual(["enter combat", "exit melee"]);
+	});
+
+	it("lets an event bubble to the parent state", () => {
+		const fsm = new FSM();
+		fsm.addState("patrol", {});
+		fsm.addState("combat", { on: { lost: "patrol" } });
+		fsm.addState("combat.melee", { parent: "combat" });
+
+		fsm.transition("combat.melee");
+		expect(fsm.send("lost")).toBe(true);
+		expect(fsm.getActiveStates()).toEqual(["patrol"]);
+	});
+
+	it("ignores a parent that would nest a state inside itself", () => {
+		const fsm = new FSM();
+		fsm.addState("a", { parent: "b" });
+		fsm.addState("b", { parent: "a" });
+
+		fsm.transition("b");
+		expect(fsm.getActiveStates()).toEqual(["b", "a"]);
+		expect(fsm.describe().states.find((s) => s.name === "b")?.parent).toBeNull();
+	});
+
+	it("keeps each parallel region's state across transitions in another", () => {
+		const fsm = new FSM();
+		fsm.addState("body", { parallel: true });
+		fsm.addState("legs", { parent: "body" });
+		fsm.addState("walk", { parent: "legs" });
+		fsm.addState("run", { parent: "legs" });
+		fsm.addState("arms", { parent: "body" });
+		fsm.addState("idle", { parent: "arms" });
+		fsm.addState("swing", { parent: "arms" });
+
+		fsm.transition("body");
+		fsm.transition("swing");
+		fsm.transition("run");
+		expect(fsm.getActiveStates().sort()).toEqual(["arms", "body", "legs", "run", "swing"]);
+	});
+});
+
+describe("FSM events and timers", () => {
+	it("takes the first transition whose guard passes, passing the payload along", () => {
+		const fsm = new FSM();
+		const log: string[] = [];
+		fsm.addState("idle", {
+			on: {
+				hit: [
+					{ target: "dead", guard: (damage) => (damage as number) >= 10 },
+					{ target: "hurt", action: (damage) => log.push(`hurt by ${damage}`) },
+				],
+			},
+		});
+		fsm.addState("hurt", { on: { heal: { target: "idle", guard: () => false } } });
+		fsm.addState("dead", {});
+
+		fsm.transition("idle");
+		expect(fsm.send("hit", 3)).toBe(true);
+		expect(fsm.getState()).toBe("hurt");
+		expect(log).toEqual(["hurt by 3"]);
+		expect(fsm.send("heal")).toBe(false);
+		expect(fsm.send("unknown")).toBe(false);
+		expect(fsm.getState()).toBe("hurt");
+
+		fsm.transition("idle");
+		fsm.send("hit", 12);
+		expect(fsm.getState()).toBe("dead");
+	});
+
+	it("lets every parallel region handle the same event", () => {
+		const fsm = new FSM();
+		fsm.addState("body", { parallel: true, on: { stop: "still" } });
+		fsm.addState("still", {});
+		fsm.addState("legs", { parent: "body" });
+		fsm.addState("walk", { parent: "legs", on: { alarm: "run" } });
+		fsm.addState("run", { parent: "legs" });
+		fsm.addState("arms", { parent: "body" });
+		fsm.addState("idle", { parent: "arms", on: { alarm: "draw" } });
+		fsm.addState("draw", { parent: "arms" });
+
+		fsm.transition("body");
+		fsm.send("alarm");
+		expect(fsm.getActiveStates().sort()).toEqual(["arms", "body", "draw", "legs", "run"]);
+		fsm.send("stop");
+		expect(fsm.getActiveStates()).toEqual(["still"]);
+	});
+
+	it("takes timed transitions once their delay has passed in the state", () => {
+		const fsm = new FSM();
+		let open = false;
+		fsm.addState("closed", { after: { delay: 100, target: "opening", guard: () => open } });
+		fsm.addState("opening", {});
+		fsm.addTimedTransition("opening", 50, "open");
+		fsm.addState("open", {});
+
+		fsm.transition("closed");
+		fsm.update(150);
+		expect(fsm.getState()).toBe("closed");
+		open = true;
+		fsm.update(16);
+		expect(fsm.getState()).toBe("opening");
+		fsm.update(40);
+		expect(fsm.getState()).toBe("opening");
+		fsm.update(10);
+		expect(fsm.getState()).toBe("open");
+	});
+
+	it("restarts a state's timers when it is re-entered", () => {
+		const fsm = new FSM();
+		fsm.addState("a", { after: { delay: 100, target: "b" } });
+		fsm.addState("b", {});
+		fsm.addTransition("b", "back", "a");
+
+		fsm.transition("a");
+		fsm.update(80);
+		fsm.transition("a");
+		fsm.update(80);
+		expect(fsm.getState()).toBe("a");
+		fsm.update(20);
+		expect(fsm.getState()).toBe("b");
+		fsm.send("back");
+		expect(fsm.getState()).toBe("a");
+	});
+});
+
+describe("FSM diagrams", () => {
+	const makeCombat = (): FSM => {
+		const fsm = new FSM();
+		fsm.addState("idle", { on: { see: "combat" } });
+		fsm.addState("combat", { history: true, after: { delay: 500, target: "idle", guard: () => true } });
+		fsm.addState("combat.melee", { parent: "combat", on: { far: "ranged" } });
+		fsm.addState("ranged", { parent: "combat" });
+		fsm.transition("idle");
+		return fsm;
+	};
+
+	it("describes states and transitions", () => {
+		const graph = makeCombat().describe();
+		expect(graph.states.find((s) => s.name === "combat")).toEqual({
+			name: "combat",
+			parent: null,
+			initial: "combat.melee",
+			parallel: false,
+			history: "shallow",
+			active: false,
+		});
+		expect(graph.transitions).toEqual([
+			{ from: "idle", to: "combat", event: "see", delay: null, guarded: false },
+			{ from: "combat", to: "idle", event: null, delay: 500, guarded: true },
+			{ from: "combat.melee", to: "ranged", event: "far", delay: null, guarded: false },
+		]);
+	});
+
+	it("matches initial against full state names only", () => {
+		const fsm = new FSM();
+		fsm.addState("combat", { initial: "combat.melee" });
+		fsm.addState("ranged", { parent: "combat" });
+		fsm.addState("combat.melee", { parent: "combat" });
+		expect(fsm.describe().states[0].initial).toBe("combat.melee");
+
+		// "melee" is not a state, so the first substate added is used
+		fsm.addState("combat", { initial: "melee" });
+		expect(fsm.describe().states[0].initial).toBe("ranged");
+		fsm.transition("combat");
+		expect(fsm.getState()).toBe("ranged");
+	});
+
+	it("writes Mermaid with nested states, edge labels and the active states", () => {
+		expect(toMermaid(makeCombat().describe())).toBe(
+			[
+				"stateDiagram-v2",
+				'\tstate "idle" as s_idle',
+				'\tstate "combat (shallow history)" as s_combat',
+				"\tstate s_combat {",
+				"\t\t[*] --> s_combat_melee",
+				'\t\tstate "melee" as s_combat_melee',
+				'\t\tstate "ranged" as s_ranged',
+				"\t}",
+				"\ts_idle --> s_combat : see",
+				"\ts_combat --> s_idle : after 500ms [guard]",
+				"\ts_combat_melee --> s_ranged : far",
+				"\tclassDef active fill:#f9d77e,stroke:#b8860b",
+				"\tclass s_idle active",
+			].join("\n"),
+		);
+	});
+
+	it("writes DOT with clusters for compound states", () => {
+		const dot = toDot(makeCombat().describe());
+		expect(dot).toContain("subgraph cluster_s_combat {");
+		expect(dot).toContain('s_idle [label="idle", style="rounded,filled", fillcolor="#f9d77e"];');
+		expect(dot).toContain('s_idle -> s_combat_melee [label="see", lhead=cluster_s_combat];');
+		expect(dot).toContain(
+			's_combat_melee -> s_idle [label="after 500ms [guard]", style=dashed, ltail=cluster_s_combat];',
+		);
+	});
+});
+
+describe("FSM game time", () => {
+	it("counts time in state from update's dtMs, per active state", () => {
+		const fsm = new FSM();
+		fsm.addState("combat", {});
+		fsm.addState("aim", { parent: "combat" });
+		fsm.addState("fire", { parent: "combat" });
+
+		fsm.transition("combat");
+		fsm.update(16);
+		fsm.update(34);
+		expect(fsm.getTimeInState()).toBe(50);
+		fsm.transition("fire");
+		fsm.update(10);
+		expect(fsm.getTimeInState()).toBe(10);
+		expect(fsm.getTimeInState("combat")).toBe(60);
+		expect(fsm.getTimeInState("aim")).toBe(0);
+		// A paused game passes 0 and stands still
+		fsm.update(0);
+		expect(fsm.getTimeInState("combat")).toBe(60);
+	});
+
+	it("applies transitions requested in onUpdate after every state has updated", () => {
+		const fsm = new FSM();
+		const log: string[] = [];
+		fsm.addState("a", {
+			onUpdate: () => {
+				fsm.transition("b");
+				fsm.transition("c");
+				log.push(`update a, still ${fsm.getState()}`);
+			},
+		});
+		fsm.addState("b", { onEnter: () => log.push("enter b") });
+		fsm.addState("c", { onEnter: () => log.push("enter c") });
+
+		fsm.transition("a");
+		fsm.update(16);
+		expect(log).toEqual(["update a, still a", "enter c"]);
+		expect(fsm.getPrevious()).toBe("a");
+	});
+});
+
+describe("FSM state export", () => {
+	const makeDoor = (log: string[] = []): FSM => {
+		const fsm = new FSM();
+		fsm.addState("closed", { onEnter: () => log.push("enter closed") });
+		fsm.addState("open", { history: true, onEnter: () => log.push("enter open") });
+		fsm.addState("ajar", { parent: "open" });
+		fsm.addState("wide", { parent: "open" });
+		return fsm;
+	};
+
+	it("restores active states, times and history without running callbacks", () => {
+		const source = makeDoor();
+		source.transition("wide");
+		source.update(40);
+		source.transition("closed");
+		source.update(5);
+		const saved = source.exportState();
+		expect(saved).toEqual({ active: ["closed"], previous: "wide", times: { closed: 5 }, history: { open: ["wide"] } });
+
+		const log: string[] = [];
+		const copy = makeDoor(log);
+		copy.importState(JSON.parse(JSON.stringify(saved)));
+		expect(log).toEqual([]);
+		expect(copy.getState()).toBe("closed");
+		expect(copy.getPrevious()).toBe("wide");
+		expect(copy.getTimeInState()).toBe(5);
+		copy.transition("open");
+		expect(copy.getActiveStates()).toEqual(["open", "wide"]);
+	});
+
+	it("drops states that are no longer registered", () => {
+		const fsm = makeDoor();
+		fsm.importState({ active: ["gone", "closed"], previous: null, times: { gone: 9 }, history: {} });
+		expect(fsm.getActiveStates()).toEqual(["closed"]);
+		expect(fsm.getTimeInState()).toBe(0);
+	});
+
+	it("restores manager machines by id and ignores saved ones that do not exist yet", () => {
+		const manager = new FSMManager();
+		const api = manager.getInterface() as {
+			create: () => number;
+			addState: (id: number, name: string, config: object) => void;
+			transition: (id: number, name: string) => void;
+			getState: (id: number) => string | null;
+		};
+		const door = api.create();
+		api.addState(door, "closed", {});
+		api.addState(door, "open", {});
+		api.transition(door, "open");
+		const saved = manager.exportState();
+		saved.machines[7] = { active: ["open"], previous: null, times: {}, history: {} };
+		saved.nextId = 8;
+
+		api.transition(door, "closed");
+		manager.importState(saved);
+		expect(api.getState(door)).toBe("open");
+		expect(api.getState(7)).toBeNull();
+		// Ids handed out after the import do not collide with the saved ones
+		expect(api.create()).toBe(8);
+	});
+});
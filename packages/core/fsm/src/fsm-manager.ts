@@ -1,4 +1,11 @@
-import { FSM, type StateConfig } from "./fsm";
+import { FSM, type FSMState, type StateConfig, type TransitionConfig } from "./fsm";
+import { toDot, toMermaid } from "./graph";
+
+/** State of every machine, keyed by id */
+export interface FSMManagerState {
+	nextId: number;
+	machines: Record<string, FSMState>;
+}
 
 export class FSMManager {
 	private instances: Map<number, FSM> = new Map();
@@ -25,6 +32,37 @@ export class FSMManager {
 		}
 	}
 
+	/** Mermaid stateDiagram-v2 source for a machine, or "" if it does not exist */
+	toMermaid(id: number): string {
+		const fsm = this.instances.get(id);
+		return fsm ? toMermaid(fsm.describe()) : "";
+	}
+
+	/** Graphviz DOT source for a machine, or "" if it does not exist */
+	toDot(id: number): string {
+		const fsm = this.instances.get(id);
+		return fsm ? toDot(fsm.describe()) : "";
+	}
+
+	exportState(): FSMManagerState {
+		const machines: Record<string, FSMState> = {};
+		for (const [id, fsm] of this.instances) machines[id] = fsm.exportState();
+		return { nextId: this.nextId, machines };
+	}
+
+	/**
+	 * Restores machines saved by exportState. Machines are matched by id and
+	 * keep their current states and callbacks; ones missing from the saved
+	 * state are left as they are.
+	 */
+	importState(state: FSMManagerState): void {
+		this.nextId = Math.max(this.nextId, state.nextId);
+		for (const [id, fsm] of this.instances) {
+			const saved = state.machines[id];
+			if (saved) fsm.importState(saved);
+		}
+	}
+
 	reset(): void {
 		for (const fsm of this.instances.values()) {
 			fsm.reset();
@@ -46,9 +84,21 @@ export class FSMManager {
 			transition: (id: number, name: string) => {
 				this.instances.get(id)?.transition(name);
 			},
+			addTransition: (id: number, from: string, event: string, transition: string | TransitionConfig) => {
+				this.instances.get(id)?.addTransition(from, event, transition);
+			},
+			addTimedTransition: (id: number, from: string, delay: number, transition: string | TransitionConfig) => {
+				this.instances.get(id)?.addTimedTransition(from, delay, transition);
+			},
+			send: (id: number, event: string, payload?: unknown): boolean =>
+				this.instances.get(id)?.send(event, payload) ?? false,
 			getState: (id: number): string | null => this.instances.get(id)?.getState() ?? null,
 			getPrevious: (id: number): string | null => this.instances.get(id)?.getPrevious() ?? null,
-			getTimeInState: (id: number): number => this.instances.get(id)?.getTimeInState() ?? 0,
+			getTimeInState: (id: number, name?: string): number => this.instances.get(id)?.getTimeInState(name) ?? 0,
+			getActiveStates: (id: number): string[] => this.instances.get(id)?.getActiveStates() ?? [],
+			isIn: (id: number, name: string): boolean => this.instances.get(id)?.isIn(name) ?? false,
+			toMermaid: (id: number): string => this.toMermaid(id),
+			toDot: (id: number): string => this.toDot(id),
 		};
 	}
 }
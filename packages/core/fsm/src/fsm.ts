@@ -1,20 +1,96 @@
+export interface TransitionConfig {
+	/** Full name of the state to go to; the state itself makes it exit and re-enter */
+	target: string;
+	/** The transition is only taken when this returns a truthy value */
+	guard?: (payload?: unknown) => unknown;
+	/** Runs before the state changes */
+	action?: (payload?: unknown) => void;
+}
+
+export interface TimedTransitionConfig extends TransitionConfig {
+	/** Milliseconds after entering the state */
+	delay: number;
+}
+
 export interface StateConfig {
 	onEnter?: () => void;
 	onExit?: () => void;
 	onUpdate?: (dtMs: number) => void;
+	/** Transitions taken when an event is sent: event name -> target, or one or more guarded transitions */
+	on?: Record<string, string | TransitionConfig | TransitionConfig[]>;
+	/** Transitions taken once the state has been active for their delay */
+	after?: TimedTransitionConfig | TimedTransitionConfig[];
+	/** Name of the enclosing state, making this one its substate. Names never imply nesting. */
+	parent?: string;
+	/** Substate entered when this state is entered directly; defaults to the first one added */
+	initial?: string;
+	/**
+	 * Re-entering this state resumes where it was left: "shallow" (or true)
+	 * restores the last direct substate, "deep" every nested substate.
+	 */
+	history?: boolean | "shallow" | "deep";
+	/** Substates are parallel regions, all active at once */
+	parallel?: boolean;
+}
+
+export interface FSMGraphState {
+	name: string;
+	parent: string | null;
+	/** Substate entered by default, null for simple and parallel states */
+	initial: string | null;
+	parallel: boolean;
+	history: "shallow" | "deep" | null;
+	active: boolean;
 }
 
+export interface FSMGraphTransition {
+	from: string;
+	to: string;
+	/** Event name, or null for a timed transition */
+	event: string | null;
+	/** Delay of a timed transition, in ms */
+	delay: number | null;
+	guarded: boolean;
+}
+
+export interface FSMGraph {
+	states: FSMGraphState[];
+	transitions: FSMGraphTransition[];
+}
+
+/** Plain-data FSM state, as saved in snapshots and time-machine frames */
+export interface FSMState {
+	active: string[];
+	previous: string | null;
+	/** Milliseconds each active state has been active */
+	times: Record<string, number>;
+	/** Substates remembered by history states */
+	history: Record<string, string[]>;
+}
+
+/**
+ * State machine with optional nesting. A state is a substate only when its
+ * config names a `parent` that is registered; dots in names are just
+ * characters. Active parents update before their children.
+ */
 export class FSM {
 	id = 0;
 	private states: Map<string, StateConfig> = new Map();
-	private current: string | null = null;
+	// Active states, every parent before its children
+	private active: string[] = [];
 	private previous: string | null = null;
-	private enterTime = 0;
-	private pendingTransition: string | null = null;
+	// Game time spent in each active state, summed from update's dtMs
+	private times: Map<string, number> = new Map();
+	private history: Map<string, string[]> = new Map();
+	// Transitions requested during onUpdate, one per region (the last request wins)
+	private pending: Map<string, string> = new Map();
 	private inUpdate = false;
 
+	/** Adds or replaces a state. A `parent` that would nest the state inside itself is ignored. */
 	addState(name: string, config: StateConfig): void {
-		this.states.set(name, config);
+		let parent = config.parent;
+		while (parent !== undefined && parent !== name) parent = this.states.get(parent)?.parent;
+		this.states.set(name, parent === name ? { ...config, parent: undefined } : config);
 	}
 
 	removeState(name: string): void {
@@ -24,62 +100,341 @@ export class FSM {
 	transition(name: string): void {
 		if (!this.states.has(name)) return;
 		if (this.inUpdate) {
-			this.pendingTransition = name;
+			const key = this._region(name);
+			this.pending.delete(key);
+			this.pending.set(key, name);
 			return;
 		}
 		this._doTransition(name);
 	}
 
+	/** Adds an event transition to a state's table */
+	addTransition(from: string, event: string, transition: string | TransitionConfig): void {
+		const config = this.states.get(from);
+		if (!config) return;
+		const spec = typeof transition === "string" ? { target: transition } : transition;
+		config.on = { ...config.on, [event]: [...this._eventTransitions(config, event), spec] };
+	}
+
+	/** Adds a transition taken `delay` ms after entering a state */
+	addTimedTransition(from: string, delay: number, transition: string | TransitionConfig): void {
+		const config = this.states.get(from);
+		if (!config) return;
+		const spec = typeof transition === "string" ? { target: transition } : transition;
+		config.after = [...this._timedTransitions(config), { ...spec, delay }];
+	}
+
+	/**
+	 * Dispatches an event to the active states, innermost first. The first
+	 * transition whose guard passes is taken; its ancestors then ignore the
+	 * event, while other parallel regions still handle it. Returns whether any
+	 * transition was taken.
+	 */
+	send(event: string, payload?: unknown): boolean {
+		const taken: TransitionConfig[] = [];
+		const handled = new Set<string>();
+		for (let i = this.active.length - 1; i >= 0; i--) {
+			const name = this.active[i];
+			if (handled.has(name)) continue;
+			const config = this.states.get(name);
+			if (!config) continue;
+			const transition = this._eventTransitions(config, event).find((t) => !t.guard || t.guard(payload));
+			if (!transition) continue;
+			taken.push(transition);
+			for (let s: string | null = name; s !== null; s = this._parent(s)) handled.add(s);
+		}
+		for (const transition of taken) {
+			transition.action?.(payload);
+			this.transition(transition.target);
+		}
+		return taken.length > 0;
+	}
+
 	update(dtMs: number): void {
-		if (this.current === null) return;
-		const state = this.states.get(this.current);
-		if (state?.onUpdate) {
-			this.inUpdate = true;
-			try {
-				state.onUpdate(dtMs);
-			} finally {
-				this.inUpdate = false;
+		if (this.active.length === 0) return;
+		for (const name of this.active) this.times.set(name, (this.times.get(name) ?? 0) + dtMs);
+		this.inUpdate = true;
+		try {
+			// Timers first, so a transition requested by onUpdate in the same region wins
+			this._checkTimers();
+			for (const name of this.active.slice()) {
+				if (this.active.includes(name)) this.states.get(name)?.onUpdate?.(dtMs);
 			}
+		} finally {
+			this.inUpdate = false;
 		}
-		if (this.pendingTransition !== null) {
-			const next = this.pendingTransition;
-			this.pendingTransition = null;
-			this._doTransition(next);
+		if (this.pending.size > 0) {
+			const targets = [...this.pending.values()];
+			this.pending.clear();
+			for (const target of targets) this._doTransition(target);
 		}
 	}
 
+	/** The innermost active state (in the first region, inside parallel states) */
 	getState(): string | null {
-		return this.current;
+		let state: string | null = null;
+		for (const name of this.active) {
+			if (state === null || this._parent(name) === state) state = name;
+		}
+		return state;
+	}
+
+	/** Every active state, parents before children */
+	getActiveStates(): string[] {
+		return this.active.slice();
+	}
+
+	/** Whether `name` is active, either as the current state or one of its ancestors */
+	isIn(name: string): boolean {
+		return this.active.includes(name);
 	}
 
 	getPrevious(): string | null {
 		return this.previous;
 	}
 
-	getTimeInState(): number {
-		if (this.current === null) return 0;
-		return Date.now() - this.enterTime;
+	/** Game time in ms since `name` (by default the current state) was entered, 0 if it is not active */
+	getTimeInState(name?: string): number {
+		const state = name ?? this.getState();
+		if (state === null) return 0;
+		return this.times.get(state) ?? 0;
+	}
+
+	exportState(): FSMState {
+		const history: Record<string, string[]> = {};
+		for (const [name, states] of this.history) history[name] = states.slice();
+		return {
+			active: this.active.slice(),
+			previous: this.previous,
+			times: Object.fromEntries(this.times),
+			history,
+		};
+	}
+
+	/**
+	 * Restores a state from exportState without running any callbacks. States
+	 * that are no longer registered are dropped.
+	 */
+	importState(state: FSMState): void {
+		this.active = state.active.filter((name) => this.states.has(name));
+		this.previous = state.previous;
+		this.times = new Map(this.active.map((name) => [name, state.times[name] ?? 0]));
+		this.history = new Map(Object.entries(state.history).map(([name, states]) => [name, states.slice()]));
+		this.pending.clear();
+	}
+
+	/** States and transitions, for drawing the machine with toMermaid or toDot */
+	describe(): FSMGraph {
+		const states: FSMGraphState[] = [];
+		const transitions: FSMGraphTransition[] = [];
+		for (const [name, config] of this.states) {
+			const children = this._children(name);
+			let initial: string | null = null;
+			if (children.length > 0 && !config.parallel) {
+				initial = children.find((c) => c === config.initial) ?? children[0];
+			}
+			states.push({
+				name,
+				parent: this._parent(name),
+				initial,
+				parallel: !!config.parallel,
+				history: config.history === "deep" ? "deep" : config.history ? "shallow" : null,
+				active: this.active.includes(name),
+			});
+			for (const event of Object.keys(config.on ?? {})) {
+				for (const t of this._eventTransitions(config, event)) {
+					transitions.push({ from: name, to: t.target, event, delay: null, guarded: !!t.guard });
+				}
+			}
+			for (const t of this._timedTransitions(config)) {
+				transitions.push({ from: name, to: t.target, event: null, delay: t.delay, guarded: !!t.guard });
+			}
+		}
+		return { states, transitions };
 	}
 
 	reset(): void {
 		this.states.clear();
-		this.current = null;
+		this.active = [];
 		this.previous = null;
-		this.enterTime = 0;
-		this.pendingTransition = null;
+		this.times.clear();
+		this.history.clear();
+		this.pending.clear();
 		this.inUpdate = false;
 	}
 
+	private _eventTransitions(config: StateConfig, event: string): TransitionConfig[] {
+		const entry = config.on?.[event];
+		if (entry === undefined) return [];
+		if (typeof entry === "string") return [{ target: entry }];
+		return Array.isArray(entry) ? entry : [entry];
+	}
+
+	private _timedTransitions(config: StateConfig): TimedTransitionConfig[] {
+		const after = config.after;
+		if (after === undefined) return [];
+		return Array.isArray(after) ? after : [after];
+	}
+
+	/** Takes the due timed transitions of the active states, innermost first and once per region */
+	private _checkTimers(): void {
+		const handled = new Set<string>();
+		for (let i = this.active.length - 1; i >= 0; i--) {
+			const name = this.active[i];
+			if (handled.has(name)) continue;
+			const config = this.states.get(name);
+			if (!config?.after) continue;
+			const elapsed = this.getTimeInState(name);
+			const transition = this._timedTransitions(config).find((t) => elapsed >= t.delay && (!t.guard || t.guard()));
+			if (!transition) continue;
+			for (let s: string | null = name; s !== null; s = this._parent(s)) handled.add(s);
+			transition.action?.();
+			this.transition(transition.target);
+		}
+	}
+
+	/** The state's configured parent, while that parent is registered */
+	private _parent(name: string): string | null {
+		const parent = this.states.get(name)?.parent;
+		return parent !== undefined && this.states.has(parent) ? parent : null;
+	}
+
+	private _children(name: string): string[] {
+		const children: string[] = [];
+		for (const state of this.states.keys()) {
+			if (state !== name && this._parent(state) === name) children.push(state);
+		}
+		return children;
+	}
+
+	/** `name` and its ancestors, outermost first */
+	private _path(name: string): string[] {
+		const path: string[] = [];
+		for (let s: string | null = name; s !== null; s = this._parent(s)) path.unshift(s);
+		return path;
+	}
+
+	private _isDescendant(name: string, ancestor: string): boolean {
+		for (let s = this._parent(name); s !== null; s = this._parent(s)) {
+			if (s === ancestor) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * The state whose active subtree a transition to `target` replaces: the
+	 * child (on the target's path) of the nearest active proper ancestor, or
+	 * of the root. Inside a parallel state that child is a single region.
+	 */
+	private _scope(target: string): { path: string[]; index: number } {
+		const path = this._path(target);
+		let index = 0;
+		for (let i = path.length - 2; i >= 0; i--) {
+			if (this.active.includes(path[i])) {
+				index = i + 1;
+				break;
+			}
+		}
+		return { path, index };
+	}
+
+	private _region(target: string): string {
+		const { path, index } = this._scope(target);
+		const parent = index > 0 ? path[index - 1] : null;
+		if (parent !== null && this.states.get(parent)?.parallel) return path[index];
+		return parent ?? "";
+	}
+
 	private _doTransition(name: string): void {
-		const state = this.states.get(name);
-		if (!state) return;
-		if (this.current !== null) {
-			const cur = this.states.get(this.current);
-			cur?.onExit?.();
-		}
-		this.previous = this.current;
-		this.current = name;
-		this.enterTime = Date.now();
-		state.onEnter?.();
+		if (!this.states.has(name)) return;
+		const before = this.getState();
+		const { path, index } = this._scope(name);
+		const parent = index > 0 ? path[index - 1] : null;
+
+		// Leave the replaced subtree: one region of a parallel parent, or everything under the parent
+		const region = parent !== null && this.states.get(parent)?.parallel ? path[index] : null;
+		const leaving = this.active.filter((s) => {
+			if (region !== null) return s === region || this._isDescendant(s, region);
+			return parent === null || this._isDescendant(s, parent);
+		});
+		// History is taken before anything exits, since substates leave first
+		for (const s of leaving) {
+			if (this.states.get(s)?.history) {
+				this.history.set(
+					s,
+					this.active.filter((d) => this._isDescendant(d, s)),
+				);
+			}
+		}
+		for (let i = leaving.length - 1; i >= 0; i--) this._exit(leaving[i]);
+
+		this._enterPath(path, index);
+		this.previous = before;
+	}
+
+	private _exit(name: string): void {
+		this.states.get(name)?.onExit?.();
+		this.active = this.active.filter((s) => s !== name);
+		this.times.delete(name);
+	}
+
+	private _enter(name: string): void {
+		this.active.push(name);
+		this.times.set(name, 0);
+		this.states.get(name)?.onEnter?.();
+	}
+
+	/** Enters path[index..] in order; parallel states on the way also enter their other regions */
+	private _enterPath(path: string[], index: number): void {
+		const name = path[index];
+		this._enter(name);
+		if (index === path.length - 1) {
+			this._enterDefault(name);
+			return;
+		}
+		if (this.states.get(name)?.parallel) {
+			for (const child of this._children(name)) {
+				if (child === path[index + 1]) {
+					this._enterPath(path, index + 1);
+				} else {
+					this._enter(child);
+					this._enterDefault(child);
+				}
+			}
+		} else {
+			this._enterPath(path, index + 1);
+		}
+	}
+
+	/** Enters the substates of a state that was just entered */
+	private _enterDefault(name: string): void {
+		const config = this.states.get(name);
+		const children = this._children(name);
+		if (!config || children.length === 0) return;
+
+		if (config.parallel) {
+			for (const child of children) {
+				this._enter(child);
+				this._enterDefault(child);
+			}
+			return;
+		}
+
+		const remembered = config.history ? this.history.get(name) : undefined;
+		if (remembered && remembered.length > 0 && config.history === "deep") {
+			const restore = remembered.filter((s) => this.states.has(s));
+			if (restore.length > 0) {
+				for (const s of restore) this._enter(s);
+				return;
+			}
+		}
+
+		let child = remembered?.find((s) => children.includes(s));
+		if (!child && config.initial) {
+			child = children.find((c) => c === config.initial);
+		}
+		child ??= children[0];
+		this._enter(child);
+		this._enterDefault(child);
 	}
 }
@@ -0,0 +1,100 @@
+/**
+ * Text diagrams of a state machine, for design reviews: Mermaid
+ * stateDiagram-v2 and Graphviz DOT. Active states are highlighted.
+ */
+
+import type { FSMGraph, FSMGraphState, FSMGraphTransition } from "./fsm";
+
+// Both formats want plain identifiers; the real name goes in the label
+const nodeId = (name: string): string => `s_${name.replace(/[^A-Za-z0-9_]/g, "_")}`;
+
+const quote = (text: string): string => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+const shortName = (state: FSMGraphState): string =>
+	state.parent !== null && state.name.startsWith(`${state.parent}.`)
+		? state.name.slice(state.parent.length + 1)
+		: state.name;
+
+const edgeLabel = (t: FSMGraphTransition): string => {
+	const trigger = t.event ?? `after ${t.delay}ms`;
+	return t.guarded ? `${trigger} [guard]` : trigger;
+};
+
+const childrenOf = (graph: FSMGraph, parent: string | null): FSMGraphState[] =>
+	graph.states.filter((s) => s.parent === parent);
+
+export function toMermaid(graph: FSMGraph): string {
+	const lines = ["stateDiagram-v2"];
+
+	const writeState = (state: FSMGraphState, indent: string): void => {
+		const id = nodeId(state.name);
+		const label = state.history ? `${shortName(state)} (${state.history} history)` : shortName(state);
+		lines.push(`${indent}state ${quote(label)} as ${id}`);
+		const children = childrenOf(graph, state.name);
+		if (children.length === 0) return;
+		lines.push(`${indent}state ${id} {`);
+		if (state.initial !== null) lines.push(`${indent}\t[*] --> ${nodeId(state.initial)}`);
+		children.forEach((child, i) => {
+			// Mermaid separates concurrent regions with "--"
+			if (state.parallel && i > 0) lines.push(`${indent}\t--`);
+			writeState(child, `${indent}\t`);
+		});
+		lines.push(`${indent}}`);
+	};
+
+	for (const state of childrenOf(graph, null)) writeState(state, "\t");
+	for (const t of graph.transitions) {
+		lines.push(`\t${nodeId(t.from)} --> ${nodeId(t.to)} : ${edgeLabel(t).replace(/:/g, "#58;")}`);
+	}
+	const active = graph.states.filter((s) => s.active);
+	if (active.length > 0) {
+		lines.push("\tclassDef active fill:#f9d77e,stroke:#b8860b");
+		lines.push(`\tclass ${active.map((s) => nodeId(s.name)).join(",")} active`);
+	}
+	return lines.join("\n");
+}
+
+export function toDot(graph: FSMGraph): string {
+	const lines = ["digraph fsm {", "\tcompound=true;", "\tnode [shape=box, style=rounded];"];
+	const hasChildren = (name: string) => graph.states.some((s) => s.parent === name);
+
+	// Edges can't attach to a cluster, so compound states are drawn through a node inside them
+	const anchor = (name: string): string => {
+		let current = name;
+		for (;;) {
+			const state = graph.states.find((s) => s.name === current);
+			const next = state?.initial ?? childrenOf(graph, current)[0]?.name;
+			if (!next) return current;
+			current = next;
+		}
+	};
+
+	const writeState = (state: FSMGraphState, indent: string): void => {
+		const id = nodeId(state.name);
+		const fill = state.active ? ', style="rounded,filled", fillcolor="#f9d77e"' : "";
+		if (!hasChildren(state.name)) {
+			lines.push(`${indent}${id} [label=${quote(shortName(state))}${fill}];`);
+			return;
+		}
+		let label = shortName(state);
+		if (state.parallel) label += " (parallel)";
+		if (state.history) label += ` (${state.history} history)`;
+		lines.push(`${indent}subgraph cluster_${id} {`);
+		lines.push(`${indent}\tlabel=${quote(label)};`);
+		lines.push(`${indent}\tstyle=${state.parallel ? "dashed" : "rounded"};`);
+		if (state.active) lines.push(`${indent}\tcolor="#b8860b";`);
+		for (const child of childrenOf(graph, state.name)) writeState(child, `${indent}\t`);
+		lines.push(`${indent}}`);
+	};
+
+	for (const state of childrenOf(graph, null)) writeState(state, "\t");
+	for (const t of graph.transitions) {
+		const attrs = [`label=${quote(edgeLabel(t))}`];
+		if (t.event === null) attrs.push("style=dashed");
+		if (hasChildren(t.from)) attrs.push(`ltail=cluster_${nodeId(t.from)}`);
+		if (hasChildren(t.to)) attrs.push(`lhead=cluster_${nodeId(t.to)}`);
+		lines.push(`\t${nodeId(anchor(t.from))} -> ${nodeId(anchor(t.to))} [${attrs.join(", ")}];`);
+	}
+	lines.push("}");
+	return lines.join("\n");
+}
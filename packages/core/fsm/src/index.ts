@@ -1,2 +1,12 @@
-export { FSM, type StateConfig } from "./fsm";
-export { FSMManager } from "./fsm-manager";
+export {
+	FSM,
+	type FSMGraph,
+	type FSMGraphState,
+	type FSMGraphTransition,
+	type FSMState,
+	type StateConfig,
+	type TimedTransitionConfig,
+	type TransitionConfig,
+} from "./fsm";
+export { FSMManager, type FSMManagerState } from "./fsm-manager";
+export { toDot, toMermaid } from "./graph";
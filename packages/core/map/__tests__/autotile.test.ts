@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { BLOB47_MASKS } from "../src/core/autotile";
+import { TileMap } from "../src/core/tile-map";
+
+/** blob47 variants named after their reduced mask, so "ground199" is the tile for mask 199 */
+const blobTiles = BLOB47_MASKS.map((mask) => `ground${mask}`);
+
+describe("wang16 autotiling", () => {
+	it("picks the variant from the 4-bit edge mask, N = 1 | E = 2 | S = 4 | W = 8", () => {
+		const map = new TileMap(3, 3, 16, 16);
+		map.defineAutotile("water", { mode: "wang16", sprite: "water", border: false });
+
+		map.set(1, 1, "water");
+		expect(map.get(1, 1)).toBe("water:0,0");
+		map.set(1, 2, "water");
+		expect(map.get(1, 1)).toBe("water:1,0");
+		expect(map.get(1, 2)).toBe("water:0,1");
+		map.set(2, 1, "water");
+		expect(map.get(1, 1)).toBe("water:3,0");
+		expect(map.getTerrain(1, 1)).toBe("water");
+
+		map.set(1, 2, null);
+		expect(map.get(1, 1)).toBe("water:2,0");
+	});
+
+	it("counts the map edge as connected unless border is false", () => {
+		const map = new TileMap(3, 3, 16, 16);
+		map.defineAutotile("water", { mode: "wang16", sprite: "water" });
+		map.set(0, 0, "water");
+		// S and W lie beyond the edge: 4 | 8 = 12
+		expect(map.get(0, 0)).toBe("water:0,3");
+	});
+
+	it("connects to the terrains listed in connects", () => {
+		const map = new TileMap(2, 1, 16, 16);
+		map.defineAutotile("water", { mode: "wang16", sprite: "water", border: false, connects: ["lava"] });
+		map.defineAutotile("lava", { mode: "wang16", sprite: "lava", border: false });
+		map.set(0, 0, "water");
+		map.set(1, 0, "lava");
+		expect(map.get(0, 0)).toBe("water:2,0");
+		expect(map.get(1, 0)).toBe("lava:0,0");
+	});
+});
+
+describe("blob47 autotiling", () => {
+	it("has 47 distinct reduced masks", () => {
+		expect(BLOB47_MASKS).toHaveLength(47);
+		expect(BLOB47_MASKS[0]).toBe(0);
+		expect(BLOB47_MASKS[46]).toBe(255);
+	});
+
+	it("picks the variant from the 8-bit neighbour mask", () => {
+		const map = new TileMap(3, 3, 16, 16);
+		map.defineAutotile("ground", { mode: "blob47", tiles: blobTiles, border: false });
+		map.fill(0, 0, 3, 3, "ground");
+
+		expect(map.get(1, 1)).toBe("ground255");
+		// Bottom-left corner: N | NE | E
+		expect(map.get(0, 0)).toBe("ground7");
+		// Bottom edge: N | NE | E | W | NW
+		expect(map.get(1, 0)).toBe("ground199");
+	});
+
+	it("keeps a corner bit only when both edges beside it are connected", () => {
+		const map = new TileMap(3, 3, 16, 16);
+		map.defineAutotile("ground", { mode: "blob47", tiles: blobTiles, border: false });
+		map.set(0, 0, "ground");
+		map.set(1, 1, "ground");
+		expect(map.get(0, 0)).toBe("ground0");
+
+		map.set(1, 0, "ground");
+		// E joins, NE still lacks N
+		expect(map.get(0, 0)).toBe("ground4");
+		map.set(0, 1, "ground");
+		expect(map.get(0, 0)).toBe("ground7");
+	});
+
+	it("rejects unknown modes and short tile lists", () => {
+		const map = new TileMap(1, 1, 16, 16);
+		expect(() => map.defineAutotile("x", { mode: "wang16", tiles: ["a"] })).toThrow(/needs 16 tiles for wang16, got 1/);
+		expect(() => map.defineAutotile("x", { mode: "hex" as "blob47", sprite: "x" })).toThrow(
+			/Unknown autotile mode "hex"/,
+		);
+	});
+});
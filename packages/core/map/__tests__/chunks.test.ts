@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TileMap } from "../src/core/tile-map";
+import { ChunkGrid, visibleArea } from "../src/drawing/chunks";
+
+/** Every chunk canvas the map creates; each getContext call is one chunk redraw */
+let redraws = 0;
+
+beforeEach(() => {
+	redraws = 0;
+	vi.stubGlobal("document", {
+		createElement: () => ({
+			width: 0,
+			height: 0,
+			getContext: () => {
+				redraws++;
+				return { clearRect: () => {}, drawImage: () => {} };
+			},
+		}),
+	});
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+/** A screen context of the given size, translated by (e, f) like a camera would */
+const screen = (width: number, height: number, e = 0, f = 0) => {
+	const drawImage = vi.fn();
+	const context = {
+		canvas: { width, height },
+		globalAlpha: 1,
+		getTransform: () => ({ a: 1, b: 0, c: 0, d: 1, e, f }),
+		drawImage,
+	} as unknown as CanvasRenderingContext2D;
+	return { context, drawImage };
+};
+
+/** 64x64 map of 1 px tiles, all grass, cut into 16-tile chunks (4 by 4) */
+const makeMap = (): TileMap => {
+	const map = new TileMap(64, 64, 1, 1);
+	map.setChunkSize(16);
+	map.fill(0, 0, 64, 64, "grass");
+	return map;
+};
+
+const drawnAt = (drawImage: ReturnType<typeof vi.fn>) => drawImage.mock.calls.map((c) => [c[1], c[2]]);
+
+describe("ChunkGrid", () => {
+	it("flags only the existing chunk that holds a tile", () => {
+		const grid = new ChunkGrid();
+		grid.resize(40, 20, 16);
+		expect([grid.cols, grid.rows]).toEqual([3, 2]);
+		const first = grid.chunkAt(0, 0);
+		const last = grid.chunkAt(2, 1);
+		first.dirty = false;
+		last.dirty = false;
+
+		grid.markTile(35, 17);
+		expect(last.dirty).toBe(true);
+		expect(first.dirty).toBe(false);
+		grid.markTile(99, 0);
+		expect(first.dirty).toBe(false);
+	});
+});
+
+describe("visibleArea", () => {
+	it("inverts the context transform over the canvas corners", () => {
+		const context = {
+			canvas: { width: 100, height: 50 },
+			getTransform: () => ({ a: 2, b: 0, c: 0, d: 2, e: -20, f: 10 }),
+		} as unknown as CanvasRenderingContext2D;
+		expect(visibleArea(context)).toEqual({ left: 10, top: -5, right: 60, bottom: 20 });
+	});
+
+	it("is null when the context cannot report a transform", () => {
+		expect(visibleArea({ canvas: { width: 1, height: 1 } } as unknown as CanvasRenderingContext2D)).toBeNull();
+	});
+});
+
+describe("TileMap chunked drawing", () => {
+	it("draws only the chunks inside the visible area", () => {
+		const map = makeMap();
+		const view = screen(24, 24);
+		map.draw(view.context, 0, 0, 64, 64);
+		expect(drawnAt(view.drawImage)).toEqual([
+			[0, 0],
+			[16, 0],
+			[0, 16],
+			[16, 16],
+		]);
+
+		const scrolled = screen(24, 24, -40, 0);
+		map.draw(scrolled.context, 0, 0, 64, 64);
+		expect(drawnAt(scrolled.drawImage)).toEqual([
+			[32, 0],
+			[48, 0],
+			[32, 16],
+			[48, 16],
+		]);
+	});
+
+	it("rebuilds only the chunk whose tile changed", () => {
+		const map = makeMap();
+		const view = screen(64, 64);
+		map.draw(view.context, 0, 0, 64, 64);
+		expect(redraws).toBe(16);
+
+		// Row 60 counted from the bottom is in the top chunk row
+		map.set(5, 60, "rock");
+		const layer = map.layers[0];
+		expect(layer.chunks.chunkAt(0, 0).dirty).toBe(true);
+		expect(layer.chunks.chunkAt(0, 3).dirty).toBe(false);
+
+		map.draw(view.context, 0, 0, 64, 64);
+		expect(redraws).toBe(17);
+		map.draw(view.context, 0, 0, 64, 64);
+		expect(redraws).toBe(17);
+	});
+
+	it("skips chunks with no tiles", () => {
+		const map = new TileMap(64, 64, 1, 1);
+		map.setChunkSize(16);
+		map.set(20, 0, "grass");
+		const view = screen(64, 64);
+		map.draw(view.context, 0, 0, 64, 64);
+		expect(drawnAt(view.drawImage)).toEqual([[16, 48]]);
+		expect(redraws).toBe(1);
+	});
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { TileMap } from "../src/core/tile-map";
+
+/** 9x5 room split by a wall at column 4; "|" is glass, which lets sight and light through */
+const makeRoom = (gap: "#" | "|" = "#"): TileMap => {
+	const map = new TileMap(9, 5, 16, 16);
+	map.setTileProperties("glass", { opaque: false });
+	for (let y = 0; y < 5; y++) map.set(4, y, "wall");
+	if (gap === "|") map.set(4, 2, "glass");
+	return map;
+};
+
+describe("computeFov", () => {
+	it("sees up to and including a wall but not past it", () => {
+		const fov = makeRoom().computeFov(1, 2, 8);
+		expect(fov.isVisible(1, 2)).toBe(true);
+		expect(fov.isVisible(3, 4)).toBe(true);
+		expect(fov.isVisible(4, 2)).toBe(true);
+		for (let x = 5; x < 9; x++) {
+			for (let y = 0; y < 5; y++) expect(fov.isVisible(x, y)).toBe(false);
+		}
+		// Columns 0 to 3 and the wall itself
+		expect(fov.getCells()).toHaveLength(25);
+	});
+
+	it("sees through tiles marked opaque: false", () => {
+		const fov = makeRoom("|").computeFov(1, 2, 8);
+		expect(fov.isVisible(6, 2)).toBe(true);
+		expect(fov.isVisible(8, 2)).toBe(true);
+		expect(fov.isVisible(6, 0)).toBe(false);
+	});
+
+	it("stops at the radius and takes a custom opaque rule", () => {
+		const map = makeRoom();
+		expect(map.computeFov(0, 2, 2).isVisible(3, 2)).toBe(false);
+		const xray = map.computeFov(1, 2, 8, { opaque: () => false });
+		expect(xray.isVisible(6, 2)).toBe(true);
+	});
+});
+
+describe("LightGrid", () => {
+	it("lights cells in sight of a light and leaves occluded ones at the ambient level", () => {
+		const map = makeRoom();
+		const lighting = map.enableLighting(0.1);
+		lighting.addLight(1, 2, 6);
+
+		expect(lighting.getBrightness(1, 2)).toBe(1);
+		expect(lighting.getBrightness(3, 2)).toBeLessThan(lighting.getBrightness(2, 2));
+		expect(lighting.getBrightness(3, 2)).toBeGreaterThan(0.1);
+		expect(lighting.getBrightness(6, 2)).toBeCloseTo(0.1);
+	});
+
+	it("hides what no viewer sees and dims what was seen before", () => {
+		const map = makeRoom("|");
+		const lighting = map.enableLighting(1);
+		lighting.reveal(1, 2, 8);
+		expect(lighting.fog).toBe(true);
+		expect(lighting.isVisible(7, 2)).toBe(true);
+		expect(lighting.getBrightness(7, 0)).toBe(0);
+
+		lighting.clear();
+		lighting.reveal(1, 0, 1);
+		expect(lighting.isVisible(7, 2)).toBe(false);
+		expect(lighting.isExplored(7, 2)).toBe(true);
+		expect(lighting.getBrightness(7, 2)).toBeCloseTo(lighting.explored_brightness);
+		expect(lighting.getBrightness(1, 0)).toBe(1);
+
+		lighting.resetExplored();
+		expect(lighting.getBrightness(7, 2)).toBe(0);
+	});
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import type { PathPoint } from "../src/core/pathfinding";
+import { TileMap } from "../src/core/tile-map";
+
+/** Map from rows of text: "#" is a wall tile, "~" mud costing 5, anything else empty */
+const makeMap = (rows: string[]): TileMap => {
+	const map = new TileMap(rows[0].length, rows.length, 16, 16);
+	map.setTileProperties("mud", { cost: 5 });
+	rows.forEach((row, y) => {
+		for (let x = 0; x < row.length; x++) {
+			if (row[x] === "#") map.set(x, y, "wall");
+			else if (row[x] === "~") map.set(x, y, "mud");
+		}
+	});
+	return map;
+};
+
+const expectConnected = (path: PathPoint[], diagonal: boolean) => {
+	for (let i = 1; i < path.length; i++) {
+		const dx = Math.abs(path[i].x - path[i - 1].x);
+		const dy = Math.abs(path[i].y - path[i - 1].y);
+		if (diagonal) expect(Math.max(dx, dy)).toBe(1);
+		else expect(dx + dy).toBe(1);
+	}
+};
+
+describe("findPath", () => {
+	const walled = makeMap([
+		".....", //
+		".###.",
+		"...#.",
+		"##.#.",
+		".....",
+	]);
+
+	it("finds a shortest path around walls, start and goal included", () => {
+		const path = walled.findPath(0, 2, 4, 2);
+		expect(path?.[0]).toEqual({ x: 0, y: 2 });
+		expect(path?.[path.length - 1]).toEqual({ x: 4, y: 2 });
+		expect(path).toHaveLength(9);
+		expectConnected(path ?? [], false);
+		for (const p of path ?? []) expect(walled.get(p.x, p.y)).not.toBe("wall");
+	});
+
+	it("returns null for blocked, unreachable or off-map goals", () => {
+		const closed = makeMap(["..#.", "..#.", "..#."]);
+		expect(walled.findPath(0, 0, 1, 1)).toBeNull();
+		expect(closed.findPath(0, 0, 3, 0)).toBeNull();
+		expect(walled.findPath(0, 0, 9, 9)).toBeNull();
+		expect(walled.findPath(0, 2, 4, 2, { maxNodes: 3 })).toBeNull();
+	});
+
+	it("cuts corners only when diagonal moves allow it", () => {
+		const corner = makeMap([
+			".#", //
+			"..",
+		]);
+		expect(corner.findPath(0, 0, 1, 1, { diagonal: true })).toHaveLength(3);
+		expect(corner.findPath(0, 0, 1, 1, { diagonal: "always" })).toHaveLength(2);
+
+		const open = makeMap(["....", "....", "...."]);
+		const path = open.findPath(0, 0, 3, 2, { diagonal: true });
+		expect(path).toHaveLength(4);
+		expectConnected(path ?? [], true);
+	});
+
+	it("walks around costly tiles when the detour is cheaper", () => {
+		const swamp = makeMap([
+			".....", //
+			"..~..",
+			".....",
+		]);
+		const path = swamp.findPath(0, 1, 4, 1);
+		expect(path?.some((p) => p.x === 2 && p.y === 1)).toBe(false);
+		expect(path).toHaveLength(7);
+
+		const custom = swamp.findPath(0, 1, 4, 1, { cost: (ref) => (ref === "mud" ? 1 : 2) });
+		expect(custom?.some((p) => p.x === 2 && p.y === 1)).toBe(true);
+	});
+});
+
+describe("flow fields", () => {
+	const map = makeMap([
+		"......", //
+		".####.",
+		"......",
+		"###...",
+		"..#...",
+	]);
+
+	it("gives each cell its travel cost and a downhill step to the goal", () => {
+		const field = map.flowField(0, 0);
+		expect(field.getDistance(0, 0)).toBe(0);
+		expect(field.getDistance(0, 2)).toBe(2);
+		expect(field.getDistance(5, 4)).toBe(9);
+		expect(field.getDistance(1, 1)).toBe(-1);
+		expect(field.getDistance(0, 4)).toBe(-1);
+		expect(field.getDirection(0, 2)).toEqual({ x: 0, y: -1 });
+		expect(field.getDirection(0, 0)).toEqual({ x: 0, y: 0 });
+
+		const path = field.pathFrom(5, 4);
+		expect(path).toHaveLength(10);
+		expect(path?.[path.length - 1]).toEqual({ x: 0, y: 0 });
+		expectConnected(path ?? [], false);
+		expect(field.pathFrom(0, 4)).toBeNull();
+	});
+
+	it("matches the A* path length from every open cell", () => {
+		const field = map.flowField(5, 4);
+		for (let y = 0; y < map.height; y++) {
+			for (let x = 0; x < map.width; x++) {
+				if (map.get(x, y) === "wall") continue;
+				const path = map.findPath(x, y, 5, 4);
+				expect(field.getDistance(x, y)).toBe(path ? path.length - 1 : -1);
+			}
+		}
+	});
+
+	it("leads every cell to its nearest goal and stops at maxDistance", () => {
+		const field = map.dijkstraMap([
+			{ x: 0, y: 0 },
+			{ x: 5, y: 4 },
+		]);
+		expect(field.pathFrom(1, 0)?.pop()).toEqual({ x: 0, y: 0 });
+		expect(field.pathFrom(4, 3)?.pop()).toEqual({ x: 5, y: 4 });
+
+		const near = map.flowField(0, 0, { maxDistance: 3 });
+		expect(near.getDistance(3, 0)).toBe(3);
+		expect(near.getDistance(4, 0)).toBe(-1);
+	});
+});
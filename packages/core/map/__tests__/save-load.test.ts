@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { SaveMap, TileMap } from "../src/core/tile-map";
+
+const load = (data: string): TileMap => {
+	const map = new TileMap(1, 1, 1, 1);
+	map.load(data, {});
+	return map;
+};
+
+describe("SaveMap and load", () => {
+	it("writes a plain single-layer map in the version 1 format", () => {
+		const map = new TileMap(3, 2, 16, 16);
+		map.set(0, 0, "grass");
+		map.set(2, 1, "wall");
+		map.set(1, 1, "grass");
+
+		const saved = JSON.parse(SaveMap(map));
+		expect(saved.version).toBeUndefined();
+		expect(saved).toEqual({
+			width: 3,
+			height: 2,
+			block_width: 16,
+			block_height: 16,
+			sprites: [0, "grass", "wall"],
+			data: [1, 0, 0, 0, 1, 2],
+		});
+
+		const loaded = load(JSON.stringify(saved));
+		expect(loaded.layers.map((l) => l.name)).toEqual(["main"]);
+		expect(loaded.get(0, 0)).toBe("grass");
+		expect(loaded.get(2, 1)).toBe("wall");
+		expect(loaded.get(1, 0)).toBe(0);
+	});
+
+	it("round-trips layers, tile properties, animations and objects through version 2", () => {
+		const map = new TileMap(2, 2, 8, 8);
+		map.set(0, 0, "grass");
+		map.addLayer("decor", { opacity: 0.5, parallax_x: 0.25, visible: false });
+		map.set(1, 1, "flower", "decor");
+		map.setTileProperties("grass", { solid: false });
+		map.setTileAnimation("water", [
+			{ ref: "water:0,0", duration: 100 },
+			{ ref: "water:1,0", duration: 100 },
+		]);
+		map.addObjectLayer("spawns").objects.push({
+			id: 1,
+			name: "start",
+			type: "spawn",
+			x: 4,
+			y: 4,
+			width: 0,
+			height: 0,
+			rotation: 0,
+			visible: true,
+			shape: "point",
+			properties: {},
+		});
+		map.properties.music = "theme";
+
+		const saved = JSON.parse(SaveMap(map));
+		expect(saved.version).toBe(2);
+		expect(saved.data).toBeUndefined();
+
+		const loaded = load(JSON.stringify(saved));
+		expect(loaded.layers.map((l) => l.name)).toEqual(["main", "decor"]);
+		expect(loaded.get(0, 0)).toBe("grass");
+		expect(loaded.get(1, 1, "decor")).toBe("flower");
+		expect(loaded.getLayer("decor")).toMatchObject({ opacity: 0.5, parallax_x: 0.25, parallax_y: 1, visible: false });
+		expect(loaded.getTileProperties("grass")).toEqual({ solid: false });
+		expect(loaded.getTileAnimation("water")).toHaveLength(2);
+		expect(loaded.getObject("start")).toMatchObject({ type: "spawn", x: 4, y: 4 });
+		expect(loaded.properties).toEqual({ music: "theme" });
+	});
+
+	it("loads a version 1 file as the main layer of a layered map", () => {
+		const v1 = JSON.stringify({
+			width: 2,
+			height: 1,
+			block_width: 16,
+			block_height: 16,
+			sprites: [0, "rock"],
+			data: [0, 1],
+		});
+		const map = load(v1);
+		map.addLayer("top");
+		map.set(0, 0, "bird", "top");
+
+		expect(map.getLayer(0)?.name).toBe("main");
+		expect(map.get(1, 0, "main")).toBe("rock");
+		const saved = JSON.parse(SaveMap(map));
+		expect(saved.version).toBe(2);
+		expect(saved.layers.map((l: { name: string }) => l.name)).toEqual(["main", "top"]);
+	});
+
+	it("rejects versions it does not know", () => {
+		expect(() => load(JSON.stringify({ version: 3, width: 1, height: 1 }))).toThrow(/Unsupported map version: 3/);
+	});
+});
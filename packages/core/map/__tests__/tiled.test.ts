@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { ParseTiledMap } from "../src/tiled/importer";
+import type { TiledMap } from "../src/tiled/types";
+
+const H = 0x80000000;
+const V = 0x40000000;
+const D = 0x20000000;
+
+/** A 3x2 map of 16 px tiles using one 4-column "terrain.png" tileset */
+const makeTiled = (overrides: Partial<TiledMap> = {}): TiledMap => ({
+	width: 3,
+	height: 2,
+	tilewidth: 16,
+	tileheight: 16,
+	orientation: "orthogonal",
+	tilesets: [{ firstgid: 1, name: "terrain", image: "../art/terrain.png", columns: 4, tilewidth: 16, tileheight: 16 }],
+	layers: [{ type: "tilelayer", name: "ground", width: 3, height: 2, data: [1, 2, 0, 0, 0, 6] }],
+	...overrides,
+});
+
+describe("ParseTiledMap", () => {
+	it("turns gids into sheet refs, flipping rows so Tiled's top row is the map's top", () => {
+		const map = ParseTiledMap(makeTiled());
+		expect(map.layers.map((l) => l.name)).toEqual(["ground"]);
+		expect(map.get(0, 1)).toBe("terrain:0,0");
+		expect(map.get(1, 1)).toBe("terrain:1,0");
+		expect(map.get(2, 0)).toBe("terrain:1,1");
+		expect(map.get(2, 1)).toBe(0);
+	});
+
+	it("maps the flip bits of a gid onto the ref's ~hvd suffix", () => {
+		const data = [(1 | H) >>> 0, (1 | V) >>> 0, (1 | D) >>> 0, (1 | H | V | D) >>> 0, 1, 0];
+		const map = ParseTiledMap(makeTiled({ layers: [{ type: "tilelayer", name: "ground", data }] }));
+		expect(map.get(0, 1)).toBe("terrain:0,0~h");
+		expect(map.get(1, 1)).toBe("terrain:0,0~v");
+		expect(map.get(2, 1)).toBe("terrain:0,0~d");
+		expect(map.get(0, 0)).toBe("terrain:0,0~hvd");
+		expect(map.get(1, 0)).toBe("terrain:0,0");
+	});
+
+	it("keeps object layers with their shapes, properties and tile objects", () => {
+		const map = ParseTiledMap(
+			makeTiled({
+				layers: [
+					{
+						type: "group",
+						name: "things",
+						visible: false,
+						layers: [
+							{
+								type: "objectgroup",
+								name: "spawns",
+								properties: [{ name: "wave", value: 1 }],
+								objects: [
+									{ id: 1, name: "start", type: "spawn", x: 8, y: 16, point: true },
+									{ id: 2, name: "crate", x: 0, y: 32, width: 16, height: 16, gid: (3 | H | D) >>> 0 },
+									{
+										id: 3,
+										class: "path",
+										x: 0,
+										y: 0,
+										polyline: [
+											{ x: 0, y: 0 },
+											{ x: 16, y: 8 },
+										],
+									},
+									{ id: 4, x: 4, y: 4, width: 8, height: 8, properties: [{ name: "hp", value: 3 }] },
+								],
+							},
+						],
+					},
+				],
+			}),
+		);
+
+		const layer = map.getObjectLayer("spawns");
+		expect(layer).toMatchObject({ visible: false, properties: { wave: 1 } });
+		expect(map.getObject("start")).toMatchObject({ shape: "point", type: "spawn", x: 8, y: 16 });
+		// Tile objects keep horizontal and vertical flips but not the diagonal one
+		expect(map.getObject("crate")).toMatchObject({ shape: "tile", tile: "terrain:2,0~h" });
+		expect(map.getObjects("spawns")[2]).toMatchObject({
+			shape: "polyline",
+			type: "path",
+			points: [
+				{ x: 0, y: 0 },
+				{ x: 16, y: 8 },
+			],
+		});
+		expect(map.getObjects()[3]).toMatchObject({ shape: "rectangle", properties: { hp: 3 } });
+	});
+
+	it("attaches tileset tile properties, types and animations to the tile refs", () => {
+		const map = ParseTiledMap(
+			makeTiled({
+				properties: [{ name: "music", value: "cave" }],
+				tilesets: [
+					{
+						firstgid: 1,
+						name: "terrain",
+						image: "terrain.png",
+						columns: 4,
+						tiles: [
+							{ id: 1, class: "wall", properties: [{ name: "solid", value: true }] },
+							{
+								id: 4,
+								animation: [
+									{ tileid: 4, duration: 100 },
+									{ tileid: 5, duration: 150 },
+								],
+							},
+						],
+					},
+				],
+			}),
+		);
+
+		expect(map.getProperty(1, 1, "solid")).toBe(true);
+		expect(map.getTileProperties("terrain:1,0")).toEqual({ solid: true, type: "wall" });
+		expect(map.getTileAnimation("terrain:0,1")).toEqual([
+			{ ref: "terrain:0,1", duration: 100 },
+			{ ref: "terrain:1,1", duration: 150 },
+		]);
+		expect(map.properties).toEqual({ music: "cave" });
+	});
+
+	it("rejects tilesets and orientations it cannot import", () => {
+		const tileset = (extra: object) => makeTiled({ tilesets: [{ firstgid: 1, image: "t.png", columns: 4, ...extra }] });
+		expect(() => ParseTiledMap(tileset({ spacing: 1 }))).toThrow(/margin or spacing/);
+		expect(() => ParseTiledMap(tileset({ tilewidth: 8 }))).toThrow(/8x16 tiles but the map grid is 16x16/);
+		expect(() => ParseTiledMap(makeTiled({ orientation: "isometric" }))).toThrow(/Unsupported Tiled orientation/);
+	});
+});
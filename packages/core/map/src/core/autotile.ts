@@ -0,0 +1,185 @@
+/**
+ * Autotiling - picks the edge and corner variant of a terrain tile from its
+ * neighbours.
+ *
+ * Neighbour bits: N = 1, NE = 2, E = 4, SE = 8, S = 16, SW = 32, W = 64, NW = 128,
+ * where north is y + 1 (the row drawn above, since TileMap row 0 is the bottom).
+ */
+
+import { normalizeRefForStorage, stripTileFlip } from "../shared/references";
+import type { TileLayer } from "./tile-layer";
+
+export type AutotileMode = "blob47" | "wang16";
+
+export interface AutotileRule {
+	/**
+	 * blob47: 8 neighbours, corners only count between two connected edges (47 variants).
+	 * wang16: the 4 edge neighbours only, variant index N = 1 | E = 2 | S = 4 | W = 8 (16 variants).
+	 */
+	mode: AutotileMode;
+	/** Sprite sheet holding the variants in canonical order, left to right then top to bottom */
+	sprite?: string;
+	/** Columns of that sheet; defaults to 8 for blob47 and 4 for wang16 */
+	columns?: number;
+	/** Explicit variant refs in canonical order, instead of a sheet */
+	tiles?: string[];
+	/** Other terrains that count as connected neighbours */
+	connects?: string[];
+	/** Whether cells beyond the map edge count as connected; defaults to true */
+	border?: boolean;
+}
+
+const N = 1;
+const NE = 2;
+const E = 4;
+const SE = 8;
+const S = 16;
+const SW = 32;
+const W = 64;
+const NW = 128;
+
+/** Drops corner bits whose two neighbouring edges are not both connected */
+const reduceBlobMask = (mask: number): number => {
+	let out = mask & (N | E | S | W);
+	if (mask & NE && mask & N && mask & E) out |= NE;
+	if (mask & SE && mask & S && mask & E) out |= SE;
+	if (mask & SW && mask & S && mask & W) out |= SW;
+	if (mask & NW && mask & N && mask & W) out |= NW;
+	return out;
+};
+
+/**
+ * The 47 distinct blob masks in ascending order: a blob47 variant's canonical
+ * index is the position of its mask in this list.
+ */
+export const BLOB47_MASKS: readonly number[] = Array.from(
+	new Set(Array.from({ length: 256 }, (_, m) => reduceBlobMask(m))),
+).sort((a, b) => a - b);
+
+// Any 8-bit neighbour mask -> blob47 variant index
+const BLOB47_INDEX: number[] = Array.from({ length: 256 }, (_, m) => BLOB47_MASKS.indexOf(reduceBlobMask(m)));
+
+interface CompiledRule {
+	terrain: string;
+	mode: AutotileMode;
+	variants: string[];
+	connects: Set<string>;
+	border: boolean;
+}
+
+/** Autotile rules of one map, and the terrain each variant ref belongs to */
+export class Autotiler {
+	private rules: Map<string, CompiledRule> = new Map();
+	private variantTerrain: Map<string, string> = new Map();
+	private readonly definitions: Map<string, AutotileRule> = new Map();
+
+	define(terrain: string, rule: AutotileRule): void {
+		if (rule.mode !== "blob47" && rule.mode !== "wang16") {
+			throw new Error(`Unknown autotile mode "${rule.mode}" for "${terrain}"; use "blob47" or "wang16"`);
+		}
+		const name = normalizeRefForStorage(terrain);
+		const count = rule.mode === "blob47" ? 47 : 16;
+		let variants: string[];
+		if (rule.tiles) {
+			if (rule.tiles.length < count) {
+				throw new Error(`Autotile "${terrain}" needs ${count} tiles for ${rule.mode}, got ${rule.tiles.length}`);
+			}
+			variants = rule.tiles.slice(0, count).map((t) => normalizeRefForStorage(t));
+		} else if (rule.sprite) {
+			const sprite = normalizeRefForStorage(rule.sprite);
+			const columns = rule.columns ?? (rule.mode === "blob47" ? 8 : 4);
+			variants = Array.from({ length: count }, (_, i) => `${sprite}:${i % columns},${Math.floor(i / columns)}`);
+		} else {
+			throw new Error(`Autotile "${terrain}" needs a sprite sheet or a list of tiles`);
+		}
+
+		this.remove(terrain);
+		this.definitions.set(name, rule);
+		this.rules.set(name, {
+			terrain: name,
+			mode: rule.mode,
+			variants,
+			connects: new Set([name, ...(rule.connects ?? []).map((t) => normalizeRefForStorage(t))]),
+			border: rule.border ?? true,
+		});
+		for (const variant of variants) {
+			this.variantTerrain.set(variant, name);
+		}
+	}
+
+	remove(terrain: string): void {
+		const name = normalizeRefForStorage(terrain);
+		const rule = this.rules.get(name);
+		if (!rule) return;
+		this.rules.delete(name);
+		this.definitions.delete(name);
+		for (const variant of rule.variants) {
+			if (this.variantTerrain.get(variant) === name) this.variantTerrain.delete(variant);
+		}
+	}
+
+	copyFrom(other: Autotiler): void {
+		this.rules.clear();
+		this.definitions.clear();
+		this.variantTerrain.clear();
+		for (const [terrain, rule] of other.definitions) {
+			this.define(terrain, rule);
+		}
+	}
+
+	/** Terrain of a stored cell: the terrain name itself or one of its variants */
+	terrainOf(cell: string | null | undefined): string | null {
+		if (!cell) return null;
+		if (this.rules.has(cell)) return cell;
+		return this.variantTerrain.get(stripTileFlip(cell)) ?? null;
+	}
+
+	/** Re-picks the variant of every terrain cell in the inclusive rectangle */
+	refresh(layer: TileLayer, x0: number, y0: number, x1: number, y1: number): void {
+		if (this.rules.size === 0) return;
+		const xa = Math.max(0, x0);
+		const ya = Math.max(0, y0);
+		const xb = Math.min(layer.width - 1, x1);
+		const yb = Math.min(layer.height - 1, y1);
+		for (let y = ya; y <= yb; y++) {
+			for (let x = xa; x <= xb; x++) {
+				const cell = layer.cells[x + y * layer.width];
+				const terrain = this.terrainOf(cell);
+				const rule = terrain ? this.rules.get(terrain) : undefined;
+				if (!rule) continue;
+				const variant = this.variantAt(layer, x, y, rule);
+				if (variant !== cell) layer.set(x, y, variant);
+			}
+		}
+	}
+
+	private variantAt(layer: TileLayer, x: number, y: number, rule: CompiledRule): string {
+		const connected = (dx: number, dy: number): boolean => {
+			const nx = x + dx;
+			const ny = y + dy;
+			if (nx < 0 || ny < 0 || nx >= layer.width || ny >= layer.height) return rule.border;
+			const terrain = this.terrainOf(layer.cells[nx + ny * layer.width]);
+			return terrain != null && rule.connects.has(terrain);
+		};
+
+		if (rule.mode === "wang16") {
+			let mask = 0;
+			if (connected(0, 1)) mask |= 1;
+			if (connected(1, 0)) mask |= 2;
+			if (connected(0, -1)) mask |= 4;
+			if (connected(-1, 0)) mask |= 8;
+			return rule.variants[mask];
+		}
+
+		let mask = 0;
+		if (connected(0, 1)) mask |= N;
+		if (connected(1, 1)) mask |= NE;
+		if (connected(1, 0)) mask |= E;
+		if (connected(1, -1)) mask |= SE;
+		if (connected(0, -1)) mask |= S;
+		if (connected(-1, -1)) mask |= SW;
+		if (connected(-1, 0)) mask |= W;
+		if (connected(-1, 1)) mask |= NW;
+		return rule.variants[BLOB47_INDEX[mask]];
+	}
+}
@@ -0,0 +1,255 @@
+/**
+ * Field of view and tile lighting - recursive shadowcasting over a TileMap
+ * layer, and a light grid that TileMap.draw uses to darken or hide tiles.
+ */
+
+import type { PathPoint } from "./pathfinding";
+import type { LayerRef, TileMap } from "./tile-map";
+
+export interface FovOptions {
+	/** Layer whose tiles block sight; defaults to the bottom layer */
+	layer?: LayerRef;
+	/**
+	 * Whether a cell blocks sight, given its tile ref (null when empty). By
+	 * default empty cells are clear and tiles block unless their properties say
+	 * `opaque: false` (or, without `opaque`, `solid: false`).
+	 */
+	opaque?: (ref: string | null, x: number, y: number) => unknown;
+}
+
+type OpaqueFn = (x: number, y: number) => boolean;
+
+// Octant transforms: [xx, xy, yx, yy] for each of the 8 octants
+const OCTANTS = [
+	[1, 0, 0, 1],
+	[0, 1, 1, 0],
+	[0, -1, 1, 0],
+	[-1, 0, 0, 1],
+	[-1, 0, 0, -1],
+	[0, -1, -1, 0],
+	[0, 1, -1, 0],
+	[1, 0, 0, -1],
+];
+
+const opacityRule = (map: TileMap, options: FovOptions): OpaqueFn => {
+	const layer = map.getLayer(options.layer ?? 0);
+	return (x, y) => {
+		const cell = layer ? layer.get(x, y) : 0;
+		const ref = typeof cell === "string" ? cell : null;
+		if (options.opaque) return !!options.opaque(ref, x, y);
+		if (ref === null) return false;
+		const properties = map.getTileProperties(ref);
+		if (properties?.opaque !== undefined) return !!properties.opaque;
+		return properties?.solid !== false;
+	};
+};
+
+/**
+ * Calls `visit(x, y, distance)` for every cell within `radius` of the origin
+ * that has a clear line of sight to it. Blocking cells are visited too (walls
+ * are seen), cells beyond the map edge are not.
+ */
+export function castFov(
+	width: number,
+	height: number,
+	ox: number,
+	oy: number,
+	radius: number,
+	opaque: OpaqueFn,
+	visit: (x: number, y: number, distance: number) => void,
+): void {
+	if (ox < 0 || oy < 0 || ox >= width || oy >= height) return;
+	visit(ox, oy, 0);
+	const r2 = radius * radius;
+	// Neighbouring octants share their edge cells; each cell is visited once
+	const reach = Math.floor(radius);
+	const span = reach * 2 + 1;
+	const seen = new Uint8Array(span * span);
+	seen[(span * span - 1) / 2] = 1;
+	const blocks = (x: number, y: number) => x < 0 || y < 0 || x >= width || y >= height || opaque(x, y);
+
+	const cast = (row: number, start: number, end: number, xx: number, xy: number, yx: number, yy: number) => {
+		if (start < end) return;
+		let nextStart = start;
+		for (let j = row; j <= radius; j++) {
+			let blocked = false;
+			const dy = -j;
+			for (let dx = -j; dx <= 0; dx++) {
+				const x = ox + dx * xx + dy * xy;
+				const y = oy + dx * yx + dy * yy;
+				const leftSlope = (dx - 0.5) / (dy + 0.5);
+				const rightSlope = (dx + 0.5) / (dy - 0.5);
+				if (start < rightSlope) continue;
+				if (end > leftSlope) break;
+
+				const d2 = dx * dx + dy * dy;
+				if (d2 <= r2 && x >= 0 && y >= 0 && x < width && y < height) {
+					const key = x - ox + reach + (y - oy + reach) * span;
+					if (!seen[key]) {
+						seen[key] = 1;
+						visit(x, y, Math.sqrt(d2));
+					}
+				}
+
+				if (blocked) {
+					if (blocks(x, y)) {
+						nextStart = rightSlope;
+					} else {
+						blocked = false;
+						start = nextStart;
+					}
+				} else if (blocks(x, y) && j < radius) {
+					blocked = true;
+					cast(j + 1, start, leftSlope, xx, xy, yx, yy);
+					nextStart = rightSlope;
+				}
+			}
+			if (blocked) break;
+		}
+	};
+
+	for (const [xx, xy, yx, yy] of OCTANTS) {
+		cast(1, 1, 0, xx, xy, yx, yy);
+	}
+}
+
+/** Cells seen from one point */
+export class FieldOfView {
+	readonly width: number;
+	readonly height: number;
+	private readonly visible: Uint8Array;
+	private cells: PathPoint[] | null = null;
+
+	constructor(width: number, height: number, visible: Uint8Array) {
+		this.width = width;
+		this.height = height;
+		this.visible = visible;
+	}
+
+	isVisible(x: number, y: number): boolean {
+		x = Math.floor(x);
+		y = Math.floor(y);
+		if (x < 0 || y < 0 || x >= this.width || y >= this.height) return false;
+		return this.visible[x + y * this.width] === 1;
+	}
+
+	/** Every visible cell as {x, y} */
+	getCells(): PathPoint[] {
+		if (!this.cells) {
+			this.cells = [];
+			for (let idx = 0; idx < this.visible.length; idx++) {
+				if (this.visible[idx]) this.cells.push({ x: idx % this.width, y: Math.floor(idx / this.width) });
+			}
+		}
+		return this.cells;
+	}
+}
+
+export function computeFov(map: TileMap, x: number, y: number, radius: number, options: FovOptions = {}): FieldOfView {
+	const visible = new Uint8Array(map.width * map.height);
+	const opaque = opacityRule(map, options);
+	castFov(map.width, map.height, Math.floor(x), Math.floor(y), radius, opaque, (cx, cy) => {
+		visible[cx + cy * map.width] = 1;
+	});
+	return new FieldOfView(map.width, map.height, visible);
+}
+
+/**
+ * Brightness of every cell, rebuilt by the game each time lights move:
+ * `clear()`, then `addLight(...)` per light and `reveal(...)` per viewer.
+ * Once `reveal` has been used, cells nobody can see are hidden, or dimmed to
+ * `explored_brightness` if they were seen before.
+ */
+export class LightGrid {
+	public width: number;
+	public height: number;
+	/** Brightness of unlit cells, 0 to 1 */
+	public ambient: number;
+	/** Brightness of remembered cells that are out of sight */
+	public explored_brightness = 0.35;
+	/** Colour painted over cells in proportion to their darkness */
+	public shadow_color = "#000";
+	/** Whether cells outside the revealed area are hidden; turned on by reveal() */
+	public fog = false;
+	private readonly map: TileMap;
+	private light: Float32Array;
+	private visible: Uint8Array;
+	private explored: Uint8Array;
+
+	constructor(map: TileMap, ambient = 0) {
+		this.map = map;
+		this.ambient = ambient;
+		this.width = map.width;
+		this.height = map.height;
+		this.light = new Float32Array(this.width * this.height).fill(ambient);
+		this.visible = new Uint8Array(this.width * this.height);
+		this.explored = new Uint8Array(this.width * this.height);
+	}
+
+	/** Drops all lights and visibility (remembered cells stay explored) */
+	clear(): void {
+		if (this.width !== this.map.width || this.height !== this.map.height) {
+			this.width = this.map.width;
+			this.height = this.map.height;
+			this.light = new Float32Array(this.width * this.height);
+			this.visible = new Uint8Array(this.width * this.height);
+			this.explored = new Uint8Array(this.width * this.height);
+		}
+		this.light.fill(this.ambient);
+		this.visible.fill(0);
+	}
+
+	/** Adds a light at (x, y) that fades linearly to nothing at `radius` and is stopped by opaque tiles */
+	addLight(x: number, y: number, radius: number, intensity = 1, options: FovOptions = {}): void {
+		const reach = radius + 1;
+		const opaque = opacityRule(this.map, options);
+		castFov(this.width, this.height, Math.floor(x), Math.floor(y), radius, opaque, (cx, cy, d) => {
+			this.light[cx + cy * this.width] += intensity * (1 - d / reach);
+		});
+	}
+
+	/** Marks what a viewer at (x, y) sees within `radius` as visible and explored */
+	reveal(x: number, y: number, radius: number, options: FovOptions = {}): FieldOfView {
+		this.fog = true;
+		const seen = new Uint8Array(this.width * this.height);
+		const opaque = opacityRule(this.map, options);
+		castFov(this.width, this.height, Math.floor(x), Math.floor(y), radius, opaque, (cx, cy) => {
+			const idx = cx + cy * this.width;
+			seen[idx] = 1;
+			this.visible[idx] = 1;
+			this.explored[idx] = 1;
+		});
+		return new FieldOfView(this.width, this.height, seen);
+	}
+
+	/** Forgets every explored cell */
+	resetExplored(): void {
+		this.explored.fill(0);
+	}
+
+	isVisible(x: number, y: number): boolean {
+		const idx = this.index(x, y);
+		return idx >= 0 && (!this.fog || this.visible[idx] === 1);
+	}
+
+	isExplored(x: number, y: number): boolean {
+		const idx = this.index(x, y);
+		return idx >= 0 && this.explored[idx] === 1;
+	}
+
+	/** Final brightness of a cell, 0 (hidden) to 1 (fully lit) */
+	getBrightness(x: number, y: number): number {
+		const idx = this.index(x, y);
+		if (idx < 0) return 0;
+		const lit = Math.min(1, this.light[idx]);
+		if (!this.fog || this.visible[idx]) return lit;
+		return this.explored[idx] ? Math.min(lit, this.explored_brightness) : 0;
+	}
+
+	private index(x: number, y: number): number {
+		x = Math.floor(x);
+		y = Math.floor(y);
+		if (x < 0 || y < 0 || x >= this.width || y >= this.height) return -1;
+		return x + y * this.width;
+	}
+}
@@ -0,0 +1,355 @@
+/**
+ * Grid pathfinding - A* paths and Dijkstra flow fields over a TileMap layer.
+ */
+
+import type { LayerRef, TileMap } from "./tile-map";
+
+/** "no-cut" allows diagonal steps only when both cells beside the step are walkable */
+export type DiagonalMode = "never" | "always" | "no-cut";
+
+export interface PathOptions {
+	/** Layer whose tiles decide walkability; defaults to the bottom layer */
+	layer?: LayerRef;
+	/** true means "no-cut"; defaults to "never" */
+	diagonal?: boolean | DiagonalMode;
+	/**
+	 * Cost of entering a cell, given its tile ref (null when empty). Return 0,
+	 * a negative number or nothing to block the cell. Costs below 1 can make
+	 * A* return paths that are not the cheapest.
+	 */
+	cost?: (ref: string | null, x: number, y: number) => number | null | undefined;
+	/** Tile property read as the entry cost by the default rule; defaults to "cost" */
+	costProperty?: string;
+	/** A* gives up after expanding this many cells; defaults to the cell count of the map */
+	maxNodes?: number;
+}
+
+export interface FlowFieldOptions extends PathOptions {
+	/** Cells farther than this (in cost) from every goal are left unreachable */
+	maxDistance?: number;
+}
+
+export interface PathPoint {
+	x: number;
+	y: number;
+}
+
+type CostFn = (x: number, y: number) => number;
+
+const SQRT2 = Math.SQRT2;
+// Neighbour offsets: the 4 edges first, then the diagonals
+const DX = [0, 1, 0, -1, 1, 1, -1, -1];
+const DY = [1, 0, -1, 0, 1, -1, -1, 1];
+
+const diagonalMode = (value: PathOptions["diagonal"]): DiagonalMode => {
+	if (value === true) return "no-cut";
+	if (!value) return "never";
+	return value;
+};
+
+/**
+ * Entry cost of every cell, cached per call. Without a cost function, empty
+ * cells cost 1 and tiles block unless their properties say `solid: false` or
+ * give a numeric cost.
+ */
+const cellCosts = (map: TileMap, options: PathOptions): CostFn => {
+	const layer = map.getLayer(options.layer ?? 0);
+	const width = map.width;
+	const cache = new Float64Array(width * map.height).fill(Number.NaN);
+	const property = options.costProperty ?? "cost";
+
+	return (x, y) => {
+		const idx = x + y * width;
+		const cached = cache[idx];
+		if (!Number.isNaN(cached)) return cached;
+
+		const cell = layer ? layer.get(x, y) : 0;
+		const ref = typeof cell === "string" ? cell : null;
+		let cost: number;
+		if (options.cost) {
+			const value = Number(options.cost(ref, x, y));
+			cost = value > 0 ? value : Number.POSITIVE_INFINITY;
+		} else if (ref === null) {
+			cost = 1;
+		} else {
+			const properties = map.getTileProperties(ref);
+			const value = Number(properties?.[property]);
+			if (value > 0) cost = value;
+			else cost = properties?.solid === false ? 1 : Number.POSITIVE_INFINITY;
+		}
+		cache[idx] = cost;
+		return cost;
+	};
+};
+
+/** Binary min-heap of cell indices keyed by priority */
+class IndexHeap {
+	private items: number[] = [];
+	private keys: number[] = [];
+
+	get size(): number {
+		return this.items.length;
+	}
+
+	push(item: number, key: number): void {
+		const items = this.items;
+		const keys = this.keys;
+		let i = items.length;
+		items.push(item);
+		keys.push(key);
+		while (i > 0) {
+			const parent = (i - 1) >> 1;
+			if (keys[parent] <= key) break;
+			items[i] = items[parent];
+			keys[i] = keys[parent];
+			i = parent;
+		}
+		items[i] = item;
+		keys[i] = key;
+	}
+
+	/** Removes and returns the item with the lowest key; call it only while size > 0 */
+	pop(): number {
+		const items = this.items;
+		const keys = this.keys;
+		const top = items[0];
+		const lastItem = items.pop() as number;
+		const lastKey = keys.pop() as number;
+		const n = items.length;
+		if (n > 0) {
+			let i = 0;
+			while (true) {
+				let child = i * 2 + 1;
+				if (child >= n) break;
+				if (child + 1 < n && keys[child + 1] < keys[child]) child++;
+				if (keys[child] >= lastKey) break;
+				items[i] = items[child];
+				keys[i] = keys[child];
+				i = child;
+			}
+			items[i] = lastItem;
+			keys[i] = lastKey;
+		}
+		return top;
+	}
+}
+
+/** Whether the step from (x, y) by neighbour `k` is allowed under the diagonal mode */
+const canStep = (
+	x: number,
+	y: number,
+	k: number,
+	mode: DiagonalMode,
+	width: number,
+	height: number,
+	cost: CostFn,
+): boolean => {
+	const nx = x + DX[k];
+	const ny = y + DY[k];
+	if (nx < 0 || ny < 0 || nx >= width || ny >= height) return false;
+	if (k < 4) return true;
+	if (mode === "never") return false;
+	if (mode === "no-cut") {
+		return cost(x + DX[k], y) !== Number.POSITIVE_INFINITY && cost(x, y + DY[k]) !== Number.POSITIVE_INFINITY;
+	}
+	return true;
+};
+
+/**
+ * A* from (x1, y1) to (x2, y2). Returns the cells from start to goal
+ * inclusive, or null when the goal is blocked, out of the map or unreachable.
+ */
+export function findPath(
+	map: TileMap,
+	x1: number,
+	y1: number,
+	x2: number,
+	y2: number,
+	options: PathOptions = {},
+): PathPoint[] | null {
+	const width = map.width;
+	const height = map.height;
+	const sx = Math.floor(x1);
+	const sy = Math.floor(y1);
+	const gx = Math.floor(x2);
+	const gy = Math.floor(y2);
+	if (sx < 0 || sy < 0 || sx >= width || sy >= height) return null;
+	if (gx < 0 || gy < 0 || gx >= width || gy >= height) return null;
+
+	const cost = cellCosts(map, options);
+	if (cost(gx, gy) === Number.POSITIVE_INFINITY) return null;
+
+	const mode = diagonalMode(options.diagonal);
+	const neighbours = mode === "never" ? 4 : 8;
+	const heuristic =
+		mode === "never"
+			? (x: number, y: number) => Math.abs(x - gx) + Math.abs(y - gy)
+			: (x: number, y: number) => {
+					// Octile distance
+					const dx = Math.abs(x - gx);
+					const dy = Math.abs(y - gy);
+					return Math.max(dx, dy) + (SQRT2 - 1) * Math.min(dx, dy);
+				};
+
+	const size = width * height;
+	const g = new Float64Array(size).fill(Number.POSITIVE_INFINITY);
+	const from = new Int32Array(size).fill(-1);
+	const closed = new Uint8Array(size);
+	const open = new IndexHeap();
+	const start = sx + sy * width;
+	const goal = gx + gy * width;
+	const maxNodes = options.maxNodes ?? size;
+	g[start] = 0;
+	open.push(start, heuristic(sx, sy));
+
+	let expanded = 0;
+	while (open.size > 0) {
+		const current = open.pop();
+		if (current === goal) break;
+		if (closed[current]) continue;
+		closed[current] = 1;
+		if (++expanded > maxNodes) return null;
+
+		const cx = current % width;
+		const cy = (current - cx) / width;
+		for (let k = 0; k < neighbours; k++) {
+			if (!canStep(cx, cy, k, mode, width, height, cost)) continue;
+			const nx = cx + DX[k];
+			const ny = cy + DY[k];
+			const next = nx + ny * width;
+			if (closed[next]) continue;
+			const step = cost(nx, ny);
+			if (step === Number.POSITIVE_INFINITY) continue;
+			const tentative = g[current] + (k < 4 ? step : step * SQRT2);
+			if (tentative < g[next]) {
+				g[next] = tentative;
+				from[next] = current;
+				open.push(next, tentative + heuristic(nx, ny));
+			}
+		}
+	}
+
+	if (g[goal] === Number.POSITIVE_INFINITY) return null;
+	const path: PathPoint[] = [];
+	for (let idx = goal; idx !== -1; idx = from[idx]) {
+		const x = idx % width;
+		path.push({ x, y: (idx - x) / width });
+	}
+	return path.reverse();
+}
+
+/**
+ * Travel cost from every cell to the nearest goal (a Dijkstra map), and the
+ * downhill step towards it: one computation serves any number of agents.
+ */
+export class FlowField {
+	readonly width: number;
+	readonly height: number;
+	private readonly distances: Float64Array;
+	private readonly mode: DiagonalMode;
+	private readonly cost: CostFn;
+
+	constructor(width: number, height: number, distances: Float64Array, mode: DiagonalMode, cost: CostFn) {
+		this.width = width;
+		this.height = height;
+		this.distances = distances;
+		this.mode = mode;
+		this.cost = cost;
+	}
+
+	/** Cost to reach the nearest goal from (x, y), or -1 when no goal can be reached */
+	getDistance(x: number, y: number): number {
+		x = Math.floor(x);
+		y = Math.floor(y);
+		if (x < 0 || y < 0 || x >= this.width || y >= this.height) return -1;
+		const d = this.distances[x + y * this.width];
+		return d === Number.POSITIVE_INFINITY ? -1 : d;
+	}
+
+	/** The neighbouring cell one step closer to a goal, or null at a goal or when unreachable */
+	next(x: number, y: number): PathPoint | null {
+		x = Math.floor(x);
+		y = Math.floor(y);
+		const here = this.getDistance(x, y);
+		if (here <= 0) return null;
+		const neighbours = this.mode === "never" ? 4 : 8;
+		let best: PathPoint | null = null;
+		let bestDistance = here;
+		for (let k = 0; k < neighbours; k++) {
+			if (!canStep(x, y, k, this.mode, this.width, this.height, this.cost)) continue;
+			const d = this.distances[x + DX[k] + (y + DY[k]) * this.width];
+			if (d < bestDistance) {
+				bestDistance = d;
+				best = { x: x + DX[k], y: y + DY[k] };
+			}
+		}
+		return best;
+	}
+
+	/** Unit step {x, y} (each -1, 0 or 1) towards a goal; zero at a goal or when unreachable */
+	getDirection(x: number, y: number): PathPoint {
+		const step = this.next(x, y);
+		if (!step) return { x: 0, y: 0 };
+		return { x: step.x - Math.floor(x), y: step.y - Math.floor(y) };
+	}
+
+	/** The cells from (x, y) down to the nearest goal inclusive, or null when unreachable */
+	pathFrom(x: number, y: number): PathPoint[] | null {
+		x = Math.floor(x);
+		y = Math.floor(y);
+		if (this.getDistance(x, y) < 0) return null;
+		const path: PathPoint[] = [{ x, y }];
+		let step = this.next(x, y);
+		while (step) {
+			path.push(step);
+			step = this.next(step.x, step.y);
+		}
+		return path;
+	}
+}
+
+/** Dijkstra outwards from every goal at once */
+export function buildFlowField(map: TileMap, goals: PathPoint[], options: FlowFieldOptions = {}): FlowField {
+	const width = map.width;
+	const height = map.height;
+	const cost = cellCosts(map, options);
+	const mode = diagonalMode(options.diagonal);
+	const neighbours = mode === "never" ? 4 : 8;
+	const maxDistance = options.maxDistance ?? Number.POSITIVE_INFINITY;
+	const distances = new Float64Array(width * height).fill(Number.POSITIVE_INFINITY);
+	const open = new IndexHeap();
+
+	for (const goal of goals) {
+		const x = Math.floor(goal.x);
+		const y = Math.floor(goal.y);
+		if (x < 0 || y < 0 || x >= width || y >= height) continue;
+		if (cost(x, y) === Number.POSITIVE_INFINITY) continue;
+		distances[x + y * width] = 0;
+		open.push(x + y * width, 0);
+	}
+
+	const done = new Uint8Array(width * height);
+	while (open.size > 0) {
+		const current = open.pop();
+		if (done[current]) continue;
+		done[current] = 1;
+		const cx = current % width;
+		const cy = (current - cx) / width;
+		// Walking from a neighbour into this cell costs this cell's entry cost
+		const enter = cost(cx, cy);
+		for (let k = 0; k < neighbours; k++) {
+			if (!canStep(cx, cy, k, mode, width, height, cost)) continue;
+			const nx = cx + DX[k];
+			const ny = cy + DY[k];
+			const next = nx + ny * width;
+			if (done[next] || cost(nx, ny) === Number.POSITIVE_INFINITY) continue;
+			const d = distances[current] + (k < 4 ? enter : enter * SQRT2);
+			if (d < distances[next] && d <= maxDistance) {
+				distances[next] = d;
+				open.push(next, d);
+			}
+		}
+	}
+
+	return new FlowField(width, height, distances, mode, cost);
+}
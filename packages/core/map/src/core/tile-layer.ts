@@ -0,0 +1,134 @@
+/**
+ * TileLayer - One grid of tiles inside a TileMap.
+ */
+
+import type { ParsedTile, TileProperties } from "../data/types";
+import { ChunkGrid } from "../drawing/chunks";
+import { normalizeRefForStorage, normalizeRefForUsage, parseTileRef } from "../shared/references";
+
+/** What a layer reads from the map that owns it */
+export interface TileLayerOwner {
+	width: number;
+	height: number;
+	block_width: number;
+	block_height: number;
+	chunk_size: number;
+	/** Bumped whenever a tile changes, so cached whole-map images know to redraw */
+	revision: number;
+	getTileProperties(ref: string): TileProperties | null;
+}
+
+export interface TileLayerOptions {
+	visible?: boolean;
+	/** How fast the layer follows the map's scroll: 1 moves with it, 0 stays fixed */
+	parallax_x?: number;
+	parallax_y?: number;
+	opacity?: number;
+}
+
+export class TileLayer {
+	public name: string;
+	public visible = true;
+	public parallax_x = 1;
+	public parallax_y = 1;
+	public opacity = 1;
+	private readonly owner: TileLayerOwner;
+	public cells: (string | null)[] = [];
+	/** @internal */
+	parsed: (ParsedTile | null)[] = [];
+	/** @internal */
+	readonly chunks = new ChunkGrid();
+
+	constructor(owner: TileLayerOwner, name: string, options: TileLayerOptions = {}) {
+		this.owner = owner;
+		this.name = name;
+		this.visible = options.visible ?? true;
+		this.parallax_x = options.parallax_x ?? 1;
+		this.parallax_y = options.parallax_y ?? 1;
+		this.opacity = options.opacity ?? 1;
+		this.clear();
+	}
+
+	get width(): number {
+		return this.owner.width;
+	}
+
+	get height(): number {
+		return this.owner.height;
+	}
+
+	get block_width(): number {
+		return this.owner.block_width;
+	}
+
+	get block_height(): number {
+		return this.owner.block_height;
+	}
+
+	clear(): void {
+		const size = this.owner.width * this.owner.height;
+		this.cells.length = size;
+		this.parsed.length = size;
+		for (let idx = 0; idx < size; idx++) {
+			this.cells[idx] = null;
+			this.parsed[idx] = null;
+		}
+		this.chunks.resize(this.owner.width, this.owner.height, this.owner.chunk_size);
+		this.chunks.markAll();
+		this.owner.revision++;
+	}
+
+	set(x: number, y: number, ref: string | null): void {
+		// Out-of-bounds writes are ignored, like TileMap.set
+		if (x < 0 || y < 0 || x >= this.width || y >= this.height || !Number.isFinite(x) || !Number.isFinite(y)) {
+			return;
+		}
+
+		let normalized = ref;
+		if (typeof normalized === "string") {
+			normalized = normalizeRefForStorage(normalized);
+		}
+		const idx = x + y * this.width;
+		this.cells[idx] = normalized;
+		this.parsed[idx] = normalized ? parseTileRef(normalized) : null;
+		// Only the chunk holding this tile is redrawn; chunk rows run top-down like the drawn map
+		this.chunks.markTile(x, this.height - 1 - y);
+		this.owner.revision++;
+	}
+
+	get(x: number, y: number): string | number | null {
+		if (x < 0 || y < 0 || x >= this.width || y >= this.height || !Number.isFinite(x) || !Number.isFinite(y)) {
+			return 0;
+		}
+		let cell = this.cells[x + y * this.width];
+		if (typeof cell === "string") {
+			cell = normalizeRefForUsage(cell);
+		}
+		return cell || 0;
+	}
+
+	getTileProperties(ref: string): TileProperties | null {
+		return this.owner.getTileProperties(ref);
+	}
+
+	/** Property `key` of the tile at (x, y), or undefined for empty cells and tiles without it */
+	getProperty(x: number, y: number, key: string): unknown {
+		const ref = this.get(x, y);
+		if (typeof ref !== "string") return undefined;
+		return this.owner.getTileProperties(ref)?.[key];
+	}
+
+	/** @internal Copies cells from another layer of the same size */
+	copyCells(source: TileLayer): void {
+		const size = this.owner.width * this.owner.height;
+		this.cells.length = size;
+		this.parsed.length = size;
+		for (let idx = 0; idx < size; idx++) {
+			this.cells[idx] = source.cells[idx] ?? null;
+			this.parsed[idx] = source.parsed[idx] ?? null;
+		}
+		this.chunks.resize(this.owner.width, this.owner.height, this.owner.chunk_size);
+		this.chunks.markAll();
+		this.owner.revision++;
+	}
+}
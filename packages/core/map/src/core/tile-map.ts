@@ -3,31 +3,38 @@
  */
 
 import type { Sprite } from "@al8b/sprites";
-import type { MapData, ParsedTile, SpriteDictionary } from "../data/types";
+import type {
+	AnimatedTile,
+	AnyMapData,
+	LayeredMapData,
+	MapData,
+	MapObject,
+	MapObjectLayer,
+	ParsedTile,
+	SpriteDictionary,
+	TileAnimationFrame,
+	TileProperties,
+} from "../data/types";
+import { CHUNK_SIZE, type TileChunk, visibleArea } from "../drawing/chunks";
 import { drawTile, ensureCanvas, queueAnimatedTile, type RenderState, renderAnimatedTiles } from "../drawing/renderer";
-import { normalizeRefForStorage, normalizeRefForUsage } from "../shared/references";
+import { normalizeRefForStorage, normalizeRefForUsage, parseTileRef, stripTileFlip } from "../shared/references";
+import { type AutotileRule, Autotiler } from "./autotile";
+import { computeFov, type FieldOfView, type FovOptions, LightGrid } from "./lighting";
+import {
+	buildFlowField,
+	type FlowField,
+	type FlowFieldOptions,
+	findPath,
+	type PathOptions,
+	type PathPoint,
+} from "./pathfinding";
+import { TileLayer, type TileLayerOptions } from "./tile-layer";
 
-/**
- * Parse a tile reference string into a cached ParsedTile object.
- * Input format: "spriteName" or "spriteName:subX,subY"
- */
-function parseTileRef(entry: string): ParsedTile {
-	const colonIdx = entry.indexOf(":");
-	if (colonIdx === -1) {
-		return { spriteName: entry };
-	}
-	const spriteName = entry.substring(0, colonIdx);
-	const coords = entry.substring(colonIdx + 1);
-	const commaIdx = coords.indexOf(",");
-	if (commaIdx === -1) {
-		return { spriteName, subX: Number.parseInt(coords, 10) };
-	}
-	return {
-		spriteName,
-		subX: Number.parseInt(coords.substring(0, commaIdx), 10),
-		subY: Number.parseInt(coords.substring(commaIdx + 1), 10),
-	};
-}
+/** Name of the layer every map starts with, and the one used when no layer is given */
+export const DEFAULT_LAYER = "main";
+
+/** A layer given by name or by index, bottom layer first */
+export type LayerRef = string | number;
 
 export class TileMap {
 	public width: number;
@@ -35,11 +42,29 @@ export class TileMap {
 	public block_width: number;
 	public block_height: number;
 	public sprites: SpriteDictionary;
-	public map: (string | null)[] = [];
+	/** Layers from bottom to top; there is always at least one */
+	public layers: TileLayer[] = [];
 	public ready = true;
 	public needs_update = false;
 	public name = "";
-	private parsedMap: (ParsedTile | null)[] = [];
+	/** Scroll offset used by parallax layers, in map pixels (y up, like the screen) */
+	public scroll_x = 0;
+	public scroll_y = 0;
+	/** Properties of the map itself */
+	public properties: TileProperties = {};
+	/** Object layers (spawn points, zones, paths), bottom first */
+	public object_layers: MapObjectLayer[] = [];
+	private tileProperties: Record<string, TileProperties> = {};
+	private tileAnimations: Record<string, TileAnimationFrame[]> = {};
+	private readonly autotiles = new Autotiler();
+	/** Light and visibility drawn over the tiles, see enableLighting() */
+	public lighting: LightGrid | null = null;
+	/** Chunk edge in tiles; change it with setChunkSize() */
+	public chunk_size = CHUNK_SIZE;
+	/** Bumped on every tile change; see TileLayerOwner */
+	public revision = 0;
+	private compositeRevision = -1;
+	// Whole-map image, only built by getCanvas()
 	private readonly renderState: RenderState = {
 		canvas: null,
 		buffer: null,
@@ -63,83 +88,489 @@ export class TileMap {
 		this.block_width = block_width;
 		this.block_height = block_height;
 		this.sprites = sprites ?? {};
-		this.clear();
+		this.layers = [new TileLayer(this, DEFAULT_LAYER)];
 	}
 
-	clear(): void {
-		for (let j = 0; j < this.height; j++) {
-			for (let i = 0; i < this.width; i++) {
-				const idx = i + j * this.width;
-				this.map[idx] = null;
-				this.parsedMap[idx] = null;
-			}
+	/** Cells of the bottom layer, kept for code written before maps had layers */
+	get map(): (string | null)[] {
+		return this.layers[0].cells;
+	}
+
+	set map(cells: (string | null)[]) {
+		const layer = this.layers[0];
+		for (let idx = 0; idx < this.width * this.height; idx++) {
+			const cell = cells[idx] ?? null;
+			layer.cells[idx] = cell;
+			layer.parsed[idx] = cell ? parseTileRef(cell) : null;
 		}
+		this.needs_update = true;
 	}
 
-	set(x: number, y: number, ref: string | null): void {
-		// Validate tile coordinates are within map bounds
-		if (x < 0 || y < 0 || x >= this.width || y >= this.height || !isFinite(x) || !isFinite(y)) {
-			// Silent fail: TileMap lacks runtime reference for error reporting
-			// Out-of-bounds access is ignored to prevent crashes during development
+	clear(layer?: LayerRef): void {
+		if (layer != null) {
+			this.getLayer(layer)?.clear();
 			return;
 		}
+		for (const l of this.layers) {
+			l.clear();
+		}
+	}
+
+	/**
+	 * Sets one tile. Setting an autotiled terrain name (or any tile next to
+	 * one) picks the matching edge variants for the tile and its neighbours.
+	 */
+	set(x: number, y: number, ref: string | null, layer?: LayerRef): void {
+		// Silent fail: TileMap lacks runtime reference for error reporting
+		// Out-of-bounds access and unknown layers are ignored to prevent crashes during development
+		const target = this.getLayer(layer ?? 0);
+		if (!target) return;
+		target.set(x, y, ref);
+		this.autotiles.refresh(target, x - 1, y - 1, x + 1, y + 1);
+	}
+
+	/** Sets every tile of the w by h rectangle at (x, y), then autotiles it and its border once */
+	fill(x: number, y: number, w: number, h: number, ref: string | null, layer?: LayerRef): void {
+		const target = this.getLayer(layer ?? 0);
+		if (!target) return;
+		const x0 = Math.max(0, Math.floor(x));
+		const y0 = Math.max(0, Math.floor(y));
+		const x1 = Math.min(this.width, Math.floor(x + w)) - 1;
+		const y1 = Math.min(this.height, Math.floor(y + h)) - 1;
+		for (let j = y0; j <= y1; j++) {
+			for (let i = x0; i <= x1; i++) {
+				target.set(i, j, ref);
+			}
+		}
+		this.autotiles.refresh(target, x0 - 1, y0 - 1, x1 + 1, y1 + 1);
+	}
+
+	/**
+	 * Declares an autotiled terrain: afterwards `set(x, y, terrain)` and `fill`
+	 * place the blob47 or wang16 variant matching each tile's neighbours.
+	 */
+	defineAutotile(terrain: string, rule: AutotileRule): void {
+		this.autotiles.define(terrain, rule);
+	}
+
+	removeAutotile(terrain: string): void {
+		this.autotiles.remove(terrain);
+	}
+
+	/** Re-picks every autotiled variant of a layer (all layers by default), e.g. after loading a map */
+	applyAutotiles(layer?: LayerRef): void {
+		const targets = layer != null ? [this.getLayer(layer)] : this.layers;
+		for (const target of targets) {
+			if (target) this.autotiles.refresh(target, 0, 0, this.width - 1, this.height - 1);
+		}
+	}
+
+	/** Autotiled terrain at (x, y), or null when the tile is not part of one */
+	getTerrain(x: number, y: number, layer?: LayerRef): string | null {
+		const target = this.getLayer(layer ?? 0);
+		if (!target || x < 0 || y < 0 || x >= this.width || y >= this.height) return null;
+		const terrain = this.autotiles.terrainOf(target.cells[x + y * this.width]);
+		return terrain ? normalizeRefForUsage(terrain) : null;
+	}
+
+	get(x: number, y: number, layer?: LayerRef): string | number | null {
+		// Returns 0 for out-of-bounds access and unknown layers to maintain backward compatibility
+		return this.getLayer(layer ?? 0)?.get(x, y) ?? 0;
+	}
+
+	getLayer(layer: LayerRef): TileLayer | null {
+		if (typeof layer === "number") {
+			return this.layers[layer] ?? null;
+		}
+		return this.layers.find((l) => l.name === layer) ?? null;
+	}
+
+	/** Adds a layer on top of the others, or returns the existing layer with that name */
+	addLayer(name: string, options?: TileLayerOptions): TileLayer {
+		const existing = this.getLayer(name);
+		if (existing) return existing;
+		const layer = new TileLayer(this, name, options);
+		this.layers.push(layer);
+		return layer;
+	}
+
+	/** Removes a layer; the last remaining layer cannot be removed */
+	removeLayer(layer: LayerRef): boolean {
+		const target = this.getLayer(layer);
+		if (!target || this.layers.length <= 1) return false;
+		this.layers.splice(this.layers.indexOf(target), 1);
+		this.needs_update = true;
+		return true;
+	}
+
+	setLayerVisible(layer: LayerRef, visible: boolean): void {
+		const target = this.getLayer(layer);
+		if (!target) return;
+		target.visible = !!visible;
+		this.revision++;
+	}
+
+	setLayerOpacity(layer: LayerRef, opacity: number): void {
+		const target = this.getLayer(layer);
+		if (!target) return;
+		target.opacity = Math.max(0, Math.min(1, opacity));
+		this.revision++;
+	}
+
+	setLayerParallax(layer: LayerRef, parallax_x: number, parallax_y: number = parallax_x): void {
+		const target = this.getLayer(layer);
+		if (!target) return;
+		target.parallax_x = parallax_x;
+		target.parallax_y = parallax_y;
+	}
+
+	/** Sets the scroll offset that parallax layers lag behind, typically the camera position */
+	setScroll(x: number, y: number): void {
+		this.scroll_x = x;
+		this.scroll_y = y;
+	}
+
+	/**
+	 * Attaches properties to a tile ref, merged into any it already has. A
+	 * bare sprite name applies to every tile of that sprite ("wall" covers
+	 * "wall:0,1"); a full ref overrides it for that one tile.
+	 */
+	setTileProperties(ref: string, properties: TileProperties): void {
+		const key = normalizeRefForStorage(stripTileFlip(ref));
+		this.tileProperties[key] = { ...this.tileProperties[key], ...properties };
+	}
+
+	getTileProperties(ref: string): TileProperties | null {
+		const key = normalizeRefForStorage(stripTileFlip(ref));
+		const own = this.tileProperties[key];
+		const colonIdx = key.indexOf(":");
+		const shared = colonIdx === -1 ? undefined : this.tileProperties[key.substring(0, colonIdx)];
+		if (own && shared) return { ...shared, ...own };
+		return own ?? shared ?? null;
+	}
+
+	/**
+	 * Property `key` of the tile at (x, y). Without a layer, searches from the
+	 * top layer down and returns the first tile that defines it.
+	 */
+	getProperty(x: number, y: number, key: string, layer?: LayerRef): unknown {
+		if (layer != null) {
+			return this.getLayer(layer)?.getProperty(x, y, key);
+		}
+		for (let k = this.layers.length - 1; k >= 0; k--) {
+			const value = this.layers[k].getProperty(x, y, key);
+			if (value !== undefined) return value;
+		}
+		return undefined;
+	}
 
-		let normalized = ref;
-		if (typeof normalized === "string") {
-			normalized = normalizeRefForStorage(normalized);
+	/**
+	 * Animates a tile by cycling through other tiles, each shown for its
+	 * duration in milliseconds. Pass an empty list to stop animating it.
+	 */
+	setTileAnimation(ref: string, frames: TileAnimationFrame[]): void {
+		const key = normalizeRefForStorage(stripTileFlip(ref));
+		if (!frames || frames.length === 0) {
+			delete this.tileAnimations[key];
+		} else {
+			this.tileAnimations[key] = frames.map((f) => ({
+				ref: normalizeRefForStorage(f.ref),
+				duration: Math.max(1, f.duration),
+			}));
 		}
-		const idx = x + y * this.width;
-		this.map[idx] = normalized;
-		this.parsedMap[idx] = normalized ? parseTileRef(normalized) : null;
 		this.needs_update = true;
 	}
 
-	get(x: number, y: number): string | number | null {
-		// Validate tile coordinates are within map bounds
-		if (x < 0 || y < 0 || x >= this.width || y >= this.height || !isFinite(x) || !isFinite(y)) {
-			// Silent fail: TileMap lacks runtime reference for error reporting
-			// Returns 0 for out-of-bounds access to maintain backward compatibility
-			return 0;
+	getTileAnimation(ref: string): TileAnimationFrame[] | null {
+		return this.tileAnimations[normalizeRefForStorage(stripTileFlip(ref))] ?? null;
+	}
+
+	/** Every tile ref that has an animation, keyed in storage form */
+	getAllTileAnimations(): Record<string, TileAnimationFrame[]> {
+		return this.tileAnimations;
+	}
+
+	getObjectLayer(name: string): MapObjectLayer | null {
+		return this.object_layers.find((l) => l.name === name) ?? null;
+	}
+
+	/** Adds an empty object layer, or returns the existing one with that name */
+	addObjectLayer(name: string, properties: TileProperties = {}): MapObjectLayer {
+		const existing = this.getObjectLayer(name);
+		if (existing) return existing;
+		const layer: MapObjectLayer = { name, visible: true, objects: [], properties };
+		this.object_layers.push(layer);
+		return layer;
+	}
+
+	/** Objects of one object layer, or of all of them when no name is given */
+	getObjects(layer?: string): MapObject[] {
+		if (layer != null) {
+			return this.getObjectLayer(layer)?.objects ?? [];
+		}
+		const all: MapObject[] = [];
+		for (const l of this.object_layers) {
+			all.push(...l.objects);
 		}
-		let cell = this.map[x + y * this.width];
-		if (typeof cell === "string") {
-			cell = normalizeRefForUsage(cell);
+		return all;
+	}
+
+	/** First object with the given name, searching every object layer */
+	getObject(name: string): MapObject | null {
+		for (const l of this.object_layers) {
+			const found = l.objects.find((o) => o.name === name);
+			if (found) return found;
 		}
-		return cell || 0;
+		return null;
+	}
+
+	/**
+	 * Shortest path between two cells as a list of {x, y}, start and goal
+	 * included, or null when there is none. Empty cells are walkable; tiles
+	 * block unless their properties say `solid: false` or give a `cost`.
+	 */
+	findPath(x1: number, y1: number, x2: number, y2: number, options?: PathOptions): PathPoint[] | null {
+		return findPath(this, x1, y1, x2, y2, options);
+	}
+
+	/** Flow field towards (x, y): each cell knows its distance and its next step to the goal */
+	flowField(x: number, y: number, options?: FlowFieldOptions): FlowField {
+		return buildFlowField(this, [{ x, y }], options);
+	}
+
+	/** Flow field towards the nearest of several goals (a Dijkstra map) */
+	dijkstraMap(goals: PathPoint[], options?: FlowFieldOptions): FlowField {
+		return buildFlowField(this, goals, options);
+	}
+
+	/**
+	 * Cells visible from (x, y) within `radius`, by recursive shadowcasting.
+	 * Empty cells let sight through; tiles block it unless their properties say
+	 * `opaque: false` (or, without `opaque`, `solid: false`).
+	 */
+	computeFov(x: number, y: number, radius: number, options?: FovOptions): FieldOfView {
+		return computeFov(this, x, y, radius, options);
+	}
+
+	/**
+	 * Starts darkening tiles by a light grid, returned for the game to fill
+	 * with lights and viewers each frame. Calling it again keeps the grid and
+	 * only changes the ambient level.
+	 */
+	enableLighting(ambient = 0): LightGrid {
+		if (!this.lighting) this.lighting = new LightGrid(this, ambient);
+		this.lighting.ambient = ambient;
+		return this.lighting;
 	}
 
+	disableLighting(): void {
+		this.lighting = null;
+	}
+
+	/**
+	 * The whole map as one canvas, for uses that need a single image (such as
+	 * textured triangles). Sized width*block_width by height*block_height, so
+	 * prefer draw() for large maps; the image is cached until a tile changes.
+	 */
 	getCanvas(): HTMLCanvasElement {
-		if (this.renderState.canvas == null || this.needs_update) {
+		if (this.needs_update) {
 			this.update();
 		}
-		return this.renderState.canvas!;
+		let canvas = this.renderState.canvas;
+		if (canvas == null || this.compositeRevision !== this.revision) {
+			this.compositeRevision = this.revision;
+			const context = ensureCanvas(this.renderState, this.width, this.height, this.block_width, this.block_height);
+			for (const layer of this.layers) {
+				if (!layer.visible) continue;
+				context.globalAlpha = layer.opacity;
+				const grid = layer.chunks;
+				for (let cy = 0; cy < grid.rows; cy++) {
+					for (let cx = 0; cx < grid.cols; cx++) {
+						const chunk = this.prepareChunk(layer, cx, cy);
+						if (chunk.empty || !chunk.canvas) continue;
+						context.drawImage(chunk.canvas, cx * grid.size * this.block_width, cy * grid.size * this.block_height);
+					}
+				}
+			}
+			context.globalAlpha = 1;
+			canvas = context.canvas;
+		}
+		return canvas;
 	}
 
+	/**
+	 * Draws the map into the rectangle (x, y, w, h). Only chunks that fall
+	 * inside the area the context can show (after screen scaling and any active
+	 * camera transform) are drawn, and only chunks whose tiles changed since
+	 * they were last drawn get rebuilt.
+	 */
 	draw(context: CanvasRenderingContext2D, x: number, y: number, w: number, h: number): void {
-		if (this.renderState.animated.length > 0) {
-			const buffer = renderAnimatedTiles(this.renderState, this.block_width, this.block_height);
-			context.drawImage(buffer, x, y, w, h);
-		} else {
-			context.drawImage(this.getCanvas(), x, y, w, h);
+		if (this.needs_update) {
+			this.update();
 		}
+		const scaleX = w / (this.width * this.block_width);
+		const scaleY = h / (this.height * this.block_height);
+		const view = visibleArea(context);
+		const alpha = context.globalAlpha;
+
+		for (const layer of this.layers) {
+			if (!layer.visible || layer.opacity <= 0) continue;
+			// A layer with parallax below 1 lags behind the scroll, so it appears further away
+			const ox = x + this.scroll_x * (1 - layer.parallax_x) * scaleX;
+			const oy = y - this.scroll_y * (1 - layer.parallax_y) * scaleY;
+			const grid = layer.chunks;
+			const chunkW = grid.size * this.block_width * scaleX;
+			const chunkH = grid.size * this.block_height * scaleY;
+
+			let cx0 = 0;
+			let cy0 = 0;
+			let cx1 = grid.cols - 1;
+			let cy1 = grid.rows - 1;
+			if (view && chunkW !== 0 && chunkH !== 0) {
+				const ax = (view.left - ox) / chunkW;
+				const bx = (view.right - ox) / chunkW;
+				const ay = (view.top - oy) / chunkH;
+				const by = (view.bottom - oy) / chunkH;
+				cx0 = Math.max(cx0, Math.floor(Math.min(ax, bx)));
+				cx1 = Math.min(cx1, Math.floor(Math.max(ax, bx)));
+				cy0 = Math.max(cy0, Math.floor(Math.min(ay, by)));
+				cy1 = Math.min(cy1, Math.floor(Math.max(ay, by)));
+			}
+
+			context.globalAlpha = alpha * layer.opacity;
+			for (let cy = cy0; cy <= cy1; cy++) {
+				for (let cx = cx0; cx <= cx1; cx++) {
+					const chunk = this.prepareChunk(layer, cx, cy);
+					if (chunk.empty) continue;
+					const image =
+						chunk.animated.length > 0 ? renderAnimatedTiles(chunk, this.block_width, this.block_height) : chunk.canvas;
+					if (!image) continue;
+					context.drawImage(image, ox + cx * chunkW, oy + cy * chunkH, image.width * scaleX, image.height * scaleY);
+				}
+			}
+		}
+		if (this.lighting) {
+			this.drawLighting(context, this.lighting, x, y, scaleX, scaleY, view);
+		}
+		context.globalAlpha = alpha;
 	}
 
+	/** Covers the visible cells with the shadow colour, more opaque the darker the cell */
+	private drawLighting(
+		context: CanvasRenderingContext2D,
+		lighting: LightGrid,
+		x: number,
+		y: number,
+		scaleX: number,
+		scaleY: number,
+		view: ReturnType<typeof visibleArea>,
+	): void {
+		const cellW = this.block_width * scaleX;
+		const cellH = this.block_height * scaleY;
+		let i0 = 0;
+		let j0 = 0;
+		let i1 = this.width - 1;
+		let j1 = this.height - 1;
+		if (view && cellW !== 0 && cellH !== 0) {
+			const ax = (view.left - x) / cellW;
+			const bx = (view.right - x) / cellW;
+			const ay = (view.top - y) / cellH;
+			const by = (view.bottom - y) / cellH;
+			i0 = Math.max(i0, Math.floor(Math.min(ax, bx)));
+			i1 = Math.min(i1, Math.floor(Math.max(ax, bx)));
+			j0 = Math.max(j0, Math.floor(Math.min(ay, by)));
+			j1 = Math.min(j1, Math.floor(Math.max(ay, by)));
+		}
+
+		const alpha = context.globalAlpha;
+		context.fillStyle = lighting.shadow_color;
+		for (let j = j0; j <= j1; j++) {
+			// Canvas rows count from the top, map rows from the bottom
+			const row = this.height - 1 - j;
+			for (let i = i0; i <= i1; i++) {
+				const darkness = 1 - lighting.getBrightness(i, row);
+				if (darkness <= 0) continue;
+				context.globalAlpha = alpha * darkness;
+				context.fillRect(x + i * cellW, y + j * cellH, cellW, cellH);
+			}
+		}
+		context.globalAlpha = alpha;
+	}
+
+	/** Marks every chunk of every layer for a rebuild; chunks are redrawn as they come into view */
 	update(): void {
 		this.needs_update = false;
-		const context = ensureCanvas(this.renderState, this.width, this.height, this.block_width, this.block_height);
+		this.revision++;
+		for (const layer of this.layers) {
+			layer.chunks.resize(this.width, this.height, this.chunk_size);
+			layer.chunks.markAll();
+		}
+	}
 
-		for (let j = 0; j < this.height; j++) {
-			for (let i = 0; i < this.width; i++) {
-				const index = i + (this.height - 1 - j) * this.width;
-				const parsed = this.parsedMap[index];
-				if (!parsed) continue;
+	/** Changes the chunk edge (in tiles); smaller chunks rebuild faster, larger ones draw with fewer calls */
+	setChunkSize(size: number): void {
+		this.chunk_size = Math.max(1, Math.floor(size));
+		this.needs_update = true;
+	}
+
+	/** The chunk at (cx, cy), rebuilt first if its tiles changed */
+	private prepareChunk(layer: TileLayer, cx: number, cy: number): TileChunk {
+		const chunk = layer.chunks.chunkAt(cx, cy);
+		if (chunk.dirty) {
+			this.renderChunk(layer, chunk);
+		}
+		return chunk;
+	}
+
+	private renderChunk(layer: TileLayer, chunk: TileChunk): void {
+		chunk.dirty = false;
+		const size = layer.chunks.size;
+		const i0 = chunk.cx * size;
+		const j0 = chunk.cy * size;
+		const cols = Math.min(size, this.width - i0);
+		const rows = Math.min(size, this.height - j0);
+
+		// Chunk rows count from the top of the drawn map, tile rows from the bottom
+		const cellIndex = (i: number, j: number) => i0 + i + (this.height - 1 - (j0 + j)) * this.width;
+
+		let empty = true;
+		for (let j = 0; j < rows && empty; j++) {
+			for (let i = 0; i < cols; i++) {
+				if (layer.parsed[cellIndex(i, j)]) {
+					empty = false;
+					break;
+				}
+			}
+		}
+		chunk.empty = empty;
+		if (empty) {
+			// Release the canvases of chunks that were cleared
+			chunk.canvas = null;
+			chunk.buffer = null;
+			chunk.animated = [];
+			return;
+		}
+
+		const context = ensureCanvas(chunk, cols, rows, this.block_width, this.block_height);
+		for (let j = 0; j < rows; j++) {
+			for (let i = 0; i < cols; i++) {
+				const index = cellIndex(i, j);
+				const parsed = layer.parsed[index];
+				const cell = layer.cells[index];
+				if (!parsed || !cell) continue;
+
+				const animation = this.tileAnimations[stripTileFlip(cell)];
+				if (animation) {
+					this.queueTileAnimation(chunk, animation, i, j, parsed);
+					continue;
+				}
 
 				const sprite =
 					this.sprites[parsed.spriteName] || this.sprites[normalizeRefForUsage(parsed.spriteName)];
 				if (!sprite || !sprite.frames[0]) continue;
 
 				if (sprite.frames.length > 1) {
-					queueAnimatedTile(this.renderState, sprite, this.block_width, this.block_height, i, j, parsed);
+					queueAnimatedTile(chunk, sprite, this.block_width, this.block_height, i, j, parsed);
 				} else {
 					drawTile(context, sprite, this.block_width, this.block_height, i, j, parsed);
 				}
@@ -147,6 +578,33 @@ export class TileMap {
 		}
 	}
 
+	private queueTileAnimation(
+		state: RenderState,
+		animation: TileAnimationFrame[],
+		gridX: number,
+		gridY: number,
+		parsed: ParsedTile,
+	): void {
+		const frames: NonNullable<AnimatedTile["frames"]> = [];
+		let duration = 0;
+		for (const f of animation) {
+			const frame = parseTileRef(f.ref);
+			const sprite = this.sprites[frame.spriteName] || this.sprites[normalizeRefForUsage(frame.spriteName)];
+			if (!sprite || !sprite.frames[0]) continue;
+			frames.push({
+				sprite,
+				tx: frame.subX != null ? frame.subX * this.block_width : undefined,
+				ty: frame.subX != null ? (frame.subY ?? 0) * this.block_height : undefined,
+				duration: f.duration,
+			});
+			duration += f.duration;
+		}
+		if (frames.length === 0) return;
+		const tile = queueAnimatedTile(state, frames[0].sprite, this.block_width, this.block_height, gridX, gridY, parsed);
+		tile.frames = frames;
+		tile.duration = duration;
+	}
+
 	loadFile(url: string, loaded?: () => void): void {
 		const req = new XMLHttpRequest();
 		req.onreadystatechange = () => {
@@ -160,40 +618,68 @@ export class TileMap {
 		req.send();
 	}
 
+	/** Loads a map file: version 1 (single grid) or version 2 (layers and tile properties) */
 	load(data: string, sprites: Record<string, Sprite>): void {
-		const parsed: MapData = JSON.parse(data);
+		const parsed: AnyMapData = JSON.parse(data);
+		if (parsed.version != null && parsed.version !== 1 && parsed.version !== 2) {
+			throw new Error(`Unsupported map version: ${parsed.version}`);
+		}
 		this.width = parsed.width;
 		this.height = parsed.height;
 		this.block_width = parsed.block_width;
 		this.block_height = parsed.block_height;
 		this.sprites = sprites ?? this.sprites;
+		this.tileProperties = {};
+		this.tileAnimations = {};
+		this.properties = {};
+		this.object_layers = [];
 
-		for (let j = 0; j < parsed.height; j++) {
-			for (let i = 0; i < parsed.width; i++) {
-				const idx = i + j * parsed.width;
-				const value = parsed.data[idx];
-				if (value > 0) {
-					const ref = parsed.sprites[value] as string;
-					this.map[idx] = ref;
-					this.parsedMap[idx] = parseTileRef(ref);
-				} else {
-					this.map[idx] = null;
-					this.parsedMap[idx] = null;
-				}
+		if (parsed.version === 2) {
+			this.layers = [];
+			for (const entry of parsed.layers) {
+				const layer = this.addLayer(entry.name, entry);
+				this.fillLayer(layer, entry.data, parsed.sprites);
+			}
+			if (this.layers.length === 0) {
+				this.layers.push(new TileLayer(this, DEFAULT_LAYER));
+			}
+			const properties = parsed.properties ?? {};
+			for (const ref in properties) {
+				this.setTileProperties(ref, properties[ref]);
+			}
+			const animations = parsed.animations ?? {};
+			for (const ref in animations) {
+				this.setTileAnimation(ref, animations[ref]);
 			}
+			this.object_layers = parsed.object_layers ?? [];
+			this.properties = parsed.map_properties ?? {};
+		} else {
+			this.layers = [new TileLayer(this, DEFAULT_LAYER)];
+			this.fillLayer(this.layers[0], parsed.data, parsed.sprites);
 		}
 		this.needs_update = true;
 	}
 
-	clone(): TileMap {
-		const duplicate = new TileMap(this.width, this.height, this.block_width, this.block_height, this.sprites);
+	private fillLayer(layer: TileLayer, data: number[], sprites: Array<string | number>): void {
 		for (let j = 0; j < this.height; j++) {
 			for (let i = 0; i < this.width; i++) {
 				const idx = i + j * this.width;
-				duplicate.map[idx] = this.map[idx];
-				duplicate.parsedMap[idx] = this.parsedMap[idx];
+				const value = data[idx];
+				if (value > 0) {
+					const ref = sprites[value] as string;
+					layer.cells[idx] = ref;
+					layer.parsed[idx] = parseTileRef(ref);
+				} else {
+					layer.cells[idx] = null;
+					layer.parsed[idx] = null;
+				}
 			}
 		}
+	}
+
+	clone(): TileMap {
+		const duplicate = new TileMap(this.width, this.height, this.block_width, this.block_height, this.sprites);
+		duplicate.copyLayersFrom(this);
 		duplicate.needs_update = true;
 		return duplicate;
 	}
@@ -203,16 +689,36 @@ export class TileMap {
 		this.height = map.height;
 		this.block_width = map.block_width;
 		this.block_height = map.block_height;
-		for (let j = 0; j < this.height; j++) {
-			for (let i = 0; i < this.width; i++) {
-				const idx = i + j * this.width;
-				this.map[idx] = map.map[idx];
-				this.parsedMap[idx] = map.parsedMap[idx];
-			}
-		}
+		this.copyLayersFrom(map);
 		this.update();
 		return this;
 	}
+
+	private copyLayersFrom(map: TileMap): void {
+		this.layers = map.layers.map((source) => {
+			const layer = new TileLayer(this, source.name, source);
+			layer.copyCells(source);
+			return layer;
+		});
+		this.tileProperties = {};
+		for (const ref in map.tileProperties) {
+			this.tileProperties[ref] = { ...map.tileProperties[ref] };
+		}
+		this.tileAnimations = {};
+		for (const ref in map.tileAnimations) {
+			this.tileAnimations[ref] = map.tileAnimations[ref].map((f) => ({ ...f }));
+		}
+		this.properties = { ...map.properties };
+		this.autotiles.copyFrom(map.autotiles);
+		this.object_layers = JSON.parse(JSON.stringify(map.object_layers));
+		this.scroll_x = map.scroll_x;
+		this.scroll_y = map.scroll_y;
+	}
+
+	/** Every tile ref that has properties, keyed in storage form */
+	getAllTileProperties(): Record<string, TileProperties> {
+		return this.tileProperties;
+	}
 }
 
 export function LoadMap(url: string, sprites?: Record<string, Sprite>, loaded?: () => void): TileMap {
@@ -240,14 +746,39 @@ export function UpdateMap(map: TileMap, data: string, sprites?: Record<string, S
 	return map;
 }
 
+/**
+ * Whether a version 1 file holds everything in the map: a single default
+ * "main" layer and no properties, animations or object layers
+ */
+function fitsVersion1(map: TileMap): boolean {
+	if (map.layers.length !== 1) return false;
+	const layer = map.layers[0];
+	return (
+		layer.name === DEFAULT_LAYER &&
+		layer.visible &&
+		layer.parallax_x === 1 &&
+		layer.parallax_y === 1 &&
+		layer.opacity === 1 &&
+		Object.keys(map.getAllTileProperties()).length === 0 &&
+		Object.keys(map.getAllTileAnimations()).length === 0 &&
+		map.object_layers.length === 0 &&
+		Object.keys(map.properties).length === 0
+	);
+}
+
+/**
+ * Serializes a map. Maps a version 1 file can hold are written in that format,
+ * so tools that read the old top-level `data` keep working; anything else is
+ * a version 2 file whose layers share one sprite list.
+ */
 export function SaveMap(map: TileMap): string {
 	let index = 1;
 	const list: Array<string | number> = [0];
 	const table: Record<string, number> = {};
 
-	for (let j = 0; j < map.height; j++) {
-		for (let i = 0; i < map.width; i++) {
-			const entry = map.map[i + j * map.width];
+	for (const layer of map.layers) {
+		for (let idx = 0; idx < map.width * map.height; idx++) {
+			const entry = layer.cells[idx];
 			if (entry && entry.length > 0 && table[entry] == null) {
 				list.push(entry);
 				table[entry] = index++;
@@ -255,22 +786,58 @@ export function SaveMap(map: TileMap): string {
 		}
 	}
 
-	const serialized: number[] = [];
-	for (let j = 0; j < map.height; j++) {
-		for (let i = 0; i < map.width; i++) {
-			const entry = map.map[i + j * map.width];
-			serialized[i + j * map.width] = entry && entry.length > 0 ? table[entry] : 0;
+	const serialize = (layer: TileLayer): number[] => {
+		const serialized: number[] = [];
+		for (let idx = 0; idx < map.width * map.height; idx++) {
+			const entry = layer.cells[idx];
+			serialized[idx] = entry && entry.length > 0 ? table[entry] : 0;
 		}
+		return serialized;
+	};
+
+	if (fitsVersion1(map)) {
+		const plain: MapData = {
+			width: map.width,
+			height: map.height,
+			block_width: map.block_width,
+			block_height: map.block_height,
+			sprites: list,
+			data: serialize(map.layers[0]),
+		};
+		return JSON.stringify(plain);
 	}
 
-	const payload: MapData = {
+	const payload: LayeredMapData = {
+		version: 2,
 		width: map.width,
 		height: map.height,
 		block_width: map.block_width,
 		block_height: map.block_height,
 		sprites: list,
-		data: serialized,
+		layers: map.layers.map((layer) => ({
+			name: layer.name,
+			data: serialize(layer),
+			visible: layer.visible,
+			parallax_x: layer.parallax_x,
+			parallax_y: layer.parallax_y,
+			opacity: layer.opacity,
+		})),
 	};
 
+	const properties = map.getAllTileProperties();
+	if (Object.keys(properties).length > 0) {
+		payload.properties = properties;
+	}
+	const animations = map.getAllTileAnimations();
+	if (Object.keys(animations).length > 0) {
+		payload.animations = animations;
+	}
+	if (map.object_layers.length > 0) {
+		payload.object_layers = map.object_layers;
+	}
+	if (Object.keys(map.properties).length > 0) {
+		payload.map_properties = map.properties;
+	}
+
 	return JSON.stringify(payload);
 }
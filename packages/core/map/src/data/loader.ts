@@ -1,13 +1,13 @@
 import type { Sprite } from "@al8b/sprites";
-import type { MapData } from "./types";
+import type { AnyMapData } from "./types";
 
 export const loadMapData = (
 	data: string,
 	sprites: Record<string, Sprite> = {},
-): MapData & {
+): AnyMapData & {
 	spritesDict: Record<string, Sprite>;
 } => {
-	const parsed: MapData = JSON.parse(data);
+	const parsed: AnyMapData = JSON.parse(data);
 	return {
 		...parsed,
 		spritesDict: sprites,
@@ -16,10 +16,18 @@ export const loadMapData = (
 
 export type MapCells = Array<string | null>;
 
-export const populateMapFromData = (cells: MapCells, data: MapData): void => {
+/** Fills `cells` from a map file; for layered files, `layer` picks which layer (the first by default) */
+export const populateMapFromData = (cells: MapCells, data: AnyMapData, layer: string | number = 0): void => {
+	let source: number[] = [];
+	if (data.version === 2) {
+		const entry = typeof layer === "number" ? data.layers[layer] : data.layers.find((l) => l.name === layer);
+		source = entry?.data ?? [];
+	} else {
+		source = data.data;
+	}
 	for (let j = 0; j < data.height; j++) {
 		for (let i = 0; i < data.width; i++) {
-			const value = data.data[i + j * data.width];
+			const value = source[i + j * data.width];
 			if (value > 0) {
 				cells[i + j * data.width] = data.sprites[value] as string;
 			} else {
@@ -1,6 +1,8 @@
 import type { Sprite } from "@al8b/sprites";
 
+/** Version 1 map file: a single grid. Files without a `version` field are version 1. */
 export interface MapData {
+	version?: 1;
 	width: number;
 	height: number;
 	block_width: number;
@@ -9,6 +11,77 @@ export interface MapData {
 	data: number[];
 }
 
+/** Custom values attached to a tile ref, such as `solid`, `damage` or `friction` */
+export type TileProperties = Record<string, unknown>;
+
+export interface MapLayerData {
+	name: string;
+	/** Indices into the map's shared `sprites` list, 0 for empty cells */
+	data: number[];
+	visible?: boolean;
+	parallax_x?: number;
+	parallax_y?: number;
+	opacity?: number;
+}
+
+/** Version 2 map file: layers sharing one sprite list, plus per-tile properties */
+export interface LayeredMapData {
+	version: 2;
+	width: number;
+	height: number;
+	block_width: number;
+	block_height: number;
+	sprites: Array<string | number>;
+	layers: MapLayerData[];
+	properties?: Record<string, TileProperties>;
+	/** Tile animations keyed by tile ref */
+	animations?: Record<string, TileAnimationFrame[]>;
+	object_layers?: MapObjectLayer[];
+	/** Properties of the map itself */
+	map_properties?: TileProperties;
+}
+
+/** One frame of a tile animation: another tile shown for `duration` milliseconds */
+export interface TileAnimationFrame {
+	ref: string;
+	duration: number;
+}
+
+export type MapObjectShape = "rectangle" | "ellipse" | "point" | "polygon" | "polyline" | "tile" | "text";
+
+/**
+ * A placed object such as a spawn point, trigger zone or path. Coordinates
+ * are map pixels from the top-left corner, y down, as in Tiled.
+ */
+export interface MapObject {
+	id: number;
+	name: string;
+	type: string;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	/** Degrees clockwise */
+	rotation: number;
+	visible: boolean;
+	shape: MapObjectShape;
+	/** Polygon and polyline vertices, relative to (x, y) */
+	points?: Array<{ x: number; y: number }>;
+	/** Tile ref drawn by tile objects */
+	tile?: string;
+	text?: string;
+	properties: TileProperties;
+}
+
+export interface MapObjectLayer {
+	name: string;
+	visible: boolean;
+	objects: MapObject[];
+	properties: TileProperties;
+}
+
+export type AnyMapData = MapData | LayeredMapData;
+
 export interface AnimatedTile {
 	x: number;
 	y: number;
@@ -17,12 +90,19 @@ export interface AnimatedTile {
 	sprite: Sprite;
 	tx?: number;
 	ty?: number;
+	flip?: number;
+	/** Frames of a tile animation, cycled by duration instead of by the sprite's fps */
+	frames?: Array<{ sprite: Sprite; tx?: number; ty?: number; duration: number }>;
+	/** Sum of the frame durations, in milliseconds */
+	duration?: number;
 }
 
 export interface ParsedTile {
 	spriteName: string;
 	subX?: number;
 	subY?: number;
+	/** FLIP_H | FLIP_V | FLIP_D bits from the ref's "~hvd" suffix */
+	flip?: number;
 }
 
 export interface SpriteDictionary {
@@ -0,0 +1,99 @@
+import type { RenderState } from "./renderer";
+
+/** Default chunk edge, in tiles */
+export const CHUNK_SIZE = 32;
+
+/** A square of tiles cached in its own canvas, with its own animated tiles */
+export interface TileChunk extends RenderState {
+	cx: number;
+	cy: number;
+	/** Tiles changed since the chunk was last drawn into its canvas */
+	dirty: boolean;
+	/** No tiles at all: nothing is allocated or drawn */
+	empty: boolean;
+}
+
+/**
+ * The chunks of one layer, created on first use. Chunk rows count from the
+ * top of the drawn map, like canvas rows, so chunk (0, 0) holds the top-left
+ * tiles (the top rows of the map, since TileMap row 0 is the bottom one).
+ */
+export class ChunkGrid {
+	public size = CHUNK_SIZE;
+	public cols = 0;
+	public rows = 0;
+	private chunks: (TileChunk | null)[] = [];
+
+	/** Matches the grid to the map's size; changing it drops every chunk */
+	resize(width: number, height: number, size: number = this.size): void {
+		const cols = Math.ceil(width / size);
+		const rows = Math.ceil(height / size);
+		if (cols === this.cols && rows === this.rows && size === this.size) return;
+		this.size = size;
+		this.cols = cols;
+		this.rows = rows;
+		this.chunks = new Array(cols * rows).fill(null);
+	}
+
+	chunkAt(cx: number, cy: number): TileChunk {
+		const idx = cx + cy * this.cols;
+		let chunk = this.chunks[idx];
+		if (!chunk) {
+			chunk = { cx, cy, canvas: null, buffer: null, animated: [], dirty: true, empty: false };
+			this.chunks[idx] = chunk;
+		}
+		return chunk;
+	}
+
+	/** Flags the chunk holding the tile at canvas column `i`, canvas row `j` */
+	markTile(i: number, j: number): void {
+		const cx = Math.floor(i / this.size);
+		const cy = Math.floor(j / this.size);
+		if (cx < 0 || cy < 0 || cx >= this.cols || cy >= this.rows) return;
+		const chunk = this.chunks[cx + cy * this.cols];
+		if (chunk) chunk.dirty = true;
+	}
+
+	markAll(): void {
+		for (const chunk of this.chunks) {
+			if (chunk) chunk.dirty = true;
+		}
+	}
+}
+
+/**
+ * The part of the canvas visible through the context's current transform
+ * (screen scaling, camera), in the context's own coordinates. Null when the
+ * context cannot tell, in which case everything is drawn.
+ */
+export const visibleArea = (
+	context: CanvasRenderingContext2D,
+): { left: number; top: number; right: number; bottom: number } | null => {
+	const canvas = context.canvas;
+	if (!canvas || typeof context.getTransform !== "function") return null;
+	const m = context.getTransform();
+	const det = m.a * m.d - m.b * m.c;
+	if (det === 0) return null;
+
+	let left = Number.POSITIVE_INFINITY;
+	let top = Number.POSITIVE_INFINITY;
+	let right = Number.NEGATIVE_INFINITY;
+	let bottom = Number.NEGATIVE_INFINITY;
+	for (const [sx, sy] of [
+		[0, 0],
+		[canvas.width, 0],
+		[0, canvas.height],
+		[canvas.width, canvas.height],
+	]) {
+		// Inverse of the 2D affine transform
+		const px = sx - m.e;
+		const py = sy - m.f;
+		const x = (m.d * px - m.c * py) / det;
+		const y = (m.a * py - m.b * px) / det;
+		if (x < left) left = x;
+		if (x > right) right = x;
+		if (y < top) top = y;
+		if (y > bottom) bottom = y;
+	}
+	return { left, top, right, bottom };
+};
@@ -1,5 +1,6 @@
 import type { Sprite } from "@al8b/sprites";
 import type { AnimatedTile, ParsedTile } from "../data/types";
+import { FLIP_D, FLIP_H, FLIP_V } from "../shared/references";
 
 export interface RenderState {
 	canvas: HTMLCanvasElement | null;
@@ -33,6 +34,46 @@ export const ensureCanvas = (
 	return ctx;
 };
 
+/**
+ * Draws `image` (or its (sx, sy) cell when given) with its top-left corner at
+ * (dx, dy), mirrored and turned by the FLIP_* bits around the cell's centre.
+ */
+const blit = (
+	ctx: CanvasRenderingContext2D,
+	image: CanvasImageSource,
+	sx: number | undefined,
+	sy: number | undefined,
+	w: number,
+	h: number,
+	dx: number,
+	dy: number,
+	flip: number,
+): void => {
+	if (!flip) {
+		if (sx != null && sy != null) {
+			ctx.drawImage(image, sx, sy, w, h, dx, dy, w, h);
+		} else {
+			ctx.drawImage(image, dx, dy, w, h);
+		}
+		return;
+	}
+	const fx = flip & FLIP_H ? -1 : 1;
+	const fy = flip & FLIP_V ? -1 : 1;
+	ctx.save();
+	ctx.translate(dx + w / 2, dy + h / 2);
+	if (flip & FLIP_D) {
+		ctx.transform(0, fy, fx, 0, 0, 0);
+	} else {
+		ctx.transform(fx, 0, 0, fy, 0, 0);
+	}
+	if (sx != null && sy != null) {
+		ctx.drawImage(image, sx, sy, w, h, -w / 2, -h / 2, w, h);
+	} else {
+		ctx.drawImage(image, -w / 2, -h / 2, w, h);
+	}
+	ctx.restore();
+};
+
 export const drawTile = (
 	ctx: CanvasRenderingContext2D,
 	sprite: Sprite,
@@ -49,19 +90,19 @@ export const drawTile = (
 	if (parsed.subX != null) {
 		const tx = parsed.subX * blockWidth;
 		const ty = (parsed.subY ?? 0) * blockHeight;
-		ctx.drawImage(
+		blit(ctx, canvas, tx, ty, blockWidth, blockHeight, blockWidth * gridX, blockHeight * gridY, parsed.flip ?? 0);
+	} else {
+		blit(
+			ctx,
 			canvas,
-			tx,
-			ty,
-			blockWidth,
-			blockHeight,
+			undefined,
+			undefined,
+			canvas.width,
+			canvas.height,
 			blockWidth * gridX,
 			blockHeight * gridY,
-			blockWidth,
-			blockHeight,
+			parsed.flip ?? 0,
 		);
-	} else {
-		ctx.drawImage(canvas, blockWidth * gridX, blockHeight * gridY);
 	}
 	return true;
 };
@@ -74,7 +115,7 @@ export const queueAnimatedTile = (
 	gridX: number,
 	gridY: number,
 	parsed: ParsedTile,
-): void => {
+): AnimatedTile => {
 	const tile: AnimatedTile = {
 		x: blockWidth * gridX,
 		y: blockHeight * gridY,
@@ -86,7 +127,11 @@ export const queueAnimatedTile = (
 		tile.tx = parsed.subX * blockWidth;
 		tile.ty = (parsed.subY ?? 0) * blockHeight;
 	}
+	if (parsed.flip) {
+		tile.flip = parsed.flip;
+	}
 	state.animated.push(tile);
+	return tile;
 };
 
 export const renderAnimatedTiles = (state: RenderState, blockWidth: number, blockHeight: number): HTMLCanvasElement => {
@@ -104,14 +149,24 @@ export const renderAnimatedTiles = (state: RenderState, blockWidth: number, bloc
 	bufferCtx.clearRect(0, 0, state.buffer.width, state.buffer.height);
 	bufferCtx.drawImage(state.canvas!, 0, 0);
 	for (const tile of state.animated) {
+		if (tile.frames && tile.duration) {
+			// Frame whose time slot contains the current time
+			let t = time % tile.duration;
+			let frame = tile.frames[0];
+			for (const f of tile.frames) {
+				frame = f;
+				if (t < f.duration) break;
+				t -= f.duration;
+			}
+			const image = frame.sprite.frames[0]?.canvas;
+			if (!image) continue;
+			blit(bufferCtx, image, frame.tx, frame.ty, blockWidth, blockHeight, tile.x, tile.y, tile.flip ?? 0);
+			continue;
+		}
 		const len = tile.sprite.frames.length;
 		const frame = tile.sprite.frames[Math.floor((time / 1000) * tile.sprite.fps) % len]?.canvas;
 		if (!frame) continue;
-		if (tile.tx != null && tile.ty != null) {
-			bufferCtx.drawImage(frame, tile.tx, tile.ty, blockWidth, blockHeight, tile.x, tile.y, blockWidth, blockHeight);
-		} else {
-			bufferCtx.drawImage(frame, tile.x, tile.y, blockWidth, blockHeight);
-		}
+		blit(bufferCtx, frame, tile.tx, tile.ty, blockWidth, blockHeight, tile.x, tile.y, tile.flip ?? 0);
 	}
 	return state.buffer;
 };
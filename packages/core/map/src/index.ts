@@ -3,10 +3,35 @@
  *
  * Architecture:
  * - core/: TileMap runtime with load/update/save helpers
- * - drawing/: Canvas rendering utilities for animated tiles
+ * - drawing/: Chunked canvas rendering, viewport culling and animated tiles
  * - shared/: Reference normalization utilities
  * - data/: Raw map data types and loaders
+ * - tiled/: Tiled (.tmj/.tmx) map importer
  */
 
-export { LoadMap, SaveMap, TileMap, UpdateMap } from "./core/tile-map";
-export type { MapData } from "./data/types";
+export { type AutotileMode, type AutotileRule, BLOB47_MASKS } from "./core/autotile";
+export { FieldOfView, type FovOptions, LightGrid } from "./core/lighting";
+export {
+	type DiagonalMode,
+	FlowField,
+	type FlowFieldOptions,
+	type PathOptions,
+	type PathPoint,
+} from "./core/pathfinding";
+export { TileLayer, type TileLayerOptions } from "./core/tile-layer";
+export { DEFAULT_LAYER, type LayerRef, LoadMap, SaveMap, TileMap, UpdateMap } from "./core/tile-map";
+export type {
+	AnyMapData,
+	LayeredMapData,
+	MapData,
+	MapLayerData,
+	MapObject,
+	MapObjectLayer,
+	MapObjectShape,
+	TileAnimationFrame,
+	TileProperties,
+} from "./data/types";
+export { CHUNK_SIZE } from "./drawing/chunks";
+export { FLIP_D, FLIP_H, FLIP_V } from "./shared/references";
+export { LoadTiledMap, ParseTiledMap } from "./tiled/importer";
+export type { TiledImportOptions, TiledMap } from "./tiled/types";
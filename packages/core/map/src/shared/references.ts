@@ -1,4 +1,56 @@
+import type { ParsedTile } from "../data/types";
+
 // Convert forward slashes to dashes for safe storage in map data format
 export const normalizeRefForStorage = (ref: string): string => ref.replace(/\//g, "-");
 // Convert dashes back to forward slashes for sprite reference lookup
 export const normalizeRefForUsage = (ref: string): string => ref.replace(/-/g, "/");
+
+/** Flip bits of a tile ref's "~hvd" suffix */
+export const FLIP_H = 1;
+export const FLIP_V = 2;
+/** Swap of the tile's x and y axes, applied before the other flips; with FLIP_H it is a quarter turn clockwise */
+export const FLIP_D = 4;
+
+/** The ref without its flip suffix, so every flipped copy of a tile shares properties and animations */
+export const stripTileFlip = (ref: string): string => {
+	const tildeIdx = ref.indexOf("~");
+	return tildeIdx === -1 ? ref : ref.substring(0, tildeIdx);
+};
+
+/** Appends the "~hvd" suffix for a set of flip bits; refs without flips are returned unchanged */
+export const withTileFlip = (ref: string, flip: number): string => {
+	if (!flip) return ref;
+	return `${ref}~${flip & FLIP_H ? "h" : ""}${flip & FLIP_V ? "v" : ""}${flip & FLIP_D ? "d" : ""}`;
+};
+
+/**
+ * Parse a tile reference string into a cached ParsedTile object.
+ * Input format: "spriteName" or "spriteName:subX,subY", optionally followed by
+ * a flip suffix such as "~h" or "~vd"
+ */
+export const parseTileRef = (entry: string): ParsedTile => {
+	let flip = 0;
+	const tildeIdx = entry.indexOf("~");
+	if (tildeIdx !== -1) {
+		const flags = entry.substring(tildeIdx + 1);
+		if (flags.includes("h")) flip |= FLIP_H;
+		if (flags.includes("v")) flip |= FLIP_V;
+		if (flags.includes("d")) flip |= FLIP_D;
+		entry = entry.substring(0, tildeIdx);
+	}
+	const tile: ParsedTile = { spriteName: entry };
+	const colonIdx = entry.indexOf(":");
+	if (colonIdx !== -1) {
+		tile.spriteName = entry.substring(0, colonIdx);
+		const coords = entry.substring(colonIdx + 1);
+		const commaIdx = coords.indexOf(",");
+		if (commaIdx === -1) {
+			tile.subX = Number.parseInt(coords, 10);
+		} else {
+			tile.subX = Number.parseInt(coords.substring(0, commaIdx), 10);
+			tile.subY = Number.parseInt(coords.substring(commaIdx + 1), 10);
+		}
+	}
+	if (flip) tile.flip = flip;
+	return tile;
+};
@@ -0,0 +1,364 @@
+/**
+ * Tiled importer - builds a TileMap from a Tiled map (.tmj JSON or .tmx XML).
+ *
+ * Tilesets become sprite refs ("sheet:x,y"), flip flags become the ref's
+ * "~hvd" suffix, tileset animations and tile properties are attached to the
+ * map, and object layers are kept as plain objects for scripts.
+ */
+
+import type { Sprite } from "@al8b/sprites";
+import { TileMap } from "../core/tile-map";
+import type { MapObject, MapObjectShape, TileProperties } from "../data/types";
+import { FLIP_D, FLIP_H, FLIP_V, withTileFlip } from "../shared/references";
+import { parseTmx, parseTsx } from "./tmx";
+import type { TiledImportOptions, TiledLayer, TiledMap, TiledObject, TiledProperty, TiledTileset } from "./types";
+
+const FLIPPED_HORIZONTALLY = 0x80000000;
+const FLIPPED_VERTICALLY = 0x40000000;
+const FLIPPED_DIAGONALLY = 0x20000000;
+// Also clears the hexagonal 120° rotation bit, which orthogonal maps never set
+const GID_MASK = 0x0fffffff;
+
+interface ResolvedTileset {
+	firstgid: number;
+	ref: (localId: number) => string | null;
+	source: TiledTileset;
+}
+
+/** Tile layers flattened out of groups, with the group's visibility, opacity and parallax folded in */
+interface FlatLayer {
+	layer: TiledLayer;
+	visible: boolean;
+	opacity: number;
+	parallaxx: number;
+	parallaxy: number;
+}
+
+const toProperties = (list?: TiledProperty[]): TileProperties => {
+	const properties: TileProperties = {};
+	for (const p of list ?? []) {
+		properties[p.name] = p.value;
+	}
+	return properties;
+};
+
+/** "../art/terrain-grass.png" -> "terrain-grass", which resolves to the "terrain/grass" sprite */
+const spriteNameFromPath = (path: string): string => {
+	const file = path.split(/[\\/]/).pop() ?? path;
+	const dot = file.lastIndexOf(".");
+	return dot > 0 ? file.substring(0, dot) : file;
+};
+
+const resolveTileset = (tileset: TiledTileset, map: TiledMap, options: TiledImportOptions): ResolvedTileset => {
+	const label = tileset.name || tileset.image || `firstgid ${tileset.firstgid}`;
+	if (tileset.source && !tileset.image && !tileset.tiles) {
+		throw new Error(`Tileset "${tileset.source}" is external; load the map with LoadTiledMap to resolve it`);
+	}
+
+	if (tileset.image) {
+		const width = tileset.tilewidth ?? map.tilewidth;
+		const height = tileset.tileheight ?? map.tileheight;
+		if (width !== map.tilewidth || height !== map.tileheight) {
+			throw new Error(
+				`Tileset "${label}" has ${width}x${height} tiles but the map grid is ${map.tilewidth}x${map.tileheight}`,
+			);
+		}
+		if (tileset.margin || tileset.spacing) {
+			throw new Error(`Tileset "${label}" uses margin or spacing, which tile refs cannot express`);
+		}
+		const columns = tileset.columns ?? 0;
+		if (columns <= 0) {
+			throw new Error(`Tileset "${label}" has no column count`);
+		}
+		const sprite = options.sprites?.[tileset.name ?? ""] ?? spriteNameFromPath(tileset.image);
+		return {
+			firstgid: tileset.firstgid,
+			source: tileset,
+			ref: (id) => `${sprite}:${id % columns},${Math.floor(id / columns)}`,
+		};
+	}
+
+	// Image collection: every tile is its own sprite
+	const images = new Map<number, string>();
+	for (const tile of tileset.tiles ?? []) {
+		if (tile.image) images.set(tile.id, spriteNameFromPath(tile.image));
+	}
+	return { firstgid: tileset.firstgid, source: tileset, ref: (id) => images.get(id) ?? null };
+};
+
+const decodeData = (data: number[] | string, compression?: string): number[] => {
+	if (Array.isArray(data)) return data;
+	if (compression) {
+		throw new Error(`Compressed tile layers (${compression}) are not supported; save them as CSV or uncompressed Base64`);
+	}
+	const bytes = atob(data.trim());
+	const gids: number[] = new Array(bytes.length >> 2);
+	for (let i = 0; i < gids.length; i++) {
+		const k = i * 4;
+		gids[i] =
+			(bytes.charCodeAt(k) |
+				(bytes.charCodeAt(k + 1) << 8) |
+				(bytes.charCodeAt(k + 2) << 16) |
+				(bytes.charCodeAt(k + 3) << 24)) >>>
+			0;
+	}
+	return gids;
+};
+
+const flattenLayers = (
+	layers: TiledLayer[],
+	parent: Omit<FlatLayer, "layer">,
+	tiles: FlatLayer[],
+	objects: FlatLayer[],
+): void => {
+	for (const layer of layers) {
+		const flat: FlatLayer = {
+			layer,
+			visible: parent.visible && layer.visible !== false,
+			opacity: parent.opacity * (layer.opacity ?? 1),
+			parallaxx: parent.parallaxx * (layer.parallaxx ?? 1),
+			parallaxy: parent.parallaxy * (layer.parallaxy ?? 1),
+		};
+		if (layer.type === "group") flattenLayers(layer.layers ?? [], flat, tiles, objects);
+		else if (layer.type === "tilelayer") tiles.push(flat);
+		else if (layer.type === "objectgroup") objects.push(flat);
+	}
+};
+
+const uniqueName = (name: string, taken: (name: string) => boolean): string => {
+	if (!taken(name)) return name;
+	let n = 2;
+	while (taken(`${name} ${n}`)) n++;
+	return `${name} ${n}`;
+};
+
+const objectShape = (object: TiledObject): MapObjectShape => {
+	if (object.gid) return "tile";
+	if (object.point) return "point";
+	if (object.ellipse) return "ellipse";
+	if (object.polygon) return "polygon";
+	if (object.polyline) return "polyline";
+	if (object.text) return "text";
+	return "rectangle";
+};
+
+/**
+ * Builds a TileMap from a Tiled map: a parsed .tmj object, .tmj JSON text or
+ * .tmx XML text. Only orthogonal maps with embedded tilesets are accepted
+ * here; LoadTiledMap also fetches external tilesets.
+ */
+export function ParseTiledMap(
+	data: string | TiledMap,
+	sprites?: Record<string, Sprite>,
+	options: TiledImportOptions = {},
+): TileMap {
+	const tiled: TiledMap = typeof data === "string" ? parseTiledText(data) : data;
+	if (tiled.orientation && tiled.orientation !== "orthogonal") {
+		throw new Error(`Unsupported Tiled orientation "${tiled.orientation}"; only orthogonal maps can be imported`);
+	}
+
+	const tilesets = tiled.tilesets.map((t) => resolveTileset(t, tiled, options)).sort((a, b) => b.firstgid - a.firstgid);
+	const refFor = (raw: number, allowDiagonal = true): string | null => {
+		const gid = raw >>> 0;
+		const id = gid & GID_MASK;
+		if (id === 0) return null;
+		const tileset = tilesets.find((t) => t.firstgid <= id);
+		const ref = tileset?.ref(id - tileset.firstgid) ?? null;
+		if (!ref) return null;
+		let flip = 0;
+		if (gid & FLIPPED_HORIZONTALLY) flip |= FLIP_H;
+		if (gid & FLIPPED_VERTICALLY) flip |= FLIP_V;
+		if (allowDiagonal && gid & FLIPPED_DIAGONALLY) flip |= FLIP_D;
+		return withTileFlip(ref, flip);
+	};
+
+	const tileLayers: FlatLayer[] = [];
+	const objectLayers: FlatLayer[] = [];
+	flattenLayers(tiled.layers, { visible: true, opacity: 1, parallaxx: 1, parallaxy: 1 }, tileLayers, objectLayers);
+
+	// Infinite maps store chunks around an arbitrary origin; crop to the chunks actually used
+	let originX = 0;
+	let originY = 0;
+	let width = tiled.width;
+	let height = tiled.height;
+	if (tiled.infinite) {
+		let minX = Number.POSITIVE_INFINITY;
+		let minY = Number.POSITIVE_INFINITY;
+		let maxX = Number.NEGATIVE_INFINITY;
+		let maxY = Number.NEGATIVE_INFINITY;
+		for (const { layer } of tileLayers) {
+			for (const chunk of layer.chunks ?? []) {
+				minX = Math.min(minX, chunk.x);
+				minY = Math.min(minY, chunk.y);
+				maxX = Math.max(maxX, chunk.x + chunk.width);
+				maxY = Math.max(maxY, chunk.y + chunk.height);
+			}
+		}
+		if (minX !== Number.POSITIVE_INFINITY) {
+			originX = minX;
+			originY = minY;
+			width = maxX - minX;
+			height = maxY - minY;
+		}
+	}
+
+	const map = new TileMap(Math.max(1, width), Math.max(1, height), tiled.tilewidth, tiled.tileheight, sprites);
+	if (tileLayers.length > 0) map.layers = [];
+
+	for (const flat of tileLayers) {
+		const source = flat.layer;
+		const layer = map.addLayer(
+			uniqueName(source.name, (n) => map.getLayer(n) != null),
+			{ visible: flat.visible, opacity: flat.opacity, parallax_x: flat.parallaxx, parallax_y: flat.parallaxy },
+		);
+		const place = (gids: number[], x0: number, y0: number, w: number) => {
+			for (let k = 0; k < gids.length; k++) {
+				const ref = refFor(gids[k]);
+				if (!ref) continue;
+				const col = x0 + (k % w) - originX;
+				const row = y0 + Math.floor(k / w) - originY;
+				// Tiled counts rows from the top, TileMap from the bottom
+				layer.set(col, map.height - 1 - row, ref);
+			}
+		};
+		if (source.chunks) {
+			for (const chunk of source.chunks) {
+				place(decodeData(chunk.data, source.compression), chunk.x, chunk.y, chunk.width);
+			}
+		} else if (source.data != null) {
+			place(decodeData(source.data, source.compression), originX, originY, source.width ?? tiled.width);
+		}
+	}
+
+	for (const { source, firstgid, ref } of tilesets) {
+		for (const tile of source.tiles ?? []) {
+			const tileRef = ref(tile.id);
+			if (!tileRef) continue;
+			const properties = toProperties(tile.properties);
+			const type = tile.type ?? tile.class;
+			if (type && properties.type === undefined) properties.type = type;
+			if (Object.keys(properties).length > 0) map.setTileProperties(tileRef, properties);
+			if (tile.animation && tile.animation.length > 0) {
+				const frames = tile.animation
+					.map((f) => ({ ref: refFor(firstgid + f.tileid), duration: f.duration }))
+					.filter((f): f is { ref: string; duration: number } => f.ref != null);
+				map.setTileAnimation(tileRef, frames);
+			}
+		}
+	}
+
+	const offsetX = originX * tiled.tilewidth;
+	const offsetY = originY * tiled.tileheight;
+	for (const flat of objectLayers) {
+		const objects = (flat.layer.objects ?? []).map((o): MapObject => {
+			const object: MapObject = {
+				id: o.id,
+				name: o.name ?? "",
+				type: o.type ?? o.class ?? "",
+				x: o.x - offsetX,
+				y: o.y - offsetY,
+				width: o.width ?? 0,
+				height: o.height ?? 0,
+				rotation: o.rotation ?? 0,
+				visible: o.visible !== false,
+				shape: objectShape(o),
+				properties: toProperties(o.properties),
+			};
+			const points = o.polygon ?? o.polyline;
+			if (points) object.points = points.map((p) => ({ x: p.x, y: p.y }));
+			if (o.gid) object.tile = refFor(o.gid, false) ?? undefined;
+			if (o.text) object.text = o.text.text ?? "";
+			return object;
+		});
+		map.object_layers.push({
+			name: uniqueName(flat.layer.name, (n) => map.getObjectLayer(n) != null),
+			visible: flat.visible,
+			objects,
+			properties: toProperties(flat.layer.properties),
+		});
+	}
+
+	map.properties = toProperties(tiled.properties);
+	map.needs_update = true;
+	return map;
+}
+
+const parseTiledText = (text: string): TiledMap => {
+	const trimmed = text.trimStart();
+	return trimmed.startsWith("<") ? parseTmx(trimmed) : JSON.parse(trimmed);
+};
+
+const parseTilesetText = (text: string): TiledTileset => {
+	const trimmed = text.trimStart();
+	return trimmed.startsWith("<") ? parseTsx(trimmed) : JSON.parse(trimmed);
+};
+
+const fetchText = (url: string): Promise<string> =>
+	new Promise((resolve, reject) => {
+		const req = new XMLHttpRequest();
+		req.onreadystatechange = () => {
+			if (req.readyState !== XMLHttpRequest.DONE) return;
+			if (req.status === 200) resolve(req.responseText);
+			else reject(new Error(`Failed to load ${url} (status ${req.status})`));
+		};
+		req.open("GET", url);
+		req.send();
+	});
+
+/** Resolves `path` against the folder of `base`, ignoring any query string on `base` */
+const resolveUrl = (base: string, path: string): string => {
+	if (/^[a-z]+:|^\//i.test(path)) return path;
+	const clean = base.split("?")[0];
+	const parts = clean.substring(0, clean.lastIndexOf("/") + 1).split("/");
+	parts.pop();
+	for (const segment of path.split("/")) {
+		if (segment === "..") {
+			if (parts.length > 0 && parts[parts.length - 1] !== "..") parts.pop();
+			else parts.push("..");
+		} else if (segment !== ".") {
+			parts.push(segment);
+		}
+	}
+	return parts.join("/");
+};
+
+/**
+ * Loads a Tiled map (.tmj or .tmx) and any external tilesets it references,
+ * relative to the map's URL. Returns the map at once; it is filled in and
+ * marked ready when loading finishes. On failure the map stays empty and
+ * `loaded` receives the error.
+ */
+export function LoadTiledMap(
+	url: string,
+	sprites?: Record<string, Sprite>,
+	loaded?: (error?: Error) => void,
+	options?: TiledImportOptions,
+): TileMap {
+	const map = new TileMap(1, 1, 1, 1, sprites);
+	map.ready = false;
+
+	const load = async (): Promise<void> => {
+		const tiled = parseTiledText(await fetchText(url));
+		tiled.tilesets = await Promise.all(
+			tiled.tilesets.map(async (tileset) => {
+				if (!tileset.source) return tileset;
+				const external = parseTilesetText(await fetchText(resolveUrl(url, tileset.source)));
+				return { ...external, firstgid: tileset.firstgid };
+			}),
+		);
+		map.copyFrom(ParseTiledMap(tiled, sprites, options));
+		map.needs_update = true;
+	};
+
+	load().then(
+		() => {
+			map.ready = true;
+			loaded?.();
+		},
+		(error: unknown) => {
+			map.ready = true;
+			loaded?.(error instanceof Error ? error : new Error(String(error)));
+		},
+	);
+	return map;
+}
@@ -0,0 +1,193 @@
+/**
+ * TMX / TSX (Tiled XML) reader: converts the XML into the JSON map shape so
+ * both formats share one importer. Needs a DOMParser (browsers provide one).
+ */
+
+import type { TiledChunk, TiledLayer, TiledMap, TiledObject, TiledProperty, TiledTile, TiledTileset } from "./types";
+
+const parseXml = (xml: string): Element => {
+	const doc = new DOMParser().parseFromString(xml, "application/xml");
+	const error = doc.getElementsByTagName("parsererror")[0];
+	if (error) {
+		throw new Error(`Invalid Tiled XML: ${error.textContent ?? ""}`.trim());
+	}
+	return doc.documentElement;
+};
+
+const children = (el: Element, name: string): Element[] =>
+	Array.from(el.children).filter((child) => child.nodeName === name);
+
+const num = (el: Element, name: string, fallback = 0): number => {
+	const value = el.getAttribute(name);
+	return value == null || value === "" ? fallback : Number(value);
+};
+
+const optNum = (el: Element, name: string): number | undefined => {
+	const value = el.getAttribute(name);
+	return value == null || value === "" ? undefined : Number(value);
+};
+
+const readProperties = (el: Element): TiledProperty[] | undefined => {
+	const container = children(el, "properties")[0];
+	if (!container) return undefined;
+	return children(container, "property").map((p) => {
+		const type = p.getAttribute("type") ?? "string";
+		const raw = p.getAttribute("value") ?? p.textContent ?? "";
+		let value: unknown = raw;
+		if (type === "int" || type === "float" || type === "object") value = Number(raw);
+		else if (type === "bool") value = raw === "true";
+		return { name: p.getAttribute("name") ?? "", type, value };
+	});
+};
+
+/** Tile layer contents: CSV and XML <tile> lists become gid arrays, Base64 stays a string */
+const readData = (el: Element, encoding: string | null): number[] | string => {
+	if (encoding === "base64") return (el.textContent ?? "").trim();
+	if (encoding === "csv") {
+		const text = (el.textContent ?? "").trim();
+		return text === "" ? [] : text.split(",").map((v) => Number(v.trim()) >>> 0);
+	}
+	return children(el, "tile").map((t) => num(t, "gid") >>> 0);
+};
+
+const readPoints = (value: string | null): Array<{ x: number; y: number }> =>
+	(value ?? "")
+		.trim()
+		.split(/\s+/)
+		.filter((pair) => pair !== "")
+		.map((pair) => {
+			const [x, y] = pair.split(",");
+			return { x: Number(x), y: Number(y) };
+		});
+
+const readObject = (el: Element): TiledObject => {
+	const object: TiledObject = {
+		id: num(el, "id"),
+		name: el.getAttribute("name") ?? "",
+		type: el.getAttribute("type") ?? el.getAttribute("class") ?? "",
+		x: num(el, "x"),
+		y: num(el, "y"),
+		width: num(el, "width"),
+		height: num(el, "height"),
+		rotation: num(el, "rotation"),
+		visible: el.getAttribute("visible") !== "0",
+		properties: readProperties(el),
+	};
+	const gid = optNum(el, "gid");
+	if (gid !== undefined) object.gid = gid >>> 0;
+	if (children(el, "point").length > 0) object.point = true;
+	if (children(el, "ellipse").length > 0) object.ellipse = true;
+	const polygon = children(el, "polygon")[0];
+	if (polygon) object.polygon = readPoints(polygon.getAttribute("points"));
+	const polyline = children(el, "polyline")[0];
+	if (polyline) object.polyline = readPoints(polyline.getAttribute("points"));
+	const text = children(el, "text")[0];
+	if (text) object.text = { text: text.textContent ?? "" };
+	return object;
+};
+
+const readLayers = (parent: Element): TiledLayer[] => {
+	const layers: TiledLayer[] = [];
+	for (const el of Array.from(parent.children)) {
+		const common = {
+			name: el.getAttribute("name") ?? "",
+			visible: el.getAttribute("visible") !== "0",
+			opacity: num(el, "opacity", 1),
+			parallaxx: num(el, "parallaxx", 1),
+			parallaxy: num(el, "parallaxy", 1),
+			properties: readProperties(el),
+		};
+		if (el.nodeName === "layer") {
+			const layer: TiledLayer = { type: "tilelayer", ...common, width: num(el, "width"), height: num(el, "height") };
+			const data = children(el, "data")[0];
+			if (data) {
+				const encoding = data.getAttribute("encoding");
+				layer.encoding = encoding === "base64" ? "base64" : "csv";
+				layer.compression = data.getAttribute("compression") ?? undefined;
+				const chunks = children(data, "chunk");
+				if (chunks.length > 0) {
+					layer.chunks = chunks.map(
+						(c): TiledChunk => ({
+							x: num(c, "x"),
+							y: num(c, "y"),
+							width: num(c, "width"),
+							height: num(c, "height"),
+							data: readData(c, encoding),
+						}),
+					);
+				} else {
+					layer.data = readData(data, encoding);
+				}
+			}
+			layers.push(layer);
+		} else if (el.nodeName === "objectgroup") {
+			layers.push({ type: "objectgroup", ...common, objects: children(el, "object").map(readObject) });
+		} else if (el.nodeName === "group") {
+			layers.push({ type: "group", ...common, layers: readLayers(el) });
+		}
+	}
+	return layers;
+};
+
+const readTileset = (el: Element): TiledTileset => {
+	const tileset: TiledTileset = {
+		firstgid: num(el, "firstgid", 1),
+		name: el.getAttribute("name") ?? "",
+		tilewidth: optNum(el, "tilewidth"),
+		tileheight: optNum(el, "tileheight"),
+		columns: optNum(el, "columns"),
+		margin: num(el, "margin"),
+		spacing: num(el, "spacing"),
+		properties: readProperties(el),
+	};
+	const source = el.getAttribute("source");
+	if (source) tileset.source = source;
+	const image = children(el, "image")[0];
+	if (image) tileset.image = image.getAttribute("source") ?? "";
+	const tiles = children(el, "tile").map((t) => {
+		const tile: TiledTile = {
+			id: num(t, "id"),
+			type: t.getAttribute("type") ?? t.getAttribute("class") ?? undefined,
+			properties: readProperties(t),
+		};
+		const tileImage = children(t, "image")[0];
+		if (tileImage) tile.image = tileImage.getAttribute("source") ?? "";
+		const animation = children(t, "animation")[0];
+		if (animation) {
+			tile.animation = children(animation, "frame").map((f) => ({
+				tileid: num(f, "tileid"),
+				duration: num(f, "duration"),
+			}));
+		}
+		return tile;
+	});
+	if (tiles.length > 0) tileset.tiles = tiles;
+	return tileset;
+};
+
+export const parseTmx = (xml: string): TiledMap => {
+	const root = parseXml(xml);
+	if (root.nodeName !== "map") {
+		throw new Error(`Expected a TMX <map> element, found <${root.nodeName}>`);
+	}
+	return {
+		width: num(root, "width"),
+		height: num(root, "height"),
+		tilewidth: num(root, "tilewidth"),
+		tileheight: num(root, "tileheight"),
+		infinite: root.getAttribute("infinite") === "1",
+		orientation: root.getAttribute("orientation") ?? "orthogonal",
+		layers: readLayers(root),
+		tilesets: children(root, "tileset").map(readTileset),
+		properties: readProperties(root),
+	};
+};
+
+/** An external .tsx tileset, without the firstgid that the referencing map supplies */
+export const parseTsx = (xml: string): TiledTileset => {
+	const root = parseXml(xml);
+	if (root.nodeName !== "tileset") {
+		throw new Error(`Expected a TSX <tileset> element, found <${root.nodeName}>`);
+	}
+	return readTileset(root);
+};
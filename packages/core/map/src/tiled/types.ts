@@ -0,0 +1,105 @@
+/**
+ * The subset of Tiled's JSON map format (.tmj) the importer reads. TMX files
+ * are converted to this shape first.
+ */
+
+export interface TiledProperty {
+	name: string;
+	type?: string;
+	value: unknown;
+}
+
+export interface TiledChunk {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	data: number[] | string;
+}
+
+export interface TiledPoint {
+	x: number;
+	y: number;
+}
+
+export interface TiledObject {
+	id: number;
+	name?: string;
+	type?: string;
+	class?: string;
+	x: number;
+	y: number;
+	width?: number;
+	height?: number;
+	rotation?: number;
+	visible?: boolean;
+	gid?: number;
+	point?: boolean;
+	ellipse?: boolean;
+	polygon?: TiledPoint[];
+	polyline?: TiledPoint[];
+	text?: { text?: string };
+	properties?: TiledProperty[];
+}
+
+export interface TiledLayer {
+	type: "tilelayer" | "objectgroup" | "group" | "imagelayer";
+	name: string;
+	visible?: boolean;
+	opacity?: number;
+	parallaxx?: number;
+	parallaxy?: number;
+	properties?: TiledProperty[];
+	// Tile layers
+	width?: number;
+	height?: number;
+	data?: number[] | string;
+	encoding?: "csv" | "base64";
+	compression?: string;
+	chunks?: TiledChunk[];
+	// Object layers
+	objects?: TiledObject[];
+	// Group layers
+	layers?: TiledLayer[];
+}
+
+export interface TiledTile {
+	id: number;
+	type?: string;
+	class?: string;
+	image?: string;
+	properties?: TiledProperty[];
+	animation?: Array<{ tileid: number; duration: number }>;
+}
+
+export interface TiledTileset {
+	firstgid: number;
+	/** Set on references to external .tsj/.tsx files, which must be resolved before import */
+	source?: string;
+	name?: string;
+	tilewidth?: number;
+	tileheight?: number;
+	columns?: number;
+	margin?: number;
+	spacing?: number;
+	image?: string;
+	tiles?: TiledTile[];
+	properties?: TiledProperty[];
+}
+
+export interface TiledMap {
+	width: number;
+	height: number;
+	tilewidth: number;
+	tileheight: number;
+	infinite?: boolean;
+	orientation?: string;
+	layers: TiledLayer[];
+	tilesets: TiledTileset[];
+	properties?: TiledProperty[];
+}
+
+export interface TiledImportOptions {
+	/** Sprite name to use for a tileset, keyed by tileset name; defaults to the tileset image's file name */
+	sprites?: Record<string, string>;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { createBody, type PhysicsBody } from "../src/body";
+import { type BroadPhase, BruteForce, SweepAndPrune, UniformGrid } from "../src/broadphase";
+
+/** Boxes of mixed sizes from a fixed seed, plus two floors long enough to skip the grid */
+const makeBodies = (): PhysicsBody[] => {
+	let seed = 7;
+	const random = () => {
+		seed = (seed * 16807) % 2147483647;
+		return seed / 2147483647;
+	};
+	const bodies: PhysicsBody[] = [];
+	for (let i = 0; i < 150; i++) {
+		const w = 4 + random() * 90;
+		const h = 4 + random() * 90;
+		bodies.push(createBody(i, { x: random() * 1000, y: random() * 1000, shape: { type: "aabb", x: 0, y: 0, w, h } }));
+	}
+	bodies.push(createBody(150, { x: 0, y: 400, shape: { type: "aabb", x: 0, y: 0, w: 5000, h: 10 } }));
+	bodies.push(createBody(151, { x: 0, y: 800, shape: { type: "aabb", x: 0, y: 0, w: 5000, h: 10 } }));
+	return bodies;
+};
+
+const pairList = (phase: BroadPhase, bodies: PhysicsBody[]): string[] => {
+	phase.update(bodies);
+	const pairs: string[] = [];
+	phase.pairs((a, b) => {
+		expect(a.id).toBeLessThan(b.id);
+		pairs.push(`${a.id}-${b.id}`);
+	});
+	return pairs.sort();
+};
+
+const overlapping = (pairs: string[], bodies: PhysicsBody[]): string[] =>
+	pairs.filter((key) => {
+		const [a, b] = key.split("-").map((id) => bodies[Number(id)].bounds);
+		return a.right >= b.left && a.left <= b.right && a.bottom >= b.top && a.top <= b.bottom;
+	});
+
+const queryIds = (phase: BroadPhase, left: number, top: number, right: number, bottom: number): number[] => {
+	const out: PhysicsBody[] = [];
+	phase.query(left, top, right, bottom, out);
+	return out.map((b) => b.id).sort((a, b) => a - b);
+};
+
+describe("broad phases", () => {
+	const bodies = makeBodies();
+	const expected = overlapping(pairList(new BruteForce(), bodies), bodies);
+
+	it.each([
+		["grid", () => new UniformGrid(64)],
+		["grid with small cells", () => new UniformGrid(16)],
+		["sweep and prune", () => new SweepAndPrune()],
+	])("%s reports every overlapping pair exactly once", (_name, make) => {
+		const phase = make();
+		const pairs = pairList(phase, bodies);
+		expect(new Set(pairs).size).toBe(pairs.length);
+		expect(expected.length).toBeGreaterThan(50);
+		expect(overlapping(pairs, bodies)).toEqual(expected);
+	});
+
+	it.each([
+		["grid", () => new UniformGrid(64)],
+		["sweep and prune", () => new SweepAndPrune()],
+	])("%s answers box queries like the brute force", (_name, make) => {
+		const phase = make();
+		const brute = new BruteForce();
+		phase.update(bodies);
+		brute.update(bodies);
+		for (const [l, t, r, b] of [
+			[100, 100, 200, 200],
+			[-50, 390, 20, 420],
+			[0, 0, 1200, 1200],
+		]) {
+			expect(queryIds(phase, l, t, r, b)).toEqual(queryIds(brute, l, t, r, b));
+		}
+	});
+
+	it("keeps sweep and prune correct after bodies move", () => {
+		const phase = new SweepAndPrune();
+		const moving = makeBodies();
+		phase.update(moving);
+		for (const b of moving.slice(0, 150)) {
+			const dx = 1000 - 2 * b.bounds.left;
+			b.bounds.left += dx;
+			b.bounds.right += dx;
+		}
+		const brute = overlapping(pairList(new BruteForce(), moving), moving);
+		expect(overlapping(pairList(phase, moving), moving)).toEqual(brute);
+	});
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { PhysicsWorld } from "../src/physics-world";
+
+const shot = { type: "circle" as const, x: 0, y: 0, r: 2 };
+
+/** A shot moving at 1900 px/s (about 30 px per 16 ms step) towards a 2 px wall at x = 100..102 */
+const fireAtWall = (bullet: boolean) => {
+	const world = new PhysicsWorld();
+	world.gravity = 0;
+	world.addBody({ x: 100, y: -50, mass: 0, shape: { type: "aabb", x: 0, y: 0, w: 2, h: 100 } });
+	const id = world.addBody({ x: 0, y: 0, vx: 1900, restitution: 0, bullet, shape: shot });
+	for (let i = 0; i < 10; i++) world.update(16);
+	return { world, id };
+};
+
+describe("continuous collision", () => {
+	it("lets a fast body skip a thin wall between two steps without it", () => {
+		const { world, id } = fireAtWall(false);
+		expect(world.getBody(id)?.x).toBeGreaterThan(102);
+	});
+
+	it("stops a bullet at the wall instead of tunnelling through", () => {
+		const { world, id } = fireAtWall(true);
+		const x = world.getBody(id)?.x ?? Number.NaN;
+		expect(x).toBeLessThan(100);
+		expect(x).toBeGreaterThan(95);
+	});
+
+	it("sweeps against solid tiles too, and only while bullet is set", () => {
+		const tunnel = (bullet: boolean) => {
+			const world = new PhysicsWorld();
+			world.gravity = 0;
+			// 20x4 map of 4 px tiles with a one-tile wall at column 10 (world x 40..44)
+			world.setTileMap(
+				{
+					width: 20,
+					height: 4,
+					block_width: 4,
+					block_height: 4,
+					get: (x: number) => (x === 10 ? "wall" : null),
+				},
+				{ solid: ["wall"], flipY: false },
+			);
+			const id = world.addBody({ x: 0, y: 8, vx: 1900, restitution: 0, shape: shot });
+			world.setBullet(id, bullet);
+			for (let i = 0; i < 5; i++) world.update(16);
+			return world.getBody(id)?.x ?? Number.NaN;
+		};
+
+		expect(tunnel(true)).toBeLessThan(40);
+		expect(tunnel(false)).toBeGreaterThan(44);
+	});
+});
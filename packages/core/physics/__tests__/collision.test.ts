@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { CollisionResult } from "../src/body";
+import { PhysicsWorld } from "../src/physics-world";
+import type { Shape } from "../src/shapes";
+
+const box = (w: number, h: number): Shape => ({ type: "aabb", x: -w / 2, y: -h / 2, w, h });
+
+/** Drops a body of `shape` onto a static box whose top is at y = 100 and returns its last contact */
+const landOnGround = (shape: Shape, halfHeight: number) => {
+	const world = new PhysicsWorld();
+	world.addBody({ x: 0, y: 110, mass: 0, shape: box(200, 20), tag: "ground" });
+	const id = world.addBody({ x: 0, y: 100 - halfHeight - 20, restitution: 0, shape });
+	let hit: CollisionResult | null = null;
+	world.onCollide(id, (result) => {
+		hit = result;
+	});
+	for (let i = 0; i < 120; i++) world.update(16);
+	return { body: world.getBody(id), hit: hit as CollisionResult | null };
+};
+
+describe("Body contacts", () => {
+	it("keeps a box resting on top of a static box instead of pulling it in", () => {
+		const { body } = landOnGround(box(16, 16), 8);
+		expect(body?.y).toBeGreaterThan(91);
+		expect(body?.y).toBeLessThan(93);
+	});
+
+	it.each([
+		["box", box(16, 16)],
+		["circle", { type: "circle", x: 0, y: 0, r: 8 } as Shape],
+	])("reports the normal pointing away from the ground for a %s", (_, shape) => {
+		const { hit } = landOnGround(shape, 8);
+		expect(hit?.otherTag).toBe("ground");
+		expect(hit?.ny).toBeLessThan(-0.5);
+	});
+
+	it("gives both bodies of a pair opposite normals, each away from the other", () => {
+		const world = new PhysicsWorld();
+		world.gravity = 0;
+		const left = world.addBody({ x: 0, y: 0, shape: box(20, 20) });
+		const right = world.addBody({ x: 15, y: 0, shape: box(20, 20) });
+		const normals: Record<number, number> = {};
+		world.onCollide(left, (hit) => {
+			normals[left] = hit.nx;
+		});
+		world.onCollide(right, (hit) => {
+			normals[right] = hit.nx;
+		});
+		world.update(16);
+		expect(normals).toEqual({ [left]: -1, [right]: 1 });
+		expect(world.getBody(left)?.x).toBeLessThan(0);
+		expect(world.getBody(right)?.x).toBeGreaterThan(15);
+	});
+
+	it("reports tile contacts the same way", () => {
+		const world = new PhysicsWorld();
+		// 10x10 map of 16 px tiles with a solid bottom row, whose top is at y = 144
+		world.setTileMap(
+			{
+				width: 10,
+				height: 10,
+				block_width: 16,
+				block_height: 16,
+				get: (_x: number, y: number) => (y === 0 ? "wall" : null),
+			},
+			{ solid: ["wall"] },
+		);
+		const id = world.addBody({ x: 40, y: 100, restitution: 0, shape: box(16, 16) });
+		let hit: CollisionResult | null = null;
+		world.onCollide(id, (result) => {
+			hit = result;
+		});
+		for (let i = 0; i < 60; i++) world.update(16);
+		const last = hit as CollisionResult | null;
+		expect(world.getBody(id)?.y).toBeCloseTo(136, 0);
+		expect(last?.otherTag).toBe("tile");
+		expect(last?.ny).toBe(-1);
+	});
+
+	it("collides with the configured map layer only", () => {
+		// 10x10 map of 16 px tiles: the floor row is on the "collision" layer, layer 0 is decoration
+		const map = {
+			width: 10,
+			height: 10,
+			block_width: 16,
+			block_height: 16,
+			get: (_x: number, y: number, layer?: string | number) => (y === 0 && layer === "collision" ? "wall" : null),
+		};
+		const dropBox = (mapLayer?: string) => {
+			const world = new PhysicsWorld();
+			world.setTileMap(map, { solid: ["wall"], mapLayer });
+			const id = world.addBody({ x: 40, y: 100, restitution: 0, shape: box(16, 16) });
+			for (let i = 0; i < 60; i++) world.update(16);
+			return { y: world.getBody(id)?.y, solidAt: world.isSolidAt(40, 150) };
+		};
+
+		const onLayer = dropBox("collision");
+		expect(onLayer.y).toBeCloseTo(136, 0);
+		expect(onLayer.solidAt).toBe(true);
+		const onDefault = dropBox();
+		expect(onDefault.y).toBeGreaterThan(200);
+		expect(onDefault.solidAt).toBe(false);
+	});
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { CollisionResult } from "../src/body";
+import { PhysicsWorld } from "../src/physics-world";
+import type { Shape } from "../src/shapes";
+
+const box = (w: number, h: number): Shape => ({ type: "aabb", x: -w / 2, y: -h / 2, w, h });
+
+/** A static 40 px trigger zone at the origin and a 10 px player parked outside it, with gravity off */
+const makeZone = () => {
+	const world = new PhysicsWorld();
+	world.gravity = 0;
+	const zone = world.addBody({ x: 0, y: 0, mass: 0, isTrigger: true, tag: "zone", shape: box(40, 40) });
+	const player = world.addBody({ x: 100, y: 0, tag: "player", shape: box(10, 10) });
+	return { world, zone, player };
+};
+
+describe("contact events", () => {
+	it("fires enter once, stay while touching and exit once apart", () => {
+		const { world, zone, player } = makeZone();
+		const log: string[] = [];
+		world.onTriggerEnter(player, (hit) => log.push(`enter ${hit.otherTag}`));
+		world.onTriggerStay(player, () => log.push("stay"));
+		world.onTriggerExit(player, (hit) => log.push(`exit ${hit.otherTag}`));
+		world.onTriggerEnter(zone, (hit) => log.push(`zone enter ${hit.otherTag}`));
+
+		world.update(16);
+		expect(log).toEqual([]);
+		world.setPosition(player, 10, 0);
+		world.update(16);
+		world.update(16);
+		world.update(16);
+		world.setPosition(player, 100, 0);
+		world.update(16);
+		world.update(16);
+		// Both bodies of a pair hear about it, lower id first
+		expect(log).toEqual(["zone enter player", "enter zone", "stay", "stay", "exit zone"]);
+	});
+
+	it("keeps a resting contact open and reports it as a collision, not a trigger", () => {
+		const world = new PhysicsWorld();
+		world.addBody({ x: 0, y: 110, mass: 0, tag: "ground", shape: box(200, 20) });
+		const crate = world.addBody({ x: 0, y: 80, restitution: 0, shape: box(10, 10) });
+		const events: string[] = [];
+		for (const event of ["collisionEnter", "collisionExit", "triggerEnter", "triggerExit"] as const) {
+			world.on(crate, event, () => events.push(event));
+		}
+
+		for (let i = 0; i < 60; i++) world.update(16);
+		expect(events).toEqual(["collisionEnter"]);
+	});
+
+	it("ends contacts with a removed body and stops calling removed listeners", () => {
+		const { world, zone, player } = makeZone();
+		const exits: CollisionResult[] = [];
+		let stays = 0;
+		world.onTriggerExit(player, (hit) => exits.push(hit));
+		const stay = world.onTriggerStay(player, () => stays++);
+
+		world.setPosition(player, 10, 0);
+		world.update(16);
+		world.update(16);
+		expect(stays).toBe(1);
+		world.off(stay);
+		world.update(16);
+		expect(stays).toBe(1);
+
+		world.removeBody(zone);
+		expect(exits).toHaveLength(1);
+		expect(exits[0]).toMatchObject({ bodyId: player, otherId: zone, otherTag: "zone" });
+		world.update(16);
+		expect(exits).toHaveLength(1);
+		expect(world.on(zone, "triggerEnter", () => {})).toBe(-1);
+	});
+
+	it("publishes physics.* events to the sink once turned on, stay only when asked", () => {
+		const { world, zone, player } = makeZone();
+		const published: Array<{ name: string; bodyId: unknown; tag: unknown }> = [];
+		world.setEventSink((name, payload) => published.push({ name, bodyId: payload.bodyId, tag: payload.tag }));
+
+		world.setPosition(player, 10, 0);
+		world.update(16);
+		expect(published).toEqual([]);
+
+		world.setPosition(player, 100, 0);
+		world.update(16);
+		world.publishEvents(true);
+		world.setPosition(player, 10, 0);
+		world.update(16);
+		world.update(16);
+		world.setPosition(player, 100, 0);
+		world.update(16);
+		expect(published).toEqual([
+			{ name: "physics.triggerEnter", bodyId: zone, tag: "zone" },
+			{ name: "physics.triggerEnter", bodyId: player, tag: "player" },
+			{ name: "physics.triggerExit", bodyId: zone, tag: "zone" },
+			{ name: "physics.triggerExit", bodyId: player, tag: "player" },
+		]);
+
+		published.length = 0;
+		world.publishEvents(true, true);
+		world.setPosition(player, 10, 0);
+		world.update(16);
+		world.update(16);
+		expect(published.map((e) => e.name)).toEqual([
+			"physics.triggerEnter",
+			"physics.triggerEnter",
+			"physics.triggerStay",
+			"physics.triggerStay",
+		]);
+	});
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import { PhysicsWorld } from "../src/physics-world";
+
+const fakeContext = () => {
+	const ctx = {
+		save: vi.fn(),
+		restore: vi.fn(),
+		beginPath: vi.fn(),
+		closePath: vi.fn(),
+		rect: vi.fn(),
+		arc: vi.fn(),
+		moveTo: vi.fn(),
+		lineTo: vi.fn(),
+		fill: vi.fn(),
+		stroke: vi.fn(),
+		fillRect: vi.fn(),
+		setLineDash: vi.fn(),
+	};
+	return { ctx, canvas: ctx as unknown as CanvasRenderingContext2D };
+};
+
+/** A ball sunk 2 px into a static floor, so the next step has a contact */
+const makeWorld = () => {
+	const world = new PhysicsWorld();
+	world.addBody({ x: 0, y: 100, mass: 0, shape: { type: "aabb", x: -100, y: 0, w: 200, h: 20 } });
+	const ball = world.addBody({ x: 0, y: 94, shape: { type: "circle", x: 0, y: 0, r: 8 } });
+	return { world, ball };
+};
+
+describe("physics debug draw", () => {
+	it("draws nothing until turned on, and nothing once turned off", () => {
+		const { world, ball } = makeWorld();
+		const { ctx, canvas } = fakeContext();
+		expect(world.isDebugDrawing()).toBe(false);
+		world.update(16);
+		world.drawDebug(canvas);
+		expect(ctx.save).not.toHaveBeenCalled();
+
+		world.debugDraw(true);
+		world.setPosition(ball, 0, 94);
+		world.update(16);
+		world.drawDebug(canvas);
+		expect(world.isDebugDrawing()).toBe(true);
+		expect(ctx.rect).toHaveBeenCalledWith(-100, 100, 200, 20);
+		expect(ctx.arc).toHaveBeenCalledTimes(1);
+		expect(ctx.fillRect).toHaveBeenCalled();
+		expect(ctx.restore).toHaveBeenCalledTimes(1);
+
+		world.debugDraw(false);
+		world.drawDebug(canvas);
+		expect(ctx.save).toHaveBeenCalledTimes(1);
+	});
+
+	it("merges options and keeps them and the overlay across reset", () => {
+		const { world } = makeWorld();
+		world.debugDraw(true, { contacts: false });
+		world.debugDraw(true, { velocities: false });
+		world.reset();
+		world.addBody({ x: 0, y: 0, vx: 50, shape: { type: "circle", x: 0, y: 0, r: 8 } });
+		world.update(16);
+
+		const { ctx, canvas } = fakeContext();
+		world.drawDebug(canvas);
+		expect(world.isDebugDrawing()).toBe(true);
+		expect(ctx.arc).toHaveBeenCalledTimes(1);
+		expect(ctx.fillRect).not.toHaveBeenCalled();
+		expect(ctx.lineTo).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { PhysicsWorld } from "../src/physics-world";
+
+const rod = { type: "polygon" as const, x: 0, y: 0, points: [-20, -2, 20, -2, 20, 2, -20, 2] };
+const ball = { type: "circle" as const, x: 0, y: 0, r: 4 };
+
+describe("joints on rotating bodies", () => {
+	it("swings a rod pinned by its end around the pin", () => {
+		const world = new PhysicsWorld();
+		const id = world.addBody({ x: 20, y: 0, shape: rod });
+		const pin = world.addJoint({ type: "pin", a: id, ax: -20, ay: 0 });
+
+		for (let i = 0; i < 30; i++) world.update(1000 / 60);
+
+		const body = world.getBody(id);
+		const joint = world.getJoint(pin);
+		expect(Math.abs(body?.angle ?? 0)).toBeGreaterThan(30);
+		expect(Math.hypot(joint?.ax ?? 0, joint?.ay ?? 0)).toBeLessThan(1);
+		// The centre stays on the circle the rod's half length draws around the pin
+		expect(Math.hypot(body?.x ?? 0, body?.y ?? 0)).toBeCloseTo(20, 0);
+	});
+
+	it("reports anchors turned with their body", () => {
+		const world = new PhysicsWorld();
+		const a = world.addBody({ x: 0, y: 0, shape: rod, mass: 0, angle: 90 });
+		const b = world.addBody({ x: 0, y: 50, shape: ball });
+		const joint = world.addJoint({ type: "distance", a, b, ax: 20, ay: 0 });
+
+		const anchors = world.getJoint(joint);
+		expect(anchors?.ax).toBeCloseTo(0, 6);
+		expect(anchors?.ay).toBeCloseTo(20, 6);
+		expect(anchors?.length).toBeCloseTo(30, 6);
+	});
+
+	it("gives circles no inertia since their shape ignores rotation", () => {
+		const world = new PhysicsWorld();
+		const circle = world.addBody({ x: 0, y: 0, shape: { ...ball, x: 6 } });
+		const polygon = world.addBody({ x: 0, y: 0, shape: rod });
+
+		world.applyAngularImpulse(circle, 100);
+		world.applyAngularImpulse(polygon, 100);
+
+		expect(world.getBody(circle)?.angularVelocity).toBe(0);
+		expect(world.getBody(polygon)?.angularVelocity).not.toBe(0);
+	});
+});
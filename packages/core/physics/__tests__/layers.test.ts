@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { ALL_LAYERS, CollisionLayers, DEFAULT_CATEGORY } from "../src/layers";
+import { PhysicsWorld } from "../src/physics-world";
+import type { Shape } from "../src/shapes";
+
+const box = (w: number, h: number): Shape => ({ type: "aabb", x: -w / 2, y: -h / 2, w, h });
+
+/** A 10 px box dropped onto a static floor whose top is at y = 100 */
+const dropOnFloor = (floor: { layer?: string; mask?: string | string[] }, body: { layer?: string; mask?: string }) => {
+	const world = new PhysicsWorld();
+	world.addBody({ x: 0, y: 110, mass: 0, shape: box(200, 20), ...floor });
+	const id = world.addBody({ x: 0, y: 80, restitution: 0, shape: box(10, 10), ...body });
+	return { world, id };
+};
+
+const settle = (world: PhysicsWorld) => {
+	for (let i = 0; i < 60; i++) world.update(16);
+};
+
+/** Resting on the floor leaves the 10 px box centred near y = 95, give or take the solver's slop */
+const expectOnFloor = (world: PhysicsWorld, id: number) => {
+	const y = world.getBody(id)?.y ?? 0;
+	expect(y).toBeGreaterThan(94);
+	expect(y).toBeLessThan(97);
+};
+
+describe("CollisionLayers", () => {
+	it("gives each new name the next free bit after default", () => {
+		const layers = new CollisionLayers();
+		expect(layers.bit("default")).toBe(DEFAULT_CATEGORY);
+		expect(layers.bit("player")).toBe(2);
+		expect(layers.bit("enemy")).toBe(4);
+		expect(layers.bit("player")).toBe(2);
+		expect(layers.resolve(["player", "enemy"], 0)).toBe(6);
+		expect(layers.resolve("all", 0)).toBe(ALL_LAYERS);
+		expect(layers.resolve(undefined, 9)).toBe(9);
+		expect(layers.names(7)).toEqual(["default", "player", "enemy"]);
+	});
+
+	it("throws once all 32 bits are taken, and frees them on reset", () => {
+		const layers = new CollisionLayers();
+		for (let i = 1; i < 32; i++) layers.bit(`layer${i}`);
+		expect(layers.bit("layer31")).toBe(0x80000000);
+		expect(() => layers.bit("one too many")).toThrow(/Too many collision layers/);
+
+		layers.reset();
+		expect(layers.bit("one too many")).toBe(2);
+	});
+});
+
+describe("PhysicsWorld layers and masks", () => {
+	it("collides bodies whose layers are in each other's masks", () => {
+		const { world, id } = dropOnFloor({ layer: "ground" }, { layer: "player", mask: "ground" });
+		settle(world);
+		expectOnFloor(world, id);
+		expect(world.getBody(id)?.layers).toEqual(["player"]);
+	});
+
+	it("lets a body fall through when either side's mask leaves the other out", () => {
+		const oneWay = dropOnFloor({ layer: "ground", mask: "enemy" }, { layer: "player" });
+		settle(oneWay.world);
+		expect(oneWay.world.getBody(oneWay.id)?.y).toBeGreaterThan(200);
+
+		const otherWay = dropOnFloor({ layer: "ground" }, { layer: "player", mask: "enemy" });
+		settle(otherWay.world);
+		expect(otherWay.world.getBody(otherWay.id)?.y).toBeGreaterThan(200);
+	});
+
+	it("changes what a body collides with through setLayer", () => {
+		const { world, id } = dropOnFloor({ layer: "ground" }, { mask: "enemy" });
+		world.setLayer(id, "player", ["ground", "enemy"]);
+		settle(world);
+		expectOnFloor(world, id);
+	});
+
+	it("filters queries by mask, allocating a bit for a name no body uses", () => {
+		const world = new PhysicsWorld();
+		const player = world.addBody({ x: 0, y: 0, mass: 0, layer: "player", shape: box(10, 10) });
+		const crate = world.addBody({ x: 5, y: 0, mass: 0, shape: box(10, 10) });
+
+		expect(world.query(-20, -20, 40, 40)).toEqual([player, crate]);
+		expect(world.query(-20, -20, 40, 40, "player")).toEqual([player]);
+		expect(world.query(-20, -20, 40, 40, ["player", "default"])).toEqual([player, crate]);
+		expect(world.query(-20, -20, 40, 40, "pickup")).toEqual([]);
+		expect(world.layerBit("pickup")).toBe(4);
+	});
+});
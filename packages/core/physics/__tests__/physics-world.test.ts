@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { PhysicsWorld } from "../src/physics-world";
+
+const ball = { type: "circle" as const, x: 0, y: 0, r: 4 };
+
+/** Runs `frames` updates of `1000 / hz` ms, calling `input` after each like a game's update() */
+const runFrames = (world: PhysicsWorld, hz: number, frames: number, input: (time: number) => void) => {
+	const dt = 1000 / hz;
+	for (let i = 1; i <= frames; i++) {
+		world.update(dt);
+		input(i * dt);
+	}
+};
+
+describe("PhysicsWorld fixed step", () => {
+	it.each([30, 60, 144])("gives the same velocity for the same forces at %i Hz", (hz) => {
+		const world = new PhysicsWorld({ fixedStep: 15 });
+		world.gravity = 0;
+		const id = world.addBody({ x: 0, y: 0, shape: ball });
+
+		// 100 N on 1 kg for the first half second, then coasting
+		runFrames(world, hz, hz, (time) => {
+			if (time <= 500 + 1e-6) world.applyForce(id, 100, 0);
+		});
+
+		expect(world.getBody(id)?.vx).toBeCloseTo(50, 6);
+	});
+
+	it("keeps a force applied in a frame that runs no step", () => {
+		const world = new PhysicsWorld({ fixedStep: 20 });
+		world.gravity = 0;
+		const id = world.addBody({ x: 0, y: 0, shape: ball });
+
+		world.update(5);
+		world.applyForce(id, 100, 0);
+		world.update(5);
+		expect(world.getStats().tick).toBe(0);
+		world.update(10);
+		expect(world.getStats().tick).toBe(1);
+
+		// The force acted over the 5 ms frame that followed it
+		expect(world.getBody(id)?.vx).toBeCloseTo(0.5, 6);
+	});
+
+	it("steps once per update with the frame delta without a fixed step", () => {
+		const world = new PhysicsWorld();
+		world.gravity = 0;
+		const id = world.addBody({ x: 0, y: 0, shape: ball });
+		world.applyForce(id, 100, 0);
+		world.update(20);
+		world.update(20);
+		expect(world.getStats().tick).toBe(2);
+		expect(world.getBody(id)?.vx).toBeCloseTo(2, 6);
+	});
+});
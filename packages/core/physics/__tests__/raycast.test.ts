@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { PhysicsWorld } from "../src/physics-world";
+
+const box = (w: number, h: number) => ({ type: "aabb" as const, x: 0, y: 0, w, h });
+
+/** Two 20 px static boxes on the x axis, at x 100..120 and 200..220, plus a circle of radius 10 at (300, 10) */
+const makeWorld = () => {
+	const world = new PhysicsWorld();
+	const near = world.addBody({ x: 100, y: 0, mass: 0, tag: "near", shape: box(20, 20) });
+	const far = world.addBody({ x: 200, y: 0, mass: 0, layer: "walls", shape: box(20, 20) });
+	const ball = world.addBody({ x: 300, y: 10, mass: 0, shape: { type: "circle", x: 0, y: 0, r: 10 } });
+	return { world, near, far, ball };
+};
+
+describe("PhysicsWorld raycasts", () => {
+	it("returns the nearest hit with its point, normal and fraction", () => {
+		const { world, near } = makeWorld();
+		const hit = world.raycast(0, 10, 400, 10);
+		expect(hit).toMatchObject({ bodyId: near, tag: "near", x: 100, y: 10, nx: -1, ny: 0 });
+		expect(hit?.fraction).toBeCloseTo(0.25, 9);
+	});
+
+	it("skips the ignored body and bodies outside the mask", () => {
+		const { world, near, far, ball } = makeWorld();
+		expect(world.raycast(0, 10, 400, 10, undefined, near)?.bodyId).toBe(far);
+		expect(world.raycast(0, 10, 400, 10, "walls")?.bodyId).toBe(far);
+		expect(world.raycast(0, 10, 400, 10, "default", near)?.bodyId).toBe(ball);
+	});
+
+	it("lists every body along the ray, nearest first", () => {
+		const { world, near, far, ball } = makeWorld();
+		const hits = world.raycastAll(0, 10, 400, 10);
+		expect(hits.map((h) => h.bodyId)).toEqual([near, far, ball]);
+		expect(hits[2].x).toBeCloseTo(290, 9);
+	});
+
+	it("misses when the segment stops short or passes by", () => {
+		const { world } = makeWorld();
+		expect(world.raycast(0, 10, 90, 10)).toBeNull();
+		expect(world.raycast(0, 40, 400, 40)).toBeNull();
+	});
+
+	it("hits earlier with a shape cast, reporting the shape's centre", () => {
+		const { world, near } = makeWorld();
+		const circle = world.circleCast(0, 10, 400, 10, 5);
+		expect(circle?.bodyId).toBe(near);
+		expect(circle?.x).toBeCloseTo(95, 9);
+
+		// A box cast passing just above the boxes still clips them with its lower half
+		const boxHit = world.boxCast(0, -8, 400, -8, 10, 20);
+		expect(boxHit?.bodyId).toBe(near);
+		expect(boxHit?.x).toBeCloseTo(95, 9);
+		expect(world.boxCast(0, -12, 400, -12, 10, 20)).toBeNull();
+	});
+
+	it("stops at solid tiles and reports their cell", () => {
+		const world = new PhysicsWorld();
+		// 10x10 map of 16 px tiles, solid column at x = 5 (world x 80..96)
+		world.setTileMap(
+			{
+				width: 10,
+				height: 10,
+				block_width: 16,
+				block_height: 16,
+				get: (x: number) => (x === 5 ? "wall" : null),
+			},
+			{ solid: ["wall"], flipY: false },
+		);
+		const hit = world.raycast(8, 40, 150, 40);
+		expect(hit).toMatchObject({ bodyId: -1, tag: "tile", tileX: 5, tileY: 2, nx: -1, ny: 0 });
+		expect(hit?.x).toBeCloseTo(80, 9);
+	});
+});
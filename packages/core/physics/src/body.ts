@@ -1,4 +1,7 @@
-import type { Shape } from "./shapes";
+import { ALL_LAYERS, DEFAULT_CATEGORY, type LayerSpec } from "./layers";
+import { type Bounds, computeBounds, type Shape, shapeInertia } from "./shapes";
+
+export const DEG_TO_RAD = Math.PI / 180;
 
 export interface PhysicsBodyConfig {
 	x: number;
@@ -12,55 +15,110 @@ export interface PhysicsBodyConfig {
 	shape: Shape;
 	isTrigger?: boolean;
 	tag?: string;
+	/** Layer(s) this body belongs to. Defaults to "default". */
+	layer?: LayerSpec;
+	/** Layers this body collides with. Defaults to "all". */
+	mask?: LayerSpec;
+	/** Sweep this body's motion each step so it cannot tunnel through thin geometry */
+	bullet?: boolean;
+	/** Rotation in degrees, like screen rotations. Positive turns from +x towards +y. */
+	angle?: number;
+	/** Degrees per second. Bodies with mass 0 still turn, so spinning hazards can be static. */
+	angularVelocity?: number;
+	/** Keep the body upright: contacts never turn it. Handy for character capsules. */
+	fixedRotation?: boolean;
 }
 
 export interface CollisionResult {
 	bodyId: number;
+	/** Id of the other body, or -1 when the contact is with a tile */
 	otherId: number;
 	otherTag: string;
+	/** Unit normal pointing away from the other body or tile: the way this body is pushed out */
 	nx: number;
 	ny: number;
 	depth: number;
+	/** Grid cell of the tile, for tile contacts */
+	tileX?: number;
+	tileY?: number;
 }
 
 export interface PhysicsBody {
 	id: number;
 	x: number;
 	y: number;
+	/** Position at the start of the last step */
+	prevX: number;
+	prevY: number;
 	vx: number;
 	vy: number;
+	/** Rotation in radians about the body origin */
+	angle: number;
+	prevAngle: number;
+	/** Radians per second */
+	angularVelocity: number;
+	/** 0 for bodies contacts cannot turn: static, fixed-rotation, AABB or circle */
+	invInertia: number;
+	/** Acceleration from applyForce, acting over the time of the next update */
 	ax: number;
 	ay: number;
+	/** Velocity change owed by forces over frame time that no fixed step has covered yet */
+	carryVx: number;
+	carryVy: number;
 	mass: number;
 	invMass: number;
 	friction: number;
 	restitution: number;
 	gravityScale: number;
 	shape: Shape;
+	/** World-space bounding box, refreshed by the world before each broad-phase pass */
+	bounds: Bounds;
 	isTrigger: boolean;
 	tag: string;
+	category: number;
+	mask: number;
+	bullet: boolean;
 	active: boolean;
 	onCollide: ((result: CollisionResult) => void) | null;
 }
 
-export function createBody(id: number, config: PhysicsBodyConfig): PhysicsBody {
+export function createBody(
+	id: number,
+	config: PhysicsBodyConfig,
+	category = DEFAULT_CATEGORY,
+	mask = ALL_LAYERS,
+): PhysicsBody {
 	const mass = config.mass ?? 1;
+	const angle = (config.angle ?? 0) * DEG_TO_RAD;
+	const inertia = mass === 0 || config.fixedRotation ? 0 : shapeInertia(config.shape, mass);
 	return {
 		id,
 		x: config.x,
 		y: config.y,
+		prevX: config.x,
+		prevY: config.y,
 		vx: config.vx ?? 0,
 		vy: config.vy ?? 0,
+		angle,
+		prevAngle: angle,
+		angularVelocity: (config.angularVelocity ?? 0) * DEG_TO_RAD,
+		invInertia: inertia > 0 ? 1 / inertia : 0,
 		ax: 0,
 		ay: 0,
+		carryVx: 0,
+		carryVy: 0,
 		mass,
 		invMass: mass === 0 ? 0 : 1 / mass,
 		friction: config.friction ?? 0,
 		restitution: config.restitution ?? 0.2,
 		gravityScale: config.gravityScale ?? 1,
 		shape: config.shape,
+		bounds: computeBounds(config.shape, config.x, config.y, { left: 0, top: 0, right: 0, bottom: 0 }, angle),
 		isTrigger: config.isTrigger ?? false,
 		tag: config.tag ?? "",
+		category,
+		mask,
+		bullet: config.bullet ?? false,
 		active: true,
 		onCollide: null,
 	};
@@ -0,0 +1,233 @@
+import type { PhysicsBody } from "./body";
+
+export type BroadphaseType = "grid" | "sap" | "none";
+
+export type PairCallback = (a: PhysicsBody, b: PhysicsBody) => void;
+
+/**
+ * Broad phase: narrows the set of body pairs (and query hits) that need an
+ * exact shape test. Implementations read `body.bounds`, which the world
+ * refreshes before calling `update`.
+ */
+export interface BroadPhase {
+	readonly type: BroadphaseType;
+	update(bodies: PhysicsBody[]): void;
+	/** Calls `cb` once per potentially overlapping pair, lower id first */
+	pairs(cb: PairCallback): void;
+	/** Pushes every body whose bounds may overlap the given box into `out` */
+	query(left: number, top: number, right: number, bottom: number, out: PhysicsBody[]): void;
+}
+
+function overlaps(a: PhysicsBody, b: PhysicsBody): boolean {
+	const ab = a.bounds;
+	const bb = b.bounds;
+	return ab.right >= bb.left && ab.left <= bb.right && ab.bottom >= bb.top && ab.top <= bb.bottom;
+}
+
+function ordered(a: PhysicsBody, b: PhysicsBody, cb: PairCallback): void {
+	if (a.id < b.id) cb(a, b);
+	else cb(b, a);
+}
+
+/** Tests every pair. Kept for tiny worlds and as a baseline when measuring. */
+export class BruteForce implements BroadPhase {
+	readonly type = "none";
+	private bodies: PhysicsBody[] = [];
+
+	update(bodies: PhysicsBody[]): void {
+		this.bodies = bodies;
+	}
+
+	pairs(cb: PairCallback): void {
+		const list = this.bodies;
+		for (let i = 0; i < list.length; i++) {
+			for (let j = i + 1; j < list.length; j++) {
+				ordered(list[i], list[j], cb);
+			}
+		}
+	}
+
+	query(left: number, top: number, right: number, bottom: number, out: PhysicsBody[]): void {
+		for (const b of this.bodies) {
+			const bb = b.bounds;
+			if (bb.right >= left && bb.left <= right && bb.bottom >= top && bb.top <= bottom) out.push(b);
+		}
+	}
+}
+
+// Bodies spanning more cells than this (long floors, walls) skip the grid and
+// are paired against everything instead of being copied into every cell.
+const MAX_CELLS_PER_BODY = 64;
+const CELL_KEY_OFFSET = 0x100000;
+
+function cellKey(cx: number, cy: number): number {
+	return (cx + CELL_KEY_OFFSET) * 0x200000 + (cy + CELL_KEY_OFFSET);
+}
+
+/** Uniform spatial hash. Best when bodies are of similar size to `cellSize`. */
+export class UniformGrid implements BroadPhase {
+	readonly type = "grid";
+	cellSize: number;
+
+	private cells: Map<number, PhysicsBody[]> = new Map();
+	private cellPool: PhysicsBody[][] = [];
+	private large: PhysicsBody[] = [];
+	private small: PhysicsBody[] = [];
+
+	constructor(cellSize = 64) {
+		this.cellSize = cellSize > 0 ? cellSize : 64;
+	}
+
+	update(bodies: PhysicsBody[]): void {
+		for (const list of this.cells.values()) {
+			list.length = 0;
+			this.cellPool.push(list);
+		}
+		this.cells.clear();
+		this.large.length = 0;
+		this.small.length = 0;
+
+		const size = this.cellSize;
+		for (const b of bodies) {
+			const bb = b.bounds;
+			const x0 = Math.floor(bb.left / size);
+			const y0 = Math.floor(bb.top / size);
+			const x1 = Math.floor(bb.right / size);
+			const y1 = Math.floor(bb.bottom / size);
+			if ((x1 - x0 + 1) * (y1 - y0 + 1) > MAX_CELLS_PER_BODY) {
+				this.large.push(b);
+				continue;
+			}
+			this.small.push(b);
+			for (let cy = y0; cy <= y1; cy++) {
+				for (let cx = x0; cx <= x1; cx++) {
+					const key = cellKey(cx, cy);
+					let list = this.cells.get(key);
+					if (!list) {
+						list = this.cellPool.pop() ?? [];
+						this.cells.set(key, list);
+					}
+					list.push(b);
+				}
+			}
+		}
+	}
+
+	pairs(cb: PairCallback): void {
+		const size = this.cellSize;
+
+		for (const [key, list] of this.cells) {
+			for (let i = 0; i < list.length; i++) {
+				const a = list[i];
+				for (let j = i + 1; j < list.length; j++) {
+					const b = list[j];
+					if (!overlaps(a, b)) continue;
+					// A pair sharing several cells is reported only from the cell holding
+					// the top-left corner of their overlap, so no dedup set is needed.
+					const ox = Math.floor(Math.max(a.bounds.left, b.bounds.left) / size);
+					const oy = Math.floor(Math.max(a.bounds.top, b.bounds.top) / size);
+					if (cellKey(ox, oy) === key) ordered(a, b, cb);
+				}
+			}
+		}
+
+		const large = this.large;
+		for (let i = 0; i < large.length; i++) {
+			for (let j = i + 1; j < large.length; j++) {
+				if (overlaps(large[i], large[j])) ordered(large[i], large[j], cb);
+			}
+			for (const b of this.small) {
+				if (overlaps(large[i], b)) ordered(large[i], b, cb);
+			}
+		}
+	}
+
+	query(left: number, top: number, right: number, bottom: number, out: PhysicsBody[]): void {
+		const size = this.cellSize;
+		const x0 = Math.floor(left / size);
+		const y0 = Math.floor(top / size);
+		const x1 = Math.floor(right / size);
+		const y1 = Math.floor(bottom / size);
+
+		const seen = new Set<PhysicsBody>();
+		const visit = (b: PhysicsBody) => {
+			if (seen.has(b)) return;
+			seen.add(b);
+			const bb = b.bounds;
+			if (bb.right >= left && bb.left <= right && bb.bottom >= top && bb.top <= bottom) out.push(b);
+		};
+
+		if ((x1 - x0 + 1) * (y1 - y0 + 1) > this.cells.size) {
+			// Query covers more cells than are occupied — walk the occupied ones instead
+			for (const b of this.small) visit(b);
+		} else {
+			for (let cy = y0; cy <= y1; cy++) {
+				for (let cx = x0; cx <= x1; cx++) {
+					const list = this.cells.get(cellKey(cx, cy));
+					if (list) for (const b of list) visit(b);
+				}
+			}
+		}
+		for (const b of this.large) visit(b);
+	}
+}
+
+/** Sort-and-sweep along the x axis. Best for worlds spread out horizontally. */
+export class SweepAndPrune implements BroadPhase {
+	readonly type = "sap";
+	private sorted: PhysicsBody[] = [];
+
+	update(bodies: PhysicsBody[]): void {
+		// Keep last frame's order so the insertion sort below stays near-linear
+		const present = new Set(bodies);
+		const next = this.sorted.filter((b) => present.has(b));
+		const known = new Set(next);
+		for (const b of bodies) {
+			if (!known.has(b)) next.push(b);
+		}
+
+		for (let i = 1; i < next.length; i++) {
+			const b = next[i];
+			const left = b.bounds.left;
+			let j = i - 1;
+			while (j >= 0 && next[j].bounds.left > left) {
+				next[j + 1] = next[j];
+				j--;
+			}
+			next[j + 1] = b;
+		}
+		this.sorted = next;
+	}
+
+	pairs(cb: PairCallback): void {
+		const list = this.sorted;
+		for (let i = 0; i < list.length; i++) {
+			const a = list[i];
+			const right = a.bounds.right;
+			for (let j = i + 1; j < list.length; j++) {
+				const b = list[j];
+				if (b.bounds.left > right) break;
+				if (a.bounds.bottom >= b.bounds.top && a.bounds.top <= b.bounds.bottom) ordered(a, b, cb);
+			}
+		}
+	}
+
+	query(left: number, top: number, right: number, bottom: number, out: PhysicsBody[]): void {
+		for (const b of this.sorted) {
+			const bb = b.bounds;
+			if (bb.left > right) break;
+			if (bb.right >= left && bb.bottom >= top && bb.top <= bottom) out.push(b);
+		}
+	}
+}
+
+export function createBroadPhase(type: BroadphaseType, cellSize?: number): BroadPhase {
+	switch (type) {
+		case "sap":
+			return new SweepAndPrune();
+		case "none":
+			return new BruteForce();
+		default:
+			return new UniformGrid(cellSize);
+	}
+}
@@ -1,7 +1,7 @@
 import type { AABB, Circle } from "./shapes";
 import type { PhysicsBody } from "./body";
 
-interface Hit {
+export interface Hit {
 	nx: number;
 	ny: number;
 	depth: number;
@@ -23,11 +23,12 @@ export function testAABBvsAABB(ax: number, ay: number, a: AABB, bx: number, by:
 	const overlapX = Math.min(aright, bright) - Math.max(aleft, bleft);
 	const overlapY = Math.min(abottom, bbottom) - Math.max(atop, btop);
 
+	// Normal points from A towards B, matching the circle tests
 	if (overlapX < overlapY) {
-		const nx = aleft < bleft ? -1 : 1;
+		const nx = aleft < bleft ? 1 : -1;
 		return { nx, ny: 0, depth: overlapX };
 	}
-	const ny = atop < btop ? -1 : 1;
+	const ny = atop < btop ? 1 : -1;
 	return { nx: 0, ny, depth: overlapY };
 }
 
@@ -71,29 +72,126 @@ export function testAABBvsCircle(ax: number, ay: number, a: AABB, bx: number, by
 	return { nx: dx / dist, ny: dy / dist, depth: b.r - dist };
 }
 
-export function resolveCollision(bodyA: PhysicsBody, bodyB: PhysicsBody, nx: number, ny: number, depth: number): void {
+/**
+ * Pushes two bodies apart and applies the bounce impulse. With a contact point
+ * (px, py) the impulse also turns bodies that can rotate.
+ */
+export function resolveCollision(
+	bodyA: PhysicsBody,
+	bodyB: PhysicsBody,
+	nx: number,
+	ny: number,
+	depth: number,
+	px?: number,
+	py?: number,
+): void {
 	const totalInvMass = bodyA.invMass + bodyB.invMass;
 	if (totalInvMass === 0) return;
 
-	// Positional correction (Baumgarte) — small fraction per frame
+	// Lever arms are measured before the correction moves the bodies
+	applyContactImpulse(bodyA, bodyB, nx, ny, px, py);
+	correctPositions(bodyA, bodyB, nx, ny, depth);
+}
+
+/** Positional correction (Baumgarte) — small fraction per frame */
+export function correctPositions(bodyA: PhysicsBody, bodyB: PhysicsBody, nx: number, ny: number, depth: number): void {
+	const totalInvMass = bodyA.invMass + bodyB.invMass;
+	if (totalInvMass === 0) return;
 	const correction = (Math.max(depth - 0.5, 0) / totalInvMass) * 0.4;
 	bodyA.x -= nx * correction * bodyA.invMass;
 	bodyA.y -= ny * correction * bodyA.invMass;
 	bodyB.x += nx * correction * bodyB.invMass;
 	bodyB.y += ny * correction * bodyB.invMass;
+}
+
+// Passes over a two-point contact; enough for the pair to settle without rocking
+const MANIFOLD_ITERATIONS = 4;
+
+/**
+ * Bounce impulses for a face-to-face contact with points (x1, y1) and (x2, y2),
+ * iterated so that neither end keeps sinking and the bodies settle flat.
+ */
+export function applyManifoldImpulse(
+	bodyA: PhysicsBody,
+	bodyB: PhysicsBody,
+	nx: number,
+	ny: number,
+	x1: number,
+	y1: number,
+	x2: number,
+	y2: number,
+): void {
+	if (bodyA.invMass + bodyB.invMass === 0) return;
+	const restitution = Math.min(bodyA.restitution, bodyB.restitution);
+	const px = [x1, x2];
+	const py = [y1, y2];
+	const target = [0, 0];
+	const total = [0, 0];
+	for (let i = 0; i < 2; i++) {
+		const vn = normalVelocity(bodyA, bodyB, nx, ny, px[i], py[i]);
+		target[i] = vn < 0 ? -restitution * vn : 0;
+	}
+	for (let iter = 0; iter < MANIFOLD_ITERATIONS; iter++) {
+		for (let i = 0; i < 2; i++) {
+			const vn = normalVelocity(bodyA, bodyB, nx, ny, px[i], py[i]);
+			const raN = (px[i] - bodyA.x) * ny - (py[i] - bodyA.y) * nx;
+			const rbN = (px[i] - bodyB.x) * ny - (py[i] - bodyB.y) * nx;
+			const invEffMass = bodyA.invMass + bodyB.invMass + raN * raN * bodyA.invInertia + rbN * rbN * bodyB.invInertia;
+			// Accumulated impulses may shrink but never pull the bodies together
+			const next = Math.max(0, total[i] + (target[i] - vn) / invEffMass);
+			const impulse = next - total[i];
+			total[i] = next;
+			bodyA.vx -= impulse * nx * bodyA.invMass;
+			bodyA.vy -= impulse * ny * bodyA.invMass;
+			bodyB.vx += impulse * nx * bodyB.invMass;
+			bodyB.vy += impulse * ny * bodyB.invMass;
+			bodyA.angularVelocity -= impulse * raN * bodyA.invInertia;
+			bodyB.angularVelocity += impulse * rbN * bodyB.invInertia;
+		}
+	}
+}
 
-	// Relative velocity along normal
-	const rvx = bodyB.vx - bodyA.vx;
-	const rvy = bodyB.vy - bodyA.vy;
+function normalVelocity(a: PhysicsBody, b: PhysicsBody, nx: number, ny: number, px: number, py: number): number {
+	const rvx = b.vx - b.angularVelocity * (py - b.y) - (a.vx - a.angularVelocity * (py - a.y));
+	const rvy = b.vy + b.angularVelocity * (px - b.x) - (a.vy + a.angularVelocity * (px - a.x));
+	return rvx * nx + rvy * ny;
+}
+
+/** Bounce impulse at one contact point; without a point it acts through both origins */
+export function applyContactImpulse(
+	bodyA: PhysicsBody,
+	bodyB: PhysicsBody,
+	nx: number,
+	ny: number,
+	px?: number,
+	py?: number,
+): void {
+	const totalInvMass = bodyA.invMass + bodyB.invMass;
+	if (totalInvMass === 0) return;
+
+	const rax = px === undefined ? 0 : px - bodyA.x;
+	const ray = py === undefined ? 0 : py - bodyA.y;
+	const rbx = px === undefined ? 0 : px - bodyB.x;
+	const rby = py === undefined ? 0 : py - bodyB.y;
+
+	// Relative velocity of the contact points along normal
+	const rvx = bodyB.vx - bodyB.angularVelocity * rby - (bodyA.vx - bodyA.angularVelocity * ray);
+	const rvy = bodyB.vy + bodyB.angularVelocity * rbx - (bodyA.vy + bodyA.angularVelocity * rax);
 	const velAlongNormal = rvx * nx + rvy * ny;
 
 	if (velAlongNormal > 0) return; // Already separating
 
+	const raN = rax * ny - ray * nx;
+	const rbN = rbx * ny - rby * nx;
+	const invEffMass = totalInvMass + raN * raN * bodyA.invInertia + rbN * rbN * bodyB.invInertia;
+
 	const restitution = Math.min(bodyA.restitution, bodyB.restitution);
-	const impulseMag = (-(1 + restitution) * velAlongNormal) / totalInvMass;
+	const impulseMag = (-(1 + restitution) * velAlongNormal) / invEffMass;
 
 	bodyA.vx -= impulseMag * nx * bodyA.invMass;
 	bodyA.vy -= impulseMag * ny * bodyA.invMass;
 	bodyB.vx += impulseMag * nx * bodyB.invMass;
 	bodyB.vy += impulseMag * ny * bodyB.invMass;
+	bodyA.angularVelocity -= impulseMag * raN * bodyA.invInertia;
+	bodyB.angularVelocity += impulseMag * rbN * bodyB.invInertia;
 }
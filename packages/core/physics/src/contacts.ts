@@ -0,0 +1,78 @@
+import type { CollisionResult } from "./body";
+
+export type ContactEvent =
+	| "collisionEnter"
+	| "collisionStay"
+	| "collisionExit"
+	| "triggerEnter"
+	| "triggerStay"
+	| "triggerExit";
+
+export type ContactPhase = "enter" | "stay" | "exit";
+
+export type ContactCallback = (result: CollisionResult) => void;
+
+export interface Contact {
+	/** Lower body id of the pair */
+	a: number;
+	/** Higher body id of the pair, or -1 for a body touching tiles */
+	b: number;
+	trigger: boolean;
+	/** The contact as seen from `a` */
+	resultA: CollisionResult;
+	/** The contact as seen from `b`; null for tile contacts */
+	resultB: CollisionResult | null;
+}
+
+export function contactEventName(trigger: boolean, phase: ContactPhase): ContactEvent {
+	if (trigger) return phase === "enter" ? "triggerEnter" : phase === "stay" ? "triggerStay" : "triggerExit";
+	return phase === "enter" ? "collisionEnter" : phase === "stay" ? "collisionStay" : "collisionExit";
+}
+
+/**
+ * Diffs the contacts found in consecutive steps into enter / stay / exit phases.
+ * Tile contacts are tracked per body, not per tile, so walking across a floor
+ * made of many tiles stays a single contact.
+ */
+export class ContactTracker {
+	private current: Map<string, Contact> = new Map();
+	private next: Map<string, Contact> = new Map();
+
+	add(contact: Contact): void {
+		const key = contact.b === -1 ? `${contact.a}:tile` : `${contact.a}:${contact.b}`;
+		if (!this.next.has(key)) this.next.set(key, contact);
+	}
+
+	/** Closes the step and returns every contact with its phase */
+	end(): Array<{ contact: Contact; phase: ContactPhase }> {
+		const events: Array<{ contact: Contact; phase: ContactPhase }> = [];
+		for (const [key, contact] of this.next) {
+			events.push({ contact, phase: this.current.has(key) ? "stay" : "enter" });
+		}
+		for (const [key, contact] of this.current) {
+			if (!this.next.has(key)) events.push({ contact, phase: "exit" });
+		}
+		const previous = this.current;
+		this.current = this.next;
+		this.next = previous;
+		this.next.clear();
+		return events;
+	}
+
+	/** Drops every contact involving `id` and returns them so their exits can be reported */
+	removeBody(id: number): Contact[] {
+		const removed: Contact[] = [];
+		for (const [key, contact] of this.current) {
+			if (contact.a === id || contact.b === id) {
+				removed.push(contact);
+				this.current.delete(key);
+			}
+		}
+		return removed;
+	}
+
+	clear(): void {
+		this.current.clear();
+		this.next.clear();
+	}
+}
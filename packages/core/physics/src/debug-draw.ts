@@ -0,0 +1,152 @@
+import type { PhysicsBody } from "./body";
+import { type Joint, jointAnchors } from "./joints";
+import { toConvex } from "./sat";
+
+export interface DebugDrawOptions {
+	shapes?: boolean;
+	velocities?: boolean;
+	contacts?: boolean;
+	joints?: boolean;
+	/** Pick each body's colour from its lowest layer bit or from a hash of its tag */
+	colorBy?: "layer" | "tag";
+	/** Seconds of motion a velocity arrow stands for */
+	velocityScale?: number;
+}
+
+export interface DebugContact {
+	x: number;
+	y: number;
+	nx: number;
+	ny: number;
+}
+
+export const DEFAULT_DEBUG_OPTIONS: Required<DebugDrawOptions> = {
+	shapes: true,
+	velocities: true,
+	contacts: true,
+	joints: true,
+	colorBy: "layer",
+	velocityScale: 0.1,
+};
+
+const PALETTE = ["#4fc3f7", "#81c784", "#ffb74d", "#ba68c8", "#f06292", "#4db6ac", "#dce775", "#9575cd"];
+const VELOCITY_COLOR = "#ffee58";
+const CONTACT_COLOR = "#ff5252";
+const JOINT_COLOR = "#eeeeee";
+
+function bodyColor(body: PhysicsBody, colorBy: "layer" | "tag"): string {
+	if (colorBy === "tag") {
+		let hash = 0;
+		for (let i = 0; i < body.tag.length; i++) hash = (hash * 31 + body.tag.charCodeAt(i)) | 0;
+		return PALETTE[Math.abs(hash) % PALETTE.length];
+	}
+	const category = body.category >>> 0;
+	const bit = category === 0 ? 0 : 31 - Math.clz32(category & -category);
+	return PALETTE[bit % PALETTE.length];
+}
+
+/**
+ * Draws bodies, velocities, joints and the last step's contact normals in world
+ * coordinates on `ctx`, under whatever transform (camera) it already carries.
+ * Triggers are dashed outlines; static bodies get a fainter fill.
+ */
+export function drawPhysicsDebug(
+	ctx: CanvasRenderingContext2D,
+	bodies: Iterable<PhysicsBody>,
+	joints: Iterable<Joint>,
+	contacts: readonly DebugContact[],
+	options: Required<DebugDrawOptions>,
+): void {
+	// One screen pixel in world units, so lines stay thin at any zoom
+	let pixel = 1;
+	if (typeof ctx.getTransform === "function") {
+		const m = ctx.getTransform();
+		const scale = Math.sqrt(m.a * m.a + m.b * m.b);
+		if (scale > 0) pixel = 1 / scale;
+	}
+
+	ctx.save();
+	ctx.lineWidth = pixel;
+	ctx.globalAlpha = 1;
+
+	for (const body of bodies) {
+		if (!body.active) continue;
+		const color = bodyColor(body, options.colorBy);
+
+		if (options.shapes) {
+			ctx.beginPath();
+			traceShape(ctx, body);
+			if (body.isTrigger) {
+				ctx.setLineDash([4 * pixel, 3 * pixel]);
+			} else {
+				ctx.globalAlpha = body.invMass === 0 ? 0.1 : 0.25;
+				ctx.fillStyle = color;
+				ctx.fill();
+				ctx.globalAlpha = 1;
+			}
+			ctx.strokeStyle = color;
+			ctx.stroke();
+			ctx.setLineDash([]);
+		}
+
+		if (options.velocities && (body.vx !== 0 || body.vy !== 0)) {
+			const ex = body.x + body.vx * options.velocityScale;
+			const ey = body.y + body.vy * options.velocityScale;
+			ctx.strokeStyle = VELOCITY_COLOR;
+			ctx.beginPath();
+			ctx.moveTo(body.x, body.y);
+			ctx.lineTo(ex, ey);
+			ctx.stroke();
+		}
+	}
+
+	if (options.joints) {
+		ctx.strokeStyle = JOINT_COLOR;
+		for (const joint of joints) {
+			const p = jointAnchors(joint);
+			ctx.beginPath();
+			ctx.moveTo(p.ax, p.ay);
+			ctx.lineTo(p.bx, p.by);
+			ctx.stroke();
+		}
+	}
+
+	if (options.contacts) {
+		const length = 10 * pixel;
+		ctx.strokeStyle = CONTACT_COLOR;
+		ctx.fillStyle = CONTACT_COLOR;
+		for (const c of contacts) {
+			ctx.fillRect(c.x - pixel * 1.5, c.y - pixel * 1.5, pixel * 3, pixel * 3);
+			ctx.beginPath();
+			ctx.moveTo(c.x, c.y);
+			ctx.lineTo(c.x + c.nx * length, c.y + c.ny * length);
+			ctx.stroke();
+		}
+	}
+
+	ctx.restore();
+}
+
+function traceShape(ctx: CanvasRenderingContext2D, body: PhysicsBody): void {
+	const shape = body.shape;
+	if (shape.type === "aabb") {
+		ctx.rect(body.x + shape.x, body.y + shape.y, shape.w, shape.h);
+		return;
+	}
+	if (shape.type === "circle") {
+		ctx.arc(body.x + shape.x, body.y + shape.y, shape.r, 0, Math.PI * 2);
+		return;
+	}
+
+	const { points, radius } = toConvex(shape, body.x, body.y, body.angle);
+	if (shape.type === "capsule") {
+		const dir = Math.atan2(points[3] - points[1], points[2] - points[0]);
+		ctx.arc(points[2], points[3], radius, dir - Math.PI / 2, dir + Math.PI / 2);
+		ctx.arc(points[0], points[1], radius, dir + Math.PI / 2, dir + (Math.PI * 3) / 2);
+		ctx.closePath();
+		return;
+	}
+	ctx.moveTo(points[0], points[1]);
+	for (let i = 2; i < points.length; i += 2) ctx.lineTo(points[i], points[i + 1]);
+	if (shape.type === "polygon") ctx.closePath();
+}
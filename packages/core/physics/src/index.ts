@@ -1,3 +1,10 @@
-export { type Shape, type AABB, type Circle } from "./shapes";
-export { type PhysicsBodyConfig, type PhysicsBody, type CollisionResult } from "./body";
-export { PhysicsWorld } from "./physics-world";
+export type { CollisionResult, PhysicsBody, PhysicsBodyConfig } from "./body";
+export { type BroadPhase, type BroadphaseType, BruteForce, SweepAndPrune, UniformGrid } from "./broadphase";
+export type { ContactCallback, ContactEvent } from "./contacts";
+export type { DebugDrawOptions } from "./debug-draw";
+export type { JointConfig, JointType } from "./joints";
+export { ALL_LAYERS, CollisionLayers, DEFAULT_CATEGORY, type LayerSpec } from "./layers";
+export { type PhysicsEventSink, type PhysicsStats, PhysicsWorld, type PhysicsWorldConfig } from "./physics-world";
+export type { RaycastHit } from "./raycast";
+export type { AABB, Bounds, Capsule, Circle, Polygon, Segment, Shape } from "./shapes";
+export type { SlopeSpec, TileCollisionConfig, TileRule, TileSource } from "./tile-collision";
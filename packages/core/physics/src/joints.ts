@@ -0,0 +1,215 @@
+import type { PhysicsBody } from "./body";
+
+/**
+ * - distance: keeps the anchors exactly `length` apart (a rigid rod)
+ * - rope: keeps the anchors at most `length` apart, slack when closer
+ * - spring: pulls the anchors towards `length` with `stiffness` and `damping`
+ * - pin: keeps the anchors on top of each other (a hinge point)
+ */
+export type JointType = "distance" | "rope" | "spring" | "pin";
+
+export interface JointConfig {
+	type: JointType;
+	/** Body id of the first body */
+	a: number;
+	/** Body id of the second body. Omit to attach body A to a fixed world point. */
+	b?: number;
+	/** Anchor on body A, relative to its origin before rotation: it turns with the body */
+	ax?: number;
+	ay?: number;
+	/** Anchor on body B relative to its origin before rotation, or the world point when `b` is omitted */
+	bx?: number;
+	by?: number;
+	/** Rest length. Defaults to the anchors' current distance (0 for pins). */
+	length?: number;
+	stiffness?: number;
+	damping?: number;
+	/** Whether the two jointed bodies still collide with each other. Defaults to false. */
+	collideConnected?: boolean;
+}
+
+export interface Joint {
+	id: number;
+	type: JointType;
+	a: PhysicsBody;
+	b: PhysicsBody | null;
+	ax: number;
+	ay: number;
+	bx: number;
+	by: number;
+	length: number;
+	stiffness: number;
+	damping: number;
+	collideConnected: boolean;
+}
+
+// Fraction of the positional error fed back into the velocity solve each step
+const BAUMGARTE = 0.2;
+
+/** Anchor offsets turned by their body's angle: the lever arms from each body origin */
+interface LeverArms {
+	rax: number;
+	ray: number;
+	rbx: number;
+	rby: number;
+}
+
+export function createJoint(id: number, config: JointConfig, a: PhysicsBody, b: PhysicsBody | null): Joint {
+	const ax = config.ax ?? 0;
+	const ay = config.ay ?? 0;
+	const cos = Math.cos(a.angle);
+	const sin = Math.sin(a.angle);
+	const joint: Joint = {
+		id,
+		type: config.type,
+		a,
+		b,
+		ax,
+		ay,
+		bx: config.bx ?? (b ? 0 : a.x + ax * cos - ay * sin),
+		by: config.by ?? (b ? 0 : a.y + ax * sin + ay * cos),
+		length: 0,
+		stiffness: config.stiffness ?? 50,
+		damping: config.damping ?? 2,
+		collideConnected: config.collideConnected ?? false,
+	};
+	if (config.length !== undefined) {
+		joint.length = Math.max(0, config.length);
+	} else if (config.type !== "pin") {
+		const { dx, dy } = jointDelta(joint);
+		joint.length = Math.sqrt(dx * dx + dy * dy);
+	}
+	return joint;
+}
+
+function leverArms(joint: Joint): LeverArms {
+	const a = joint.a;
+	const b = joint.b;
+	const cosA = Math.cos(a.angle);
+	const sinA = Math.sin(a.angle);
+	const cosB = b ? Math.cos(b.angle) : 1;
+	const sinB = b ? Math.sin(b.angle) : 0;
+	return {
+		rax: joint.ax * cosA - joint.ay * sinA,
+		ray: joint.ax * sinA + joint.ay * cosA,
+		rbx: b ? joint.bx * cosB - joint.by * sinB : 0,
+		rby: b ? joint.bx * sinB + joint.by * cosB : 0,
+	};
+}
+
+/** World positions of both anchors */
+export function jointAnchors(
+	joint: Joint,
+	r: LeverArms = leverArms(joint),
+): {
+	ax: number;
+	ay: number;
+	bx: number;
+	by: number;
+} {
+	const b = joint.b;
+	return {
+		ax: joint.a.x + r.rax,
+		ay: joint.a.y + r.ray,
+		bx: b ? b.x + r.rbx : joint.bx,
+		by: b ? b.y + r.rby : joint.by,
+	};
+}
+
+function jointDelta(joint: Joint, r?: LeverArms): { dx: number; dy: number } {
+	const p = jointAnchors(joint, r);
+	return { dx: p.bx - p.ax, dy: p.by - p.ay };
+}
+
+/** Velocity of B's anchor relative to A's, spin included */
+function anchorVelocity(joint: Joint, r: LeverArms): { vx: number; vy: number } {
+	const a = joint.a;
+	const b = joint.b;
+	const vbx = b ? b.vx - b.angularVelocity * r.rby : 0;
+	const vby = b ? b.vy + b.angularVelocity * r.rbx : 0;
+	return {
+		vx: vbx - (a.vx - a.angularVelocity * r.ray),
+		vy: vby - (a.vy + a.angularVelocity * r.rax),
+	};
+}
+
+/** Inverse effective mass of the joint along the unit direction (nx, ny) */
+function invMassAlong(joint: Joint, r: LeverArms, nx: number, ny: number): number {
+	const a = joint.a;
+	const b = joint.b;
+	const raN = r.rax * ny - r.ray * nx;
+	const rbN = r.rbx * ny - r.rby * nx;
+	return a.invMass + raN * raN * a.invInertia + (b ? b.invMass + rbN * rbN * b.invInertia : 0);
+}
+
+/** Springs act as a force: applied once per step, before the rigid joints are iterated */
+export function applySpring(joint: Joint, dt: number): void {
+	if (joint.a.invMass + (joint.b ? joint.b.invMass : 0) === 0) return;
+
+	const r = leverArms(joint);
+	const { dx, dy } = jointDelta(joint, r);
+	const len = Math.sqrt(dx * dx + dy * dy);
+	if (len === 0) return;
+	const nx = dx / len;
+	const ny = dy / len;
+
+	const rv = anchorVelocity(joint, r);
+	const force = joint.stiffness * (len - joint.length) + joint.damping * (rv.vx * nx + rv.vy * ny);
+	const impulse = force * dt;
+	// Pulls the anchors together: A along the normal, B against it
+	applyImpulse(joint, r, -nx * impulse, -ny * impulse);
+}
+
+/** One velocity iteration of a distance, rope or pin joint */
+export function solveJoint(joint: Joint, dt: number): void {
+	const a = joint.a;
+	const b = joint.b;
+	if (a.invMass + (b ? b.invMass : 0) === 0 || dt <= 0) return;
+
+	const r = leverArms(joint);
+	const { dx, dy } = jointDelta(joint, r);
+	const rv = anchorVelocity(joint, r);
+
+	if (joint.type === "pin") {
+		// Two-axis constraint: solve the 2x2 effective mass so spin and slide share the correction
+		const iA = a.invInertia;
+		const iB = b ? b.invInertia : 0;
+		const m = a.invMass + (b ? b.invMass : 0);
+		const k11 = m + iA * r.ray * r.ray + iB * r.rby * r.rby;
+		const k12 = -iA * r.rax * r.ray - iB * r.rbx * r.rby;
+		const k22 = m + iA * r.rax * r.rax + iB * r.rbx * r.rbx;
+		const det = k11 * k22 - k12 * k12;
+		if (det === 0) return;
+		const cx = rv.vx + (BAUMGARTE * dx) / dt;
+		const cy = rv.vy + (BAUMGARTE * dy) / dt;
+		applyImpulse(joint, r, -(k22 * cx - k12 * cy) / det, -(k11 * cy - k12 * cx) / det);
+		return;
+	}
+
+	const len = Math.sqrt(dx * dx + dy * dy);
+	if (len === 0) return;
+	const error = len - joint.length;
+	if (joint.type === "rope" && error <= 0) return;
+
+	const nx = dx / len;
+	const ny = dy / len;
+	const vn = rv.vx * nx + rv.vy * ny;
+	let lambda = -(vn + (BAUMGARTE * error) / dt) / invMassAlong(joint, r, nx, ny);
+	// A rope can only pull the anchors together, never push them apart
+	if (joint.type === "rope" && lambda > 0) lambda = 0;
+	applyImpulse(joint, r, lambda * nx, lambda * ny);
+}
+
+/** Applies impulse (ix, iy) at B's anchor and its opposite at A's, turning bodies that can rotate */
+function applyImpulse(joint: Joint, r: LeverArms, ix: number, iy: number): void {
+	const a = joint.a;
+	a.vx -= ix * a.invMass;
+	a.vy -= iy * a.invMass;
+	a.angularVelocity -= (r.rax * iy - r.ray * ix) * a.invInertia;
+	const b = joint.b;
+	if (b) {
+		b.vx += ix * b.invMass;
+		b.vy += iy * b.invMass;
+		b.angularVelocity += (r.rbx * iy - r.rby * ix) * b.invInertia;
+	}
+}
@@ -0,0 +1,52 @@
+/** A layer given as a raw bitfield, a layer name, or a list of layer names */
+export type LayerSpec = number | string | string[];
+
+export const ALL_LAYERS = 0xffffffff;
+export const DEFAULT_CATEGORY = 1;
+
+const MAX_LAYERS = 32;
+
+/**
+ * Maps layer names to category bits. Bit 0 is reserved for "default" so bodies
+ * without a layer keep colliding with everything; named layers get the next
+ * free bit the first time they are used.
+ */
+export class CollisionLayers {
+	private bits: Map<string, number> = new Map([["default", DEFAULT_CATEGORY]]);
+
+	bit(name: string): number {
+		const existing = this.bits.get(name);
+		if (existing !== undefined) return existing;
+		if (this.bits.size >= MAX_LAYERS) {
+			throw new Error(`Too many collision layers (max ${MAX_LAYERS}): cannot add "${name}"`);
+		}
+		const bit = (1 << this.bits.size) >>> 0;
+		this.bits.set(name, bit);
+		return bit;
+	}
+
+	resolve(spec: LayerSpec | undefined, fallback: number): number {
+		if (spec == null) return fallback;
+		if (typeof spec === "number") return spec >>> 0;
+		if (typeof spec === "string") return spec === "all" ? ALL_LAYERS : this.bit(spec);
+		let mask = 0;
+		for (const name of spec) mask = (mask | this.resolve(name, 0)) >>> 0;
+		return mask;
+	}
+
+	names(bits: number): string[] {
+		const result: string[] = [];
+		for (const [name, bit] of this.bits) {
+			if ((bits & bit) !== 0) result.push(name);
+		}
+		return result;
+	}
+
+	reset(): void {
+		this.bits = new Map([["default", DEFAULT_CATEGORY]]);
+	}
+}
+
+export function layersMatch(categoryA: number, maskA: number, categoryB: number, maskB: number): boolean {
+	return (categoryA & maskB) !== 0 && (categoryB & maskA) !== 0;
+}
@@ -1,26 +1,223 @@
-import { createBody, type CollisionResult, type PhysicsBody, type PhysicsBodyConfig } from "./body";
-import { testAABBvsAABB, testAABBvsCircle, testCirclevsCircle, resolveCollision } from "./collision";
+import { createBody, type CollisionResult, DEG_TO_RAD, type PhysicsBody, type PhysicsBodyConfig } from "./body";
+import { type BroadPhase, type BroadphaseType, createBroadPhase } from "./broadphase";
+import {
+	applyManifoldImpulse,
+	correctPositions,
+	type Hit,
+	testAABBvsAABB,
+	testAABBvsCircle,
+	testCirclevsCircle,
+	resolveCollision,
+} from "./collision";
+import {
+	type ContactCallback,
+	type ContactEvent,
+	type ContactPhase,
+	ContactTracker,
+	contactEventName,
+	type Contact,
+} from "./contacts";
+import { DEFAULT_DEBUG_OPTIONS, type DebugContact, type DebugDrawOptions, drawPhysicsDebug } from "./debug-draw";
+import { applySpring, createJoint, type Joint, type JointConfig, jointAnchors, solveJoint } from "./joints";
+import { ALL_LAYERS, CollisionLayers, DEFAULT_CATEGORY, type LayerSpec, layersMatch } from "./layers";
+import { bodyCastShape, type CastShape, castAgainstBody, RAY, type RaycastHit } from "./raycast";
+import { bodyConvex, type ContactHit, testConvex } from "./sat";
+import { computeBounds } from "./shapes";
+import { TileCollider, type TileCollisionConfig, type TileSource } from "./tile-collision";
+
+export interface PhysicsWorldConfig {
+	/** Broad-phase strategy: uniform grid (default), sweep-and-prune, or none (every pair) */
+	broadphase?: BroadphaseType;
+	/** Grid cell size in world units, used by the "grid" broad phase */
+	cellSize?: number;
+	/**
+	 * Fixed step length in ms. When set, `update` advances the simulation in whole
+	 * steps of this length regardless of frame rate and exposes interpolated render
+	 * positions. 0 (default) steps once per frame with the frame delta.
+	 */
+	fixedStep?: number;
+	/** Upper bound on fixed steps per update, so a long stall cannot snowball. Defaults to 8. */
+	maxSubSteps?: number;
+}
+
+export interface PhysicsStats {
+	broadphase: BroadphaseType;
+	bodies: number;
+	/** Narrow-phase shape tests run during the last update */
+	pairTests: number;
+	/** Overlapping pairs found during the last update */
+	contacts: number;
+	/** Steps simulated since the world was created or reset */
+	tick: number;
+}
+
+/** Receives contact events published by the world, e.g. a runtime EventBus's `emit` */
+export type PhysicsEventSink = (name: string, payload: Record<string, unknown>) => void;
+
+// How far past the time of impact a swept bullet is placed, in world units
+const CCD_SKIN = 0.01;
 
 export class PhysicsWorld {
 	gravity = 980;
 	maxVelocity = 2000;
+	/** Velocity iterations for distance, rope and pin joints. More is stiffer but slower. */
+	jointIterations = 8;
+	readonly layers = new CollisionLayers();
 
 	private bodies: Map<number, PhysicsBody> = new Map();
 	private nextId = 0;
+	private readonly config: PhysicsWorldConfig;
+	private broadphase: BroadPhase;
+	private broadphaseDirty = true;
+	private stats: PhysicsStats;
+	private tiles: TileCollider | null = null;
+	private joints: Map<number, Joint> = new Map();
+	private nextJointId = 0;
+	/** Body pairs held together by a joint that should not collide, keyed by `pairKey` */
+	private jointPairs: Map<string, number> = new Map();
+	private fixedStep: number;
+	private maxSubSteps: number;
+	private accumulator = 0;
+	private alpha = 1;
+	private stepListener: ((dtMs: number, tick: number) => void) | null = null;
+	/** Length of the step whose `onStep` listener is running, in seconds; 0 outside of it */
+	private listenerDt = 0;
+	private contacts = new ContactTracker();
+	private contactListeners: Map<number, Array<{ id: number; event: ContactEvent; cb: ContactCallback }>> = new Map();
+	/** Listener id → body id, so `off` does not need the body */
+	private listenerBodies: Map<number, number> = new Map();
+	private nextListenerId = 0;
+	private eventSink: PhysicsEventSink | null = null;
+	private publishing = false;
+	private publishStay = false;
+	private debugEnabled = false;
+	private debugOptions: Required<DebugDrawOptions> = { ...DEFAULT_DEBUG_OPTIONS };
+	/** Contacts from the last step, kept only while debug drawing is on */
+	private debugContacts: DebugContact[] = [];
 
+	constructor(config: PhysicsWorldConfig = {}) {
+		this.config = config;
+		this.broadphase = createBroadPhase(config.broadphase ?? "grid", config.cellSize);
+		this.stats = { broadphase: this.broadphase.type, bodies: 0, pairTests: 0, contacts: 0, tick: 0 };
+		this.fixedStep = Math.max(0, config.fixedStep ?? 0);
+		this.maxSubSteps = Math.max(1, config.maxSubSteps ?? 8);
+	}
+
+	/**
+	 * Advances the simulation. With a fixed step, the same sequence of steps and
+	 * inputs always produces the same body states, whatever the display rate.
+	 */
 	update(dtMs: number): void {
-		// Cap delta to prevent explosion on tab resume
-		const dt = Math.min(dtMs / 1000, 0.05);
+		if (this.fixedStep > 0) {
+			const step = this.fixedStep;
+			// Forces applied by game code act over this frame's time. Each step takes the part it covers;
+			// time left in the accumulator carries its part over, so frames without a step lose nothing.
+			let remaining = dtMs;
+			let steps = 0;
+			while (this.accumulator + remaining >= step && steps < this.maxSubSteps) {
+				const covered = step - this.accumulator;
+				this._step(step / 1000, covered / 1000);
+				remaining -= covered;
+				this.accumulator = 0;
+				steps++;
+			}
+			// Still behind after maxSubSteps: drop the whole steps rather than spiral further
+			if (remaining >= step) remaining %= step;
+			this.accumulator += remaining;
+			for (const b of this.bodies.values()) {
+				b.carryVx += (b.ax * remaining) / 1000;
+				b.carryVy += (b.ay * remaining) / 1000;
+			}
+			this.alpha = this.accumulator / step;
+		} else {
+			// Cap delta to prevent explosion on tab resume
+			const dt = Math.min(dtMs / 1000, 0.05);
+			this._step(dt, dt);
+			this.alpha = 1;
+		}
+
+		for (const b of this.bodies.values()) {
+			b.ax = 0;
+			b.ay = 0;
+		}
+	}
+
+	/**
+	 * Switches fixed stepping on (ms > 0) or off (0). The accumulator restarts so
+	 * the next update does not replay time from the previous mode.
+	 */
+	setFixedStep(ms: number, maxSubSteps?: number): void {
+		this.fixedStep = Math.max(0, ms || 0);
+		if (maxSubSteps !== undefined) this.maxSubSteps = Math.max(1, maxSubSteps);
+		this.accumulator = 0;
+		this.alpha = 1;
+		for (const b of this.bodies.values()) {
+			b.carryVx = 0;
+			b.carryVy = 0;
+		}
+	}
+
+	/**
+	 * Calls `cb` before every simulation step with the step length in ms and the
+	 * step number. Apply per-step input here for replays and lockstep netcode;
+	 * forces applied inside the callback act on that step only.
+	 */
+	onStep(cb: ((dtMs: number, tick: number) => void) | null): void {
+		this.stepListener = cb;
+	}
+
+	/** Position and angle (degrees) to draw a body at: between its last two steps when fixed stepping */
+	getRenderPosition(id: number): { x: number; y: number; angle: number } | null {
+		const b = this.bodies.get(id);
+		if (!b) return null;
+		const a = this.alpha;
+		return {
+			x: b.prevX + (b.x - b.prevX) * a,
+			y: b.prevY + (b.y - b.prevY) * a,
+			angle: (b.prevAngle + (b.angle - b.prevAngle) * a) / DEG_TO_RAD,
+		};
+	}
+
+	/** One step of `dt` seconds; forces applied by game code act on it for `forceDt` seconds */
+	private _step(dt: number, forceDt: number): void {
+		if (this.stepListener) {
+			this.listenerDt = dt;
+			try {
+				this.stepListener(dt * 1000, this.stats.tick);
+			} finally {
+				this.listenerDt = 0;
+			}
+		}
+		this.stats.tick++;
+		this.debugContacts.length = 0;
 
-		// 1. Integrate
+		// 1. Integrate forces into velocities
 		for (const b of this.bodies.values()) {
+			b.prevX = b.x;
+			b.prevY = b.y;
+			b.prevAngle = b.angle;
 			if (!b.active || b.invMass === 0) continue;
 
-			b.vy += (this.gravity * b.gravityScale + b.ay) * dt;
-			b.vx += b.ax * dt;
+			b.vx += b.carryVx + b.ax * forceDt;
+			b.vy += b.carryVy + b.ay * forceDt + this.gravity * b.gravityScale * dt;
+			b.carryVx = 0;
+			b.carryVy = 0;
 
 			b.vx += b.vx * -b.friction * dt;
 			b.vy += b.vy * -b.friction * dt;
+			b.angularVelocity += b.angularVelocity * -b.friction * dt;
+		}
+
+		// 2. Joints adjust velocities before positions move
+		if (this.joints.size > 0) this._solveJoints(dt);
+
+		// 3. Integrate positions
+		let hasBullets = false;
+		for (const b of this.bodies.values()) {
+			if (!b.active) continue;
+			// Static bodies keep their angular velocity, so they can spin in place
+			if (b.angularVelocity !== 0) b.angle += b.angularVelocity * dt;
+			if (b.invMass === 0) continue;
 
 			// Clamp velocity
 			const speed = Math.sqrt(b.vx * b.vx + b.vy * b.vy);
@@ -32,76 +229,185 @@ export class PhysicsWorld {
 
 			b.x += b.vx * dt;
 			b.y += b.vy * dt;
-
-			b.ax = 0;
-			b.ay = 0;
+			if (b.bullet) hasBullets = true;
 		}
 
-		// 2. Collision detection + resolution
-		const bodyArr = Array.from(this.bodies.values()).filter((b) => b.active);
-		const collisions: Array<{ a: PhysicsBody; b: PhysicsBody; nx: number; ny: number; depth: number }> = [];
+		// Bullets are pulled back to their first time of impact so the discrete pass below sees the contact
+		if (hasBullets) this._sweepBullets();
 
-		for (let i = 0; i < bodyArr.length; i++) {
-			for (let j = i + 1; j < bodyArr.length; j++) {
-				const a = bodyArr[i];
-				const b = bodyArr[j];
-				if (a.invMass === 0 && b.invMass === 0) continue;
+		// 4. Broad phase + narrow phase
+		this.broadphaseDirty = true;
+		this._refreshBroadphase();
+		const collisions: Array<{ a: PhysicsBody; b: PhysicsBody } & Partial<ContactHit> & Hit> = [];
+		let pairTests = 0;
 
-				const hit = this._testPair(a, b);
-				if (hit) collisions.push({ a, b, ...hit });
-			}
-		}
+		this.broadphase.pairs((a, b) => {
+			if (a.invMass === 0 && b.invMass === 0) return;
+			if (!layersMatch(a.category, a.mask, b.category, b.mask)) return;
+			if (this.jointPairs.size > 0 && this.jointPairs.has(pairKey(a.id, b.id))) return;
+			pairTests++;
+			const hit = this._testPair(a, b);
+			if (hit) collisions.push({ a, b, ...hit });
+		});
 
-		// 3. Resolve + collect results for callbacks
+		this.stats.pairTests = pairTests;
+		this.stats.contacts = collisions.length;
+
+		// 5. Resolve + collect results for callbacks
 		const callbackResults: Array<{ body: PhysicsBody; result: CollisionResult }> = [];
+		const tracking = this._trackingContacts();
 
 		for (const col of collisions) {
 			const { a, b, nx, ny, depth } = col;
+			const trigger = a.isTrigger || b.isTrigger;
 
-			if (!a.isTrigger && !b.isTrigger) {
-				resolveCollision(a, b, nx, ny, depth);
+			if (!trigger) {
+				if (col.px1 !== undefined && col.py1 !== undefined && col.px2 !== undefined && col.py2 !== undefined) {
+					// Face-to-face: push on both ends of the touching span so neither end sinks
+					applyManifoldImpulse(a, b, nx, ny, col.px1, col.py1, col.px2, col.py2);
+					correctPositions(a, b, nx, ny, depth);
+				} else {
+					resolveCollision(a, b, nx, ny, depth, col.px, col.py);
+				}
 			}
 
-			if (a.onCollide) {
-				callbackResults.push({
-					body: a,
-					result: { bodyId: a.id, otherId: b.id, otherTag: b.tag, nx, ny, depth },
-				});
-			}
-			if (b.onCollide) {
-				callbackResults.push({
-					body: b,
-					result: { bodyId: b.id, otherId: a.id, otherTag: a.tag, nx: -nx, ny: -ny, depth },
-				});
+			// The solver's normal points from a to b; each body is told the way it is pushed, away from the other
+			const resultA: CollisionResult = { bodyId: a.id, otherId: b.id, otherTag: b.tag, nx: -nx, ny: -ny, depth };
+			const resultB: CollisionResult = { bodyId: b.id, otherId: a.id, otherTag: a.tag, nx, ny, depth };
+			if (this.debugEnabled) this._recordDebugContact(col);
+			if (a.onCollide) callbackResults.push({ body: a, result: resultA });
+			if (b.onCollide) callbackResults.push({ body: b, result: resultB });
+			if (tracking) this.contacts.add({ a: a.id, b: b.id, trigger, resultA, resultB });
+		}
+
+		// 6. Tiles are static, so they are resolved last and always win over body pushes
+		const tiles = this.tiles;
+		if (tiles) {
+			const tileHits: CollisionResult[] = [];
+			for (const b of this.bodies.values()) {
+				if (!b.active || b.invMass === 0) continue;
+				if (!layersMatch(b.category, b.mask, tiles.category, ALL_LAYERS)) continue;
+				tileHits.length = 0;
+				tiles.resolve(b, tileHits);
+				if (b.onCollide) {
+					for (const result of tileHits) callbackResults.push({ body: b, result });
+				}
+				if (this.debugEnabled) {
+					for (const hit of tileHits) this._recordTileDebugContact(b, hit);
+				}
+				if (tracking && tileHits.length > 0) {
+					this.contacts.add({ a: b.id, b: -1, trigger: b.isTrigger, resultA: tileHits[0], resultB: null });
+				}
 			}
 		}
 
-		// 4. Fire callbacks after all resolutions
+		// Resolution moved bodies — queries from callbacks and scripts need fresh bounds
+		this.broadphaseDirty = true;
+
+		// 7. Fire callbacks after all resolutions
 		for (const { body, result } of callbackResults) {
 			body.onCollide?.(result);
 		}
+
+		// 8. Contact lifecycle: diff against the previous step
+		if (tracking) {
+			for (const { contact, phase } of this.contacts.end()) this._dispatchContact(contact, phase);
+		} else {
+			this.contacts.clear();
+		}
 	}
 
 	addBody(config: PhysicsBodyConfig): number {
 		const id = this.nextId++;
-		const body = createBody(id, config);
+		const category = this.layers.resolve(config.layer, DEFAULT_CATEGORY);
+		const mask = this.layers.resolve(config.mask, ALL_LAYERS);
+		const body = createBody(id, config, category, mask);
 		this.bodies.set(id, body);
+		this.broadphaseDirty = true;
 		return id;
 	}
 
 	removeBody(id: number): void {
-		this.bodies.delete(id);
+		if (!this.bodies.delete(id)) return;
+		this.broadphaseDirty = true;
+		for (const joint of this.joints.values()) {
+			if (joint.a.id === id || joint.b?.id === id) this.removeJoint(joint.id);
+		}
+		const listeners = this.contactListeners.get(id);
+		if (listeners) {
+			for (const l of listeners) this.listenerBodies.delete(l.id);
+			this.contactListeners.delete(id);
+		}
+		// Whatever the removed body was touching sees the contact end
+		for (const contact of this.contacts.removeBody(id)) {
+			const event = contactEventName(contact.trigger, "exit");
+			if (contact.a === id) {
+				if (contact.resultB) this._emitContact(contact.b, event, "exit", contact.resultB);
+			} else {
+				this._emitContact(contact.a, event, "exit", contact.resultA);
+			}
+		}
 	}
 
-	getBody(id: number): { x: number; y: number; vx: number; vy: number; tag: string } | null {
+	getBody(id: number): {
+		x: number;
+		y: number;
+		vx: number;
+		vy: number;
+		tag: string;
+		layers: string[];
+		renderX: number;
+		renderY: number;
+		angle: number;
+		angularVelocity: number;
+		renderAngle: number;
+	} | null {
 		const b = this.bodies.get(id);
 		if (!b) return null;
-		return { x: b.x, y: b.y, vx: b.vx, vy: b.vy, tag: b.tag };
+		const a = this.alpha;
+		return {
+			x: b.x,
+			y: b.y,
+			vx: b.vx,
+			vy: b.vy,
+			tag: b.tag,
+			layers: this.layers.names(b.category),
+			renderX: b.prevX + (b.x - b.prevX) * a,
+			renderY: b.prevY + (b.y - b.prevY) * a,
+			angle: b.angle / DEG_TO_RAD,
+			angularVelocity: b.angularVelocity / DEG_TO_RAD,
+			renderAngle: (b.prevAngle + (b.angle - b.prevAngle) * a) / DEG_TO_RAD,
+		};
+	}
+
+	/** Turns continuous collision detection on or off for a body */
+	setBullet(id: number, bullet: boolean): void {
+		const b = this.bodies.get(id);
+		if (b) b.bullet = !!bullet;
+	}
+
+	/** Changes which layers a body belongs to and, optionally, which layers it collides with */
+	setLayer(id: number, layer: LayerSpec, mask?: LayerSpec): void {
+		const b = this.bodies.get(id);
+		if (!b) return;
+		b.category = this.layers.resolve(layer, DEFAULT_CATEGORY);
+		if (mask !== undefined) b.mask = this.layers.resolve(mask, ALL_LAYERS);
+	}
+
+	/** Returns the category bit for a named layer, allocating one if needed */
+	layerBit(name: string): number {
+		return this.layers.bit(name);
 	}
 
 	setPosition(id: number, x: number, y: number): void {
 		const b = this.bodies.get(id);
-		if (b) { b.x = x; b.y = y; }
+		if (b) {
+			b.x = x;
+			b.y = y;
+			b.prevX = x;
+			b.prevY = y;
+		}
+		this.broadphaseDirty = true;
 	}
 
 	setVelocity(id: number, vx: number, vy: number): void {
@@ -109,9 +415,16 @@ export class PhysicsWorld {
 		if (b) { b.vx = vx; b.vy = vy; }
 	}
 
+	/** Pushes a body over the time of the next update; inside `onStep`, over that step only */
 	applyForce(id: number, fx: number, fy: number): void {
 		const b = this.bodies.get(id);
 		if (b && b.invMass > 0) {
+			if (this.listenerDt > 0) {
+				// Inside onStep: act on this step only
+				b.vx += fx * b.invMass * this.listenerDt;
+				b.vy += fy * b.invMass * this.listenerDt;
+				return;
+			}
 			b.ax += fx * b.invMass;
 			b.ay += fy * b.invMass;
 		}
@@ -125,40 +438,293 @@ export class PhysicsWorld {
 		}
 	}
 
+	/** Sets a body's rotation in degrees */
+	setAngle(id: number, degrees: number): void {
+		const b = this.bodies.get(id);
+		if (b) {
+			b.angle = degrees * DEG_TO_RAD;
+			b.prevAngle = b.angle;
+		}
+		this.broadphaseDirty = true;
+	}
+
+	/** Sets a body's spin in degrees per second. Works on static bodies too. */
+	setAngularVelocity(id: number, degreesPerSecond: number): void {
+		const b = this.bodies.get(id);
+		if (b) b.angularVelocity = degreesPerSecond * DEG_TO_RAD;
+	}
+
+	/** Changes a body's spin by `impulse / inertia`; bodies that cannot turn ignore it */
+	applyAngularImpulse(id: number, impulse: number): void {
+		const b = this.bodies.get(id);
+		if (b) b.angularVelocity += impulse * b.invInertia;
+	}
+
 	onCollide(id: number, cb: (result: CollisionResult) => void): void {
 		const b = this.bodies.get(id);
 		if (b) b.onCollide = cb;
 	}
 
+	/**
+	 * Adds a contact listener to a body and returns its id for `off` (-1 if the body
+	 * does not exist). A body can have any number of listeners per event. Exit
+	 * events carry the normal and depth from the last step the bodies touched.
+	 */
+	on(id: number, event: ContactEvent, cb: ContactCallback): number {
+		if (!this.bodies.has(id)) return -1;
+		const listenerId = this.nextListenerId++;
+		let list = this.contactListeners.get(id);
+		if (!list) {
+			list = [];
+			this.contactListeners.set(id, list);
+		}
+		list.push({ id: listenerId, event, cb });
+		this.listenerBodies.set(listenerId, id);
+		return listenerId;
+	}
+
+	off(listenerId: number): void {
+		const bodyId = this.listenerBodies.get(listenerId);
+		if (bodyId === undefined) return;
+		this.listenerBodies.delete(listenerId);
+		const list = this.contactListeners.get(bodyId);
+		if (!list) return;
+		const index = list.findIndex((l) => l.id === listenerId);
+		if (index >= 0) list.splice(index, 1);
+		if (list.length === 0) this.contactListeners.delete(bodyId);
+	}
+
+	onCollisionEnter(id: number, cb: ContactCallback): number {
+		return this.on(id, "collisionEnter", cb);
+	}
+
+	onCollisionStay(id: number, cb: ContactCallback): number {
+		return this.on(id, "collisionStay", cb);
+	}
+
+	onCollisionExit(id: number, cb: ContactCallback): number {
+		return this.on(id, "collisionExit", cb);
+	}
+
+	onTriggerEnter(id: number, cb: ContactCallback): number {
+		return this.on(id, "triggerEnter", cb);
+	}
+
+	onTriggerStay(id: number, cb: ContactCallback): number {
+		return this.on(id, "triggerStay", cb);
+	}
+
+	onTriggerExit(id: number, cb: ContactCallback): number {
+		return this.on(id, "triggerExit", cb);
+	}
+
+	/**
+	 * Sets where published contact events go. The runtime points this at its
+	 * EventBus; nothing is published until `publishEvents` turns it on.
+	 */
+	setEventSink(sink: PhysicsEventSink | null): void {
+		this.eventSink = sink;
+	}
+
+	/**
+	 * Publishes contact events to the event sink as "physics.collisionEnter",
+	 * "physics.triggerExit" and so on, once per body involved. Stay events fire
+	 * every step, so they are only published when `includeStay` is set.
+	 */
+	publishEvents(enabled: boolean, includeStay = false): void {
+		this.publishing = !!enabled;
+		this.publishStay = !!includeStay;
+	}
+
+	/**
+	 * Turns the debug overlay on or off. Options are merged into the current
+	 * ones and survive `reset`, so a host can leave the overlay on across reloads.
+	 */
+	debugDraw(enabled: boolean, options?: DebugDrawOptions): void {
+		this.debugEnabled = !!enabled;
+		if (options) this.debugOptions = { ...this.debugOptions, ...options };
+		if (!this.debugEnabled) this.debugContacts.length = 0;
+	}
+
+	isDebugDrawing(): boolean {
+		return this.debugEnabled;
+	}
+
+	/** Draws the overlay in world coordinates; apply the camera transform to `ctx` first */
+	drawDebug(ctx: CanvasRenderingContext2D): void {
+		if (!this.debugEnabled) return;
+		drawPhysicsDebug(ctx, this.bodies.values(), this.joints.values(), this.debugContacts, this.debugOptions);
+	}
+
 	setGravity(g: number): void {
 		this.gravity = g;
 	}
 
-	query(x: number, y: number, w: number, h: number): number[] {
+	/** Connects two bodies, or a body and a world point, and returns the joint id (-1 if a body is missing) */
+	addJoint(config: JointConfig): number {
+		const a = this.bodies.get(config.a);
+		const b = config.b !== undefined && config.b !== null ? this.bodies.get(config.b) : null;
+		if (!a || b === undefined) return -1;
+
+		const id = this.nextJointId++;
+		const joint = createJoint(id, config, a, b);
+		this.joints.set(id, joint);
+		if (b && !joint.collideConnected) {
+			const key = pairKey(a.id, b.id);
+			this.jointPairs.set(key, (this.jointPairs.get(key) ?? 0) + 1);
+		}
+		return id;
+	}
+
+	removeJoint(id: number): void {
+		const joint = this.joints.get(id);
+		if (!joint) return;
+		this.joints.delete(id);
+		if (joint.b && !joint.collideConnected) {
+			const key = pairKey(joint.a.id, joint.b.id);
+			const count = (this.jointPairs.get(key) ?? 1) - 1;
+			if (count > 0) this.jointPairs.set(key, count);
+			else this.jointPairs.delete(key);
+		}
+	}
+
+	getJoint(id: number): {
+		type: string;
+		a: number;
+		b: number;
+		length: number;
+		ax: number;
+		ay: number;
+		bx: number;
+		by: number;
+	} | null {
+		const joint = this.joints.get(id);
+		if (!joint) return null;
+		const anchors = jointAnchors(joint);
+		return { type: joint.type, a: joint.a.id, b: joint.b ? joint.b.id : -1, length: joint.length, ...anchors };
+	}
+
+	setJointLength(id: number, length: number): void {
+		const joint = this.joints.get(id);
+		if (joint) joint.length = Math.max(0, length);
+	}
+
+	/** Moves the world anchor of a body-to-world joint */
+	setJointAnchor(id: number, x: number, y: number): void {
+		const joint = this.joints.get(id);
+		if (joint && !joint.b) {
+			joint.bx = x;
+			joint.by = y;
+		}
+	}
+
+	/**
+	 * Collides bodies directly against a tile map's solid, one-way and slope tiles,
+	 * replacing any previously set map. Pass null to stop colliding with tiles.
+	 * Without a config every tile is solid unless its properties say `solid: false`.
+	 */
+	setTileMap(map: TileSource | null, config?: TileCollisionConfig): void {
+		if (!map) {
+			this.tiles = null;
+			return;
+		}
+		const cfg = config ?? { solid: (ref: string) => map.getTileProperties?.(ref)?.solid !== false };
+		this.tiles = new TileCollider(map, cfg, this.layers.resolve(cfg.layer, DEFAULT_CATEGORY));
+	}
+
+	/** Whether the world-space point lies inside a solid tile of the current tile map */
+	isSolidAt(x: number, y: number): boolean {
+		const tiles = this.tiles;
+		if (!tiles) return false;
+		const col = Math.floor((x - tiles.originX) / tiles.map.block_width);
+		const row = Math.floor((y - tiles.originY) / tiles.map.block_height);
+		return tiles.isSolid(col, row);
+	}
+
+	/** Ids of bodies whose bounds overlap the rectangle, limited to the layers in `mask` */
+	query(x: number, y: number, w: number, h: number, mask?: LayerSpec): number[] {
+		this._refreshBroadphase();
+		const bits = this.layers.resolve(mask, ALL_LAYERS);
+		const hits: PhysicsBody[] = [];
+		this.broadphase.query(x, y, x + w, y + h, hits);
 		const result: number[] = [];
-		for (const b of this.bodies.values()) {
-			if (!b.active) continue;
-			const bx = b.x, by = b.y;
-			const shape = b.shape;
-			let left: number, top: number, right: number, bottom: number;
-			if (shape.type === "aabb") {
-				left = bx + shape.x; top = by + shape.y;
-				right = left + shape.w; bottom = top + shape.h;
-			} else {
-				left = bx + shape.x - shape.r; top = by + shape.y - shape.r;
-				right = bx + shape.x + shape.r; bottom = by + shape.y + shape.r;
-			}
-			if (right >= x && left <= x + w && bottom >= y && top <= y + h) {
-				result.push(b.id);
-			}
+		for (const b of hits) {
+			if ((b.category & bits) !== 0) result.push(b.id);
 		}
-		return result;
+		return result.sort((a, b) => a - b);
+	}
+
+	/** First body or solid tile hit by the segment (x1, y1) → (x2, y2). Triggers are ignored. */
+	raycast(x1: number, y1: number, x2: number, y2: number, mask?: LayerSpec, ignoreId?: number): RaycastHit | null {
+		return this._cast(x1, y1, x2, y2, RAY, mask, ignoreId, false)[0] ?? null;
+	}
+
+	/** Every body hit by the segment, nearest first, plus the nearest solid tile */
+	raycastAll(x1: number, y1: number, x2: number, y2: number, mask?: LayerSpec, ignoreId?: number): RaycastHit[] {
+		return this._cast(x1, y1, x2, y2, RAY, mask, ignoreId, true);
+	}
+
+	/** Sweeps a circle of radius `r` centred on the segment and returns the first hit */
+	circleCast(
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		r: number,
+		mask?: LayerSpec,
+		ignoreId?: number,
+	): RaycastHit | null {
+		return this._cast(x1, y1, x2, y2, { hw: 0, hh: 0, radius: r }, mask, ignoreId, false)[0] ?? null;
+	}
+
+	/** Sweeps a w×h box centred on the segment and returns the first hit */
+	boxCast(
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		w: number,
+		h: number,
+		mask?: LayerSpec,
+		ignoreId?: number,
+	): RaycastHit | null {
+		return this._cast(x1, y1, x2, y2, { hw: w / 2, hh: h / 2, radius: 0 }, mask, ignoreId, false)[0] ?? null;
+	}
+
+	setBroadphase(type: BroadphaseType, cellSize?: number): void {
+		this.broadphase = createBroadPhase(type, cellSize ?? this.config.cellSize);
+		this.broadphaseDirty = true;
+		this.stats.broadphase = type;
+	}
+
+	getStats(): PhysicsStats {
+		return { ...this.stats, bodies: this.bodies.size };
 	}
 
 	reset(): void {
 		this.bodies.clear();
 		this.nextId = 0;
 		this.gravity = 980;
+		this.layers.reset();
+		this.tiles = null;
+		this.joints.clear();
+		this.jointPairs.clear();
+		this.nextJointId = 0;
+		this.fixedStep = Math.max(0, this.config.fixedStep ?? 0);
+		this.maxSubSteps = Math.max(1, this.config.maxSubSteps ?? 8);
+		this.accumulator = 0;
+		this.alpha = 1;
+		this.stepListener = null;
+		this.contacts.clear();
+		this.contactListeners.clear();
+		this.listenerBodies.clear();
+		this.nextListenerId = 0;
+		this.publishing = false;
+		this.publishStay = false;
+		this.debugContacts.length = 0;
+		this.broadphase = createBroadPhase(this.config.broadphase ?? "grid", this.config.cellSize);
+		this.broadphaseDirty = true;
+		this.stats = { broadphase: this.broadphase.type, bodies: 0, pairTests: 0, contacts: 0, tick: 0 };
 	}
 
 	getInterface(): Record<string, unknown> {
@@ -171,16 +737,254 @@ export class PhysicsWorld {
 			setVelocity: (id: number, vx: number, vy: number) => this.setVelocity(id, vx, vy),
 			applyForce: (id: number, fx: number, fy: number) => this.applyForce(id, fx, fy),
 			applyImpulse: (id: number, ix: number, iy: number) => this.applyImpulse(id, ix, iy),
+			setAngle: (id: number, degrees: number) => this.setAngle(id, degrees),
+			setAngularVelocity: (id: number, degreesPerSecond: number) => this.setAngularVelocity(id, degreesPerSecond),
+			applyAngularImpulse: (id: number, impulse: number) => this.applyAngularImpulse(id, impulse),
 			onCollide: (id: number, cb: (result: CollisionResult) => void) => this.onCollide(id, cb),
-			query: (x: number, y: number, w: number, h: number) => this.query(x, y, w, h),
+			on: (id: number, event: ContactEvent, cb: ContactCallback) => this.on(id, event, cb),
+			off: (listenerId: number) => this.off(listenerId),
+			onCollisionEnter: (id: number, cb: ContactCallback) => this.onCollisionEnter(id, cb),
+			onCollisionStay: (id: number, cb: ContactCallback) => this.onCollisionStay(id, cb),
+			onCollisionExit: (id: number, cb: ContactCallback) => this.onCollisionExit(id, cb),
+			onTriggerEnter: (id: number, cb: ContactCallback) => this.onTriggerEnter(id, cb),
+			onTriggerStay: (id: number, cb: ContactCallback) => this.onTriggerStay(id, cb),
+			onTriggerExit: (id: number, cb: ContactCallback) => this.onTriggerExit(id, cb),
+			publishEvents: (enabled: boolean, includeStay?: boolean) => this.publishEvents(enabled, includeStay),
+			debugDraw: (enabled: boolean, options?: DebugDrawOptions) => this.debugDraw(enabled, options),
+			query: (x: number, y: number, w: number, h: number, mask?: LayerSpec) => this.query(x, y, w, h, mask),
+			setFixedStep: (ms: number, maxSubSteps?: number) => this.setFixedStep(ms, maxSubSteps),
+			onStep: (cb: ((dtMs: number, tick: number) => void) | null) => this.onStep(cb),
+			getRenderPosition: (id: number) => this.getRenderPosition(id),
+			setBullet: (id: number, bullet: boolean) => this.setBullet(id, bullet),
+			setLayer: (id: number, layer: LayerSpec, mask?: LayerSpec) => this.setLayer(id, layer, mask),
+			layerBit: (name: string) => this.layerBit(name),
+			raycast: (x1: number, y1: number, x2: number, y2: number, mask?: LayerSpec, ignoreId?: number) =>
+				this.raycast(x1, y1, x2, y2, mask, ignoreId),
+			raycastAll: (x1: number, y1: number, x2: number, y2: number, mask?: LayerSpec, ignoreId?: number) =>
+				this.raycastAll(x1, y1, x2, y2, mask, ignoreId),
+			circleCast: (x1: number, y1: number, x2: number, y2: number, r: number, mask?: LayerSpec, ignoreId?: number) =>
+				this.circleCast(x1, y1, x2, y2, r, mask, ignoreId),
+			boxCast: (
+				x1: number,
+				y1: number,
+				x2: number,
+				y2: number,
+				w: number,
+				h: number,
+				mask?: LayerSpec,
+				ignoreId?: number,
+			) => this.boxCast(x1, y1, x2, y2, w, h, mask, ignoreId),
+			addJoint: (config: JointConfig) => this.addJoint(config),
+			removeJoint: (id: number) => this.removeJoint(id),
+			getJoint: (id: number) => this.getJoint(id),
+			setJointLength: (id: number, length: number) => this.setJointLength(id, length),
+			setJointAnchor: (id: number, x: number, y: number) => this.setJointAnchor(id, x, y),
+			setTileMap: (map: TileSource | null, config?: TileCollisionConfig) => this.setTileMap(map, config),
+			isSolidAt: (x: number, y: number) => this.isSolidAt(x, y),
+			setBroadphase: (type: BroadphaseType, cellSize?: number) => this.setBroadphase(type, cellSize),
+			getStats: () => this.getStats(),
 		};
 	}
 
-	private _testPair(
-		a: PhysicsBody,
-		b: PhysicsBody,
-	): { nx: number; ny: number; depth: number } | null {
-		const as = a.shape, bs = b.shape;
+	private _solveJoints(dt: number): void {
+		for (const joint of this.joints.values()) {
+			if (joint.type === "spring" && this._jointActive(joint)) applySpring(joint, dt);
+		}
+		for (let i = 0; i < this.jointIterations; i++) {
+			for (const joint of this.joints.values()) {
+				if (joint.type !== "spring" && this._jointActive(joint)) solveJoint(joint, dt);
+			}
+		}
+	}
+
+	private _sweepBullets(): void {
+		this.broadphaseDirty = true;
+		this._refreshBroadphase();
+		const candidates: PhysicsBody[] = [];
+		const tiles = this.tiles;
+
+		for (const b of this.bodies.values()) {
+			if (!b.bullet || !b.active || b.invMass === 0) continue;
+			const dx = b.x - b.prevX;
+			const dy = b.y - b.prevY;
+			const dist = Math.sqrt(dx * dx + dy * dy);
+			if (dist === 0) continue;
+
+			const { cast, cx, cy } = bodyCastShape(b, b.prevX, b.prevY);
+			const bounds = b.bounds;
+			candidates.length = 0;
+			this.broadphase.query(
+				Math.min(bounds.left, bounds.left - dx),
+				Math.min(bounds.top, bounds.top - dy),
+				Math.max(bounds.right, bounds.right - dx),
+				Math.max(bounds.bottom, bounds.bottom - dy),
+				candidates,
+			);
+
+			let toi = 1;
+			for (const other of candidates) {
+				if (other === b || other.bullet || other.isTrigger) continue;
+				if (!layersMatch(b.category, b.mask, other.category, other.mask)) continue;
+				if (this.jointPairs.size > 0 && this.jointPairs.has(pairKey(b.id, other.id))) continue;
+				const hit = castAgainstBody(cx, cy, dx, dy, cast, other);
+				// t = 0 means the shapes already touched at the start — the discrete pass handles that
+				if (hit && hit.t > 0 && hit.t < toi) toi = hit.t;
+			}
+			if (tiles && layersMatch(b.category, b.mask, tiles.category, ALL_LAYERS)) {
+				const tileHit = tiles.cast(cx, cy, dx, dy, cast);
+				if (tileHit && tileHit.hit.t > 0 && tileHit.hit.t < toi) toi = tileHit.hit.t;
+			}
+			if (toi >= 1) continue;
+
+			// Stop a hair past the surface so the contact registers as an overlap
+			const t = Math.min(1, toi + CCD_SKIN / dist);
+			b.x = b.prevX + dx * t;
+			b.y = b.prevY + dy * t;
+			computeBounds(b.shape, b.x, b.y, b.bounds, b.angle);
+		}
+		this.broadphaseDirty = true;
+	}
+
+	/** Contact point for the overlay: the SAT point when known, else the middle of the bounds overlap */
+	private _recordDebugContact(col: { a: PhysicsBody; b: PhysicsBody } & Hit & Partial<ContactHit>): void {
+		let x = col.px;
+		let y = col.py;
+		if (x === undefined || y === undefined) {
+			const a = col.a.bounds;
+			const b = col.b.bounds;
+			x = (Math.max(a.left, b.left) + Math.min(a.right, b.right)) / 2;
+			y = (Math.max(a.top, b.top) + Math.min(a.bottom, b.bottom)) / 2;
+		}
+		this.debugContacts.push({ x, y, nx: col.nx, ny: col.ny });
+	}
+
+	private _recordTileDebugContact(body: PhysicsBody, hit: CollisionResult): void {
+		const tiles = this.tiles;
+		if (!tiles || hit.tileX === undefined || hit.tileY === undefined) return;
+		const bw = tiles.map.block_width;
+		const bh = tiles.map.block_height;
+		const left = tiles.originX + hit.tileX * bw;
+		const top = tiles.originY + tiles.gridY(hit.tileY) * bh;
+		const b = body.bounds;
+		this.debugContacts.push({
+			x: (Math.max(left, b.left) + Math.min(left + bw, b.right)) / 2,
+			y: (Math.max(top, b.top) + Math.min(top + bh, b.bottom)) / 2,
+			// From the body into the tile, like body pairs draw a to b
+			nx: -hit.nx,
+			ny: -hit.ny,
+		});
+	}
+
+	/** Contacts are only diffed while someone is listening */
+	private _trackingContacts(): boolean {
+		return this.contactListeners.size > 0 || (this.publishing && this.eventSink !== null);
+	}
+
+	private _dispatchContact(contact: Contact, phase: ContactPhase): void {
+		const event = contactEventName(contact.trigger, phase);
+		this._emitContact(contact.a, event, phase, contact.resultA);
+		if (contact.resultB) this._emitContact(contact.b, event, phase, contact.resultB);
+	}
+
+	private _emitContact(bodyId: number, event: ContactEvent, phase: ContactPhase, result: CollisionResult): void {
+		const listeners = this.contactListeners.get(bodyId);
+		if (listeners) {
+			// Copy: a listener may add or remove listeners while we iterate
+			for (const l of listeners.slice()) {
+				if (l.event === event) l.cb(result);
+			}
+		}
+		const sink = this.eventSink;
+		if (sink && this.publishing && (phase !== "stay" || this.publishStay)) {
+			sink(`physics.${event}`, { ...result, tag: this.bodies.get(bodyId)?.tag ?? "" });
+		}
+	}
+
+	private _jointActive(joint: Joint): boolean {
+		return joint.a.active && (joint.b === null || joint.b.active);
+	}
+
+	private _cast(
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		cast: CastShape,
+		mask: LayerSpec | undefined,
+		ignoreId: number | undefined,
+		all: boolean,
+	): RaycastHit[] {
+		this._refreshBroadphase();
+		const bits = this.layers.resolve(mask, ALL_LAYERS);
+		const dx = x2 - x1;
+		const dy = y2 - y1;
+		const grow = Math.max(cast.hw, cast.hh) + cast.radius;
+
+		const candidates: PhysicsBody[] = [];
+		this.broadphase.query(
+			Math.min(x1, x2) - grow,
+			Math.min(y1, y2) - grow,
+			Math.max(x1, x2) + grow,
+			Math.max(y1, y2) + grow,
+			candidates,
+		);
+
+		const hits: RaycastHit[] = [];
+		for (const b of candidates) {
+			if (b.isTrigger || b.id === ignoreId || (b.category & bits) === 0) continue;
+			const hit = castAgainstBody(x1, y1, dx, dy, cast, b);
+			if (!hit) continue;
+			hits.push({
+				bodyId: b.id,
+				tag: b.tag,
+				x: x1 + dx * hit.t,
+				y: y1 + dy * hit.t,
+				nx: hit.nx,
+				ny: hit.ny,
+				fraction: hit.t,
+			});
+		}
+
+		const tiles = this.tiles;
+		if (tiles && (tiles.category & bits) !== 0) {
+			const tileHit = tiles.cast(x1, y1, dx, dy, cast);
+			if (tileHit) {
+				const { hit, col, row } = tileHit;
+				hits.push({
+					bodyId: -1,
+					tag: "tile",
+					x: x1 + dx * hit.t,
+					y: y1 + dy * hit.t,
+					nx: hit.nx,
+					ny: hit.ny,
+					fraction: hit.t,
+					tileX: col,
+					tileY: tiles.gridY(row),
+				});
+			}
+		}
+
+		hits.sort((a, b) => a.fraction - b.fraction || a.bodyId - b.bodyId);
+		if (!all) hits.length = Math.min(hits.length, 1);
+		return hits;
+	}
+
+	/** Recomputes body bounds and rebuilds the broad phase if anything moved since the last build */
+	private _refreshBroadphase(): void {
+		if (!this.broadphaseDirty) return;
+		const active: PhysicsBody[] = [];
+		for (const b of this.bodies.values()) {
+			if (!b.active) continue;
+			computeBounds(b.shape, b.x, b.y, b.bounds, b.angle);
+			active.push(b);
+		}
+		this.broadphase.update(active);
+		this.broadphaseDirty = false;
+	}
+
+	private _testPair(a: PhysicsBody, b: PhysicsBody): (Hit & Partial<ContactHit>) | null {
+		const as = a.shape;
+		const bs = b.shape;
 		if (as.type === "aabb" && bs.type === "aabb") {
 			return testAABBvsAABB(a.x, a.y, as, b.x, b.y, bs);
 		}
@@ -192,8 +996,13 @@ export class PhysicsWorld {
 		}
 		if (as.type === "circle" && bs.type === "aabb") {
 			const hit = testAABBvsCircle(b.x, b.y, bs, a.x, a.y, as);
-			if (hit) return { nx: -hit.nx, ny: -hit.ny, depth: hit.depth };
+			return hit ? { nx: -hit.nx, ny: -hit.ny, depth: hit.depth } : null;
 		}
-		return null;
+		// Polygons, capsules and segments go through the separating-axis test
+		return testConvex(bodyConvex(a), bodyConvex(b));
 	}
 }
+
+function pairKey(a: number, b: number): string {
+	return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
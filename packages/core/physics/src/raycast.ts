@@ -0,0 +1,281 @@
+import type { PhysicsBody } from "./body";
+import { bodyConvex, type Convex, edgeNormals, pointInConvex } from "./sat";
+import { computeBounds } from "./shapes";
+
+export interface RaycastHit {
+	/** Id of the body hit, or -1 for a tile */
+	bodyId: number;
+	tag: string;
+	/** Ray: the contact point. Shape casts: the cast shape's centre at the moment of impact. */
+	x: number;
+	y: number;
+	nx: number;
+	ny: number;
+	/** Distance along the cast, 0 at the start point and 1 at the end point */
+	fraction: number;
+	tileX?: number;
+	tileY?: number;
+}
+
+/**
+ * The shape being swept: a box of half extents (hw, hh) with corners rounded
+ * by `radius`. A ray is all zeros, a circle is a zero box with a radius.
+ */
+export interface CastShape {
+	hw: number;
+	hh: number;
+	radius: number;
+}
+
+export const RAY: CastShape = { hw: 0, hh: 0, radius: 0 };
+
+export interface CastHit {
+	t: number;
+	nx: number;
+	ny: number;
+}
+
+function rayVsCircle(
+	ox: number,
+	oy: number,
+	dx: number,
+	dy: number,
+	cx: number,
+	cy: number,
+	r: number,
+): CastHit | null {
+	const mx = ox - cx;
+	const my = oy - cy;
+	const c = mx * mx + my * my - r * r;
+	if (c <= 0) {
+		const len = Math.sqrt(dx * dx + dy * dy) || 1;
+		return { t: 0, nx: -dx / len, ny: -dy / len };
+	}
+	const a = dx * dx + dy * dy;
+	if (a === 0) return null;
+	const b = mx * dx + my * dy;
+	if (b > 0) return null;
+	const disc = b * b - a * c;
+	if (disc < 0) return null;
+	const t = (-b - Math.sqrt(disc)) / a;
+	if (t > 1) return null;
+	const hx = mx + dx * t;
+	const hy = my + dy * t;
+	return { t, nx: hx / r, ny: hy / r };
+}
+
+/**
+ * Sweeps the segment o → o + d against the box (left, top, right, bottom)
+ * grown by `radius` with rounded corners. Returns the entry time in [0, 1].
+ */
+export function rayVsRoundedBox(
+	ox: number,
+	oy: number,
+	dx: number,
+	dy: number,
+	left: number,
+	top: number,
+	right: number,
+	bottom: number,
+	radius: number,
+): CastHit | null {
+	const l = left - radius;
+	const t = top - radius;
+	const r = right + radius;
+	const b = bottom + radius;
+
+	let tmin = Number.NEGATIVE_INFINITY;
+	let tmax = Number.POSITIVE_INFINITY;
+	let nx = 0;
+	let ny = 0;
+
+	if (dx === 0) {
+		if (ox < l || ox > r) return null;
+	} else {
+		const inv = 1 / dx;
+		let t1 = (l - ox) * inv;
+		let t2 = (r - ox) * inv;
+		let n = -1;
+		if (t1 > t2) {
+			[t1, t2] = [t2, t1];
+			n = 1;
+		}
+		if (t1 > tmin) {
+			tmin = t1;
+			nx = n;
+			ny = 0;
+		}
+		tmax = Math.min(tmax, t2);
+	}
+
+	if (dy === 0) {
+		if (oy < t || oy > b) return null;
+	} else {
+		const inv = 1 / dy;
+		let t1 = (t - oy) * inv;
+		let t2 = (b - oy) * inv;
+		let n = -1;
+		if (t1 > t2) {
+			[t1, t2] = [t2, t1];
+			n = 1;
+		}
+		if (t1 > tmin) {
+			tmin = t1;
+			nx = 0;
+			ny = n;
+		}
+		tmax = Math.min(tmax, t2);
+	}
+
+	if (tmin > tmax || tmax < 0 || tmin > 1) return null;
+
+	let hit: CastHit;
+	if (tmin < 0) {
+		const len = Math.sqrt(dx * dx + dy * dy) || 1;
+		hit = { t: 0, nx: -dx / len, ny: -dy / len };
+	} else {
+		hit = { t: tmin, nx, ny };
+	}
+	if (radius <= 0) return hit;
+
+	// Entry point in one of the corner squares: the real surface there is a quarter circle
+	const px = ox + dx * hit.t;
+	const py = oy + dy * hit.t;
+	const cx = px < left ? left : px > right ? right : null;
+	const cy = py < top ? top : py > bottom ? bottom : null;
+	if (cx === null || cy === null) return hit;
+	return rayVsCircle(ox, oy, dx, dy, cx, cy, radius);
+}
+
+/**
+ * Sweeps the segment o → o + d against a convex shape. Tests each face pushed
+ * out by the radius and each vertex as a circle; the earliest entry wins.
+ */
+function rayVsConvex(ox: number, oy: number, dx: number, dy: number, convex: Convex): CastHit | null {
+	if (pointInConvex(ox, oy, convex)) {
+		const len = Math.sqrt(dx * dx + dy * dy) || 1;
+		return { t: 0, nx: -dx / len, ny: -dy / len };
+	}
+	const r = convex.radius;
+	let best: CastHit | null = null;
+
+	const edges = edgeNormals(convex.points);
+	for (let k = 0; k < edges.length; k += 6) {
+		const nx = edges[k + 4];
+		const ny = edges[k + 5];
+		const facing = dx * nx + dy * ny;
+		if (facing >= 0) continue;
+		const px = edges[k] + nx * r;
+		const py = edges[k + 1] + ny * r;
+		const t = ((px - ox) * nx + (py - oy) * ny) / facing;
+		if (t < 0 || t > 1 || (best && t >= best.t)) continue;
+		// The hit must land within the face, not on its extension
+		const ex = edges[k + 2] - edges[k];
+		const ey = edges[k + 3] - edges[k + 1];
+		const along = (ox + dx * t - px) * ex + (oy + dy * t - py) * ey;
+		if (along < 0 || along > ex * ex + ey * ey) continue;
+		best = { t, nx, ny };
+	}
+
+	if (r > 0) {
+		const points = convex.points;
+		for (let i = 0; i < points.length; i += 2) {
+			const hit = rayVsCircle(ox, oy, dx, dy, points[i], points[i + 1], r);
+			if (hit && (!best || hit.t < best.t)) best = hit;
+		}
+	}
+	return best;
+}
+
+/** Convex hull of a point set (monotone chain), as a flat list */
+function hull(points: number[]): number[] {
+	const idx: number[] = [];
+	for (let i = 0; i < points.length; i += 2) idx.push(i);
+	idx.sort((a, b) => points[a] - points[b] || points[a + 1] - points[b + 1]);
+	const cross = (o: number, a: number, b: number) =>
+		(points[a] - points[o]) * (points[b + 1] - points[o + 1]) - (points[a + 1] - points[o + 1]) * (points[b] - points[o]);
+	const lower: number[] = [];
+	for (const i of idx) {
+		while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], i) <= 0) lower.pop();
+		lower.push(i);
+	}
+	const upper: number[] = [];
+	for (let k = idx.length - 1; k >= 0; k--) {
+		const i = idx[k];
+		while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], i) <= 0) upper.pop();
+		upper.push(i);
+	}
+	lower.pop();
+	upper.pop();
+	const out: number[] = [];
+	for (const i of lower.concat(upper)) out.push(points[i], points[i + 1]);
+	return out;
+}
+
+/** The cast shape matching a body's own shape, and the world position of its centre */
+export function bodyCastShape(body: PhysicsBody, x: number, y: number): { cast: CastShape; cx: number; cy: number } {
+	const shape = body.shape;
+	if (shape.type === "aabb") {
+		return {
+			cast: { hw: shape.w / 2, hh: shape.h / 2, radius: 0 },
+			cx: x + shape.x + shape.w / 2,
+			cy: y + shape.y + shape.h / 2,
+		};
+	}
+	if (shape.type === "circle") {
+		return { cast: { hw: 0, hh: 0, radius: shape.r }, cx: x + shape.x, cy: y + shape.y };
+	}
+	// Other shapes sweep as their bounding box, which can only stop them early, never let them through
+	const b = computeBounds(shape, x, y, { left: 0, top: 0, right: 0, bottom: 0 }, body.angle);
+	return {
+		cast: { hw: (b.right - b.left) / 2, hh: (b.bottom - b.top) / 2, radius: 0 },
+		cx: (b.left + b.right) / 2,
+		cy: (b.top + b.bottom) / 2,
+	};
+}
+
+/** Sweeps `cast` from (ox, oy) by (dx, dy) against a body's shape */
+export function castAgainstBody(
+	ox: number,
+	oy: number,
+	dx: number,
+	dy: number,
+	cast: CastShape,
+	body: PhysicsBody,
+): CastHit | null {
+	const shape = body.shape;
+	if (shape.type === "aabb") {
+		const left = body.x + shape.x;
+		const top = body.y + shape.y;
+		return rayVsRoundedBox(
+			ox,
+			oy,
+			dx,
+			dy,
+			left - cast.hw,
+			top - cast.hh,
+			left + shape.w + cast.hw,
+			top + shape.h + cast.hh,
+			cast.radius,
+		);
+	}
+	if (shape.type === "circle") {
+		const cx = body.x + shape.x;
+		const cy = body.y + shape.y;
+		return rayVsRoundedBox(ox, oy, dx, dy, cx - cast.hw, cy - cast.hh, cx + cast.hw, cy + cast.hh, cast.radius + shape.r);
+	}
+
+	// Grow the body's shape by the cast box (Minkowski sum) so the cast reduces to a ray
+	const convex = bodyConvex(body);
+	let points = convex.points;
+	if (cast.hw > 0 || cast.hh > 0) {
+		const grown: number[] = [];
+		for (let i = 0; i < points.length; i += 2) {
+			const x = points[i];
+			const y = points[i + 1];
+			grown.push(x - cast.hw, y - cast.hh, x + cast.hw, y - cast.hh, x + cast.hw, y + cast.hh, x - cast.hw, y + cast.hh);
+		}
+		points = hull(grown);
+	}
+	return rayVsConvex(ox, oy, dx, dy, { points, radius: convex.radius + cast.radius });
+}
@@ -0,0 +1,283 @@
+import type { PhysicsBody } from "./body";
+import type { Hit } from "./collision";
+import { type Shape, shapePoints } from "./shapes";
+
+/** A shape in world space: the convex hull of `points` grown by `radius` */
+export interface Convex {
+	/** Flat list of vertices: [x0, y0, x1, y1, ...]. One point for circles, two for capsules and segments. */
+	points: number[];
+	radius: number;
+}
+
+export interface ContactHit extends Hit {
+	/** World-space contact point, used to turn the bodies */
+	px: number;
+	py: number;
+	/** When two faces lie flat on each other: the ends of the touching span. Resting on both keeps bodies from rocking. */
+	px1?: number;
+	py1?: number;
+	px2?: number;
+	py2?: number;
+}
+
+// Vertices this close to the deepest one count as part of the same contact face
+const FACE_TOLERANCE = 0.5;
+
+/** World-space convex form of a shape placed at (x, y) and turned by `angle` radians */
+export function toConvex(shape: Shape, x: number, y: number, angle: number): Convex {
+	if (shape.type === "aabb") {
+		const l = x + shape.x;
+		const t = y + shape.y;
+		const r = l + shape.w;
+		const b = t + shape.h;
+		return { points: [l, t, r, t, r, b, l, b], radius: 0 };
+	}
+	if (shape.type === "circle") {
+		return { points: [x + shape.x, y + shape.y], radius: shape.r };
+	}
+	const local = shapePoints(shape);
+	const cos = Math.cos(angle);
+	const sin = Math.sin(angle);
+	const points: number[] = new Array(local.length);
+	for (let i = 0; i < local.length; i += 2) {
+		points[i] = x + local[i] * cos - local[i + 1] * sin;
+		points[i + 1] = y + local[i] * sin + local[i + 1] * cos;
+	}
+	return { points, radius: shape.type === "capsule" ? shape.r : 0 };
+}
+
+export function bodyConvex(body: PhysicsBody): Convex {
+	return toConvex(body.shape, body.x, body.y, body.angle);
+}
+
+/**
+ * Edges of a convex core as [px, py, qx, qy, nx, ny] runs with outward unit
+ * normals. A two-point core has both faces of its segment; a point has none.
+ */
+export function edgeNormals(points: number[]): number[] {
+	const n = points.length / 2;
+	const out: number[] = [];
+	if (n < 2) return out;
+
+	let cx = 0;
+	let cy = 0;
+	for (let i = 0; i < points.length; i += 2) {
+		cx += points[i];
+		cy += points[i + 1];
+	}
+	cx /= n;
+	cy /= n;
+
+	for (let i = 0; i < n; i++) {
+		const j = (i + 1) % n;
+		const px = points[i * 2];
+		const py = points[i * 2 + 1];
+		const qx = points[j * 2];
+		const qy = points[j * 2 + 1];
+		const ex = qx - px;
+		const ey = qy - py;
+		const len = Math.sqrt(ex * ex + ey * ey);
+		if (len === 0) continue;
+		let nx = ey / len;
+		let ny = -ex / len;
+		if (n === 2) {
+			// Both sides of a segment face outwards
+			out.push(px, py, qx, qy, nx, ny, qx, qy, px, py, -nx, -ny);
+			break;
+		}
+		if ((cx - px) * nx + (cy - py) * ny > 0) {
+			nx = -nx;
+			ny = -ny;
+		}
+		out.push(px, py, qx, qy, nx, ny);
+	}
+	return out;
+}
+
+/** Separating axis candidates: every edge normal, plus the direction of a segment */
+function pushAxes(points: number[], axes: number[]): void {
+	const n = points.length / 2;
+	if (n < 2) return;
+	const edges = n === 2 ? 1 : n;
+	for (let i = 0; i < edges; i++) {
+		const j = (i + 1) % n;
+		const ex = points[j * 2] - points[i * 2];
+		const ey = points[j * 2 + 1] - points[i * 2 + 1];
+		const len = Math.sqrt(ex * ex + ey * ey);
+		if (len === 0) continue;
+		axes.push(-ey / len, ex / len);
+		if (n === 2) axes.push(ex / len, ey / len);
+	}
+}
+
+const span = { min: 0, max: 0 };
+
+function project(points: number[], nx: number, ny: number): typeof span {
+	span.min = Number.POSITIVE_INFINITY;
+	span.max = Number.NEGATIVE_INFINITY;
+	for (let i = 0; i < points.length; i += 2) {
+		const d = points[i] * nx + points[i + 1] * ny;
+		if (d < span.min) span.min = d;
+		if (d > span.max) span.max = d;
+	}
+	return span;
+}
+
+/**
+ * Separating-axis test between two convex shapes. The normal points from A
+ * towards B, like the AABB and circle tests, and the contact point lies
+ * between the two touching faces. With `alongB`, overlapping shapes are pushed
+ * apart along one of B's face normals only — tiles use this so bodies never
+ * catch on the corners where two tiles meet.
+ */
+export function testConvex(a: Convex, b: Convex, alongB = false): ContactHit | null {
+	const radius = a.radius + b.radius;
+	const axes: number[] = [];
+	pushAxes(a.points, axes);
+	const firstB = alongB ? axes.length : 0;
+	pushAxes(b.points, axes);
+
+	if (axes.length > 0) {
+		let best = Number.POSITIVE_INFINITY;
+		let bnx = 0;
+		let bny = 0;
+		let separated = false;
+		for (let k = 0; k < axes.length; k += 2) {
+			const nx = axes[k];
+			const ny = axes[k + 1];
+			const { min: aMin, max: aMax } = project(a.points, nx, ny);
+			const { min: bMin, max: bMax } = project(b.points, nx, ny);
+			const forward = bMin - aMax;
+			const backward = aMin - bMax;
+			const gap = Math.max(forward, backward);
+			if (gap > 0) {
+				separated = true;
+				break;
+			}
+			if (-gap < best && k >= firstB) {
+				best = -gap;
+				const sign = forward >= backward ? 1 : -1;
+				bnx = nx * sign;
+				bny = ny * sign;
+			}
+		}
+		if (!separated) return contactOnAxis(a, b, bnx, bny, best + radius);
+	}
+
+	// The cores are apart: rounded shapes still touch if the gap is within their radii
+	if (radius <= 0) return null;
+	const c = closestPoints(a.points, b.points);
+	if (c.dist >= radius) return null;
+	let nx = 1;
+	let ny = 0;
+	if (c.dist > 0) {
+		nx = (c.bx - c.ax) / c.dist;
+		ny = (c.by - c.ay) / c.dist;
+	}
+	const depth = radius - c.dist;
+	const reach = a.radius - depth / 2;
+	return { nx, ny, depth, px: c.ax + nx * reach, py: c.ay + ny * reach };
+}
+
+/** Contact point for overlapping cores: the middle of where A's leading face meets B's */
+function contactOnAxis(a: Convex, b: Convex, nx: number, ny: number, depth: number): ContactHit {
+	const tx = -ny;
+	const ty = nx;
+
+	const aLevel = project(a.points, nx, ny).max;
+	let aLo = Number.POSITIVE_INFINITY;
+	let aHi = Number.NEGATIVE_INFINITY;
+	for (let i = 0; i < a.points.length; i += 2) {
+		if (a.points[i] * nx + a.points[i + 1] * ny < aLevel - FACE_TOLERANCE) continue;
+		const t = a.points[i] * tx + a.points[i + 1] * ty;
+		if (t < aLo) aLo = t;
+		if (t > aHi) aHi = t;
+	}
+
+	const bLevel = project(b.points, nx, ny).min;
+	let bLo = Number.POSITIVE_INFINITY;
+	let bHi = Number.NEGATIVE_INFINITY;
+	for (let i = 0; i < b.points.length; i += 2) {
+		if (b.points[i] * nx + b.points[i + 1] * ny > bLevel + FACE_TOLERANCE) continue;
+		const t = b.points[i] * tx + b.points[i + 1] * ty;
+		if (t < bLo) bLo = t;
+		if (t > bHi) bHi = t;
+	}
+
+	// Middle of the faces' overlap, or of the gap between them when they only meet at corners
+	const lo = Math.max(aLo, bLo);
+	const hi = Math.min(aHi, bHi);
+	const t = (lo + hi) / 2;
+	const n = (aLevel + a.radius + bLevel - b.radius) / 2;
+	const hit: ContactHit = { nx, ny, depth, px: nx * n + tx * t, py: ny * n + ty * t };
+	if (hi - lo > FACE_TOLERANCE) {
+		hit.px1 = nx * n + tx * lo;
+		hit.py1 = ny * n + ty * lo;
+		hit.px2 = nx * n + tx * hi;
+		hit.py2 = ny * n + ty * hi;
+	}
+	return hit;
+}
+
+const closest = { ax: 0, ay: 0, bx: 0, by: 0, dist: 0 };
+
+/** Closest points between two non-overlapping convex cores */
+function closestPoints(a: number[], b: number[]): typeof closest {
+	let best = Number.POSITIVE_INFINITY;
+	const visit = (points: number[], edges: number[], swap: boolean) => {
+		const n = edges.length / 2;
+		const segments = n <= 2 ? 1 : n;
+		for (let i = 0; i < points.length; i += 2) {
+			const x = points[i];
+			const y = points[i + 1];
+			for (let e = 0; e < segments; e++) {
+				const j = (e + 1) % n;
+				const px = edges[e * 2];
+				const py = edges[e * 2 + 1];
+				const ex = edges[j * 2] - px;
+				const ey = edges[j * 2 + 1] - py;
+				const len2 = ex * ex + ey * ey;
+				const s = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((x - px) * ex + (y - py) * ey) / len2));
+				const cx = px + ex * s;
+				const cy = py + ey * s;
+				const d2 = (x - cx) * (x - cx) + (y - cy) * (y - cy);
+				if (d2 < best) {
+					best = d2;
+					if (swap) {
+						closest.ax = cx;
+						closest.ay = cy;
+						closest.bx = x;
+						closest.by = y;
+					} else {
+						closest.ax = x;
+						closest.ay = y;
+						closest.bx = cx;
+						closest.by = cy;
+					}
+				}
+			}
+		}
+	};
+	visit(a, b, false);
+	visit(b, a, true);
+	closest.dist = Math.sqrt(best);
+	return closest;
+}
+
+/** Whether (x, y) lies inside the convex shape */
+export function pointInConvex(x: number, y: number, convex: Convex): boolean {
+	const points = convex.points;
+	if (points.length >= 6) {
+		let inside = true;
+		const edges = edgeNormals(points);
+		for (let k = 0; k < edges.length; k += 6) {
+			if ((x - edges[k]) * edges[k + 4] + (y - edges[k + 1]) * edges[k + 5] > 0) {
+				inside = false;
+				break;
+			}
+		}
+		if (inside) return true;
+	}
+	if (convex.radius <= 0) return false;
+	return closestPoints([x, y], points).dist <= convex.radius;
+}
@@ -15,4 +15,124 @@ export interface Circle {
 	r: number;
 }
 
-export type Shape = AABB | Circle;
+/** Convex polygon. Points are offsets from (x, y) in any winding order. */
+export interface Polygon {
+	type: "polygon";
+	/** Offset from body origin */
+	x: number;
+	y: number;
+	/** Flat list of vertices: [x0, y0, x1, y1, ...] */
+	points: number[];
+}
+
+/** Vertical capsule of total height `h` centred on (x, y), with round caps of radius `r` */
+export interface Capsule {
+	type: "capsule";
+	/** Offset from body origin */
+	x: number;
+	y: number;
+	h: number;
+	r: number;
+}
+
+/** Line segment with no thickness, for slanted platforms and walls */
+export interface Segment {
+	type: "segment";
+	/** Endpoints, relative to the body origin */
+	x1: number;
+	y1: number;
+	x2: number;
+	y2: number;
+}
+
+/** AABB and circle shapes ignore body rotation; polygons, capsules and segments turn about the body origin. */
+export type Shape = AABB | Circle | Polygon | Capsule | Segment;
+
+export interface Bounds {
+	left: number;
+	top: number;
+	right: number;
+	bottom: number;
+}
+
+/** Writes the world-space bounding box of `shape` placed at (x, y) and turned by `angle` radians into `out` */
+export function computeBounds(shape: Shape, x: number, y: number, out: Bounds, angle = 0): Bounds {
+	if (shape.type === "aabb") {
+		out.left = x + shape.x;
+		out.top = y + shape.y;
+		out.right = out.left + shape.w;
+		out.bottom = out.top + shape.h;
+	} else if (shape.type === "circle") {
+		out.left = x + shape.x - shape.r;
+		out.top = y + shape.y - shape.r;
+		out.right = x + shape.x + shape.r;
+		out.bottom = y + shape.y + shape.r;
+	} else {
+		const points = shapePoints(shape);
+		const cos = Math.cos(angle);
+		const sin = Math.sin(angle);
+		const r = shape.type === "capsule" ? shape.r : 0;
+		out.left = out.top = Number.POSITIVE_INFINITY;
+		out.right = out.bottom = Number.NEGATIVE_INFINITY;
+		for (let i = 0; i < points.length; i += 2) {
+			const px = x + points[i] * cos - points[i + 1] * sin;
+			const py = y + points[i] * sin + points[i + 1] * cos;
+			if (px - r < out.left) out.left = px - r;
+			if (px + r > out.right) out.right = px + r;
+			if (py - r < out.top) out.top = py - r;
+			if (py + r > out.bottom) out.bottom = py + r;
+		}
+	}
+	return out;
+}
+
+/**
+ * Vertices of a polygon, capsule or segment relative to the body origin, before
+ * rotation. A capsule is the segment between its cap centres; its radius is added on top.
+ */
+export function shapePoints(shape: Polygon | Capsule | Segment): number[] {
+	if (shape.type === "segment") return [shape.x1, shape.y1, shape.x2, shape.y2];
+	if (shape.type === "capsule") {
+		const half = Math.max(0, shape.h / 2 - shape.r);
+		return [shape.x, shape.y - half, shape.x, shape.y + half];
+	}
+	const points: number[] = [];
+	for (let i = 0; i + 1 < shape.points.length; i += 2) {
+		points.push(shape.x + shape.points[i], shape.y + shape.points[i + 1]);
+	}
+	return points;
+}
+
+/** Moment of inertia about the body origin. AABBs and circles ignore rotation, so they report 0. */
+export function shapeInertia(shape: Shape, mass: number): number {
+	switch (shape.type) {
+		case "aabb":
+		case "circle":
+			return 0;
+		case "capsule": {
+			const w = shape.r * 2;
+			return mass * ((w * w + shape.h * shape.h) / 12 + shape.x * shape.x + shape.y * shape.y);
+		}
+		case "segment": {
+			const dx = shape.x2 - shape.x1;
+			const dy = shape.y2 - shape.y1;
+			const cx = (shape.x1 + shape.x2) / 2;
+			const cy = (shape.y1 + shape.y2) / 2;
+			return mass * ((dx * dx + dy * dy) / 12 + cx * cx + cy * cy);
+		}
+		case "polygon": {
+			const p = shapePoints(shape);
+			let num = 0;
+			let den = 0;
+			for (let i = 0; i < p.length; i += 2) {
+				const j = (i + 2) % p.length;
+				const cross = p[i] * p[j + 1] - p[j] * p[i + 1];
+				const dots =
+					p[i] * p[i] + p[i + 1] * p[i + 1] + p[i] * p[j] + p[i + 1] * p[j + 1] + p[j] * p[j] + p[j + 1] * p[j + 1];
+				num += cross * dots;
+				den += cross;
+			}
+			return den === 0 ? 0 : (mass * num) / (6 * den);
+		}
+	}
+}
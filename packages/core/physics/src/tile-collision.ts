@@ -0,0 +1,373 @@
+import { type CollisionResult, createBody, type PhysicsBody } from "./body";
+import { applyContactImpulse, applyManifoldImpulse, type Hit, testAABBvsAABB, testAABBvsCircle } from "./collision";
+import type { LayerSpec } from "./layers";
+import { type CastHit, type CastShape, rayVsRoundedBox } from "./raycast";
+import { bodyConvex, type ContactHit, testConvex, toConvex } from "./sat";
+import { type AABB, computeBounds } from "./shapes";
+
+/**
+ * Anything shaped like `TileMap` from @al8b/map. Kept structural so the
+ * physics package does not depend on the map package.
+ */
+export interface TileSource {
+	width: number;
+	height: number;
+	block_width: number;
+	block_height: number;
+	/** Ref at a grid cell of the given map layer, or of the bottom layer when it is left out */
+	get(x: number, y: number, layer?: string | number): string | number | null;
+	/** Custom properties of a tile ref; a `solid: false` property makes the default rule skip it */
+	getTileProperties?(ref: string): Record<string, unknown> | null;
+}
+
+/** A list of tile refs (full "sprite:x,y" refs or bare sprite names), or a predicate on the ref */
+export type TileRule = string[] | ((ref: string) => boolean);
+
+/**
+ * Floor heights at the left and right edge of a slope tile, as a fraction of
+ * the tile height measured from its bottom. `{ left: 0, right: 1 }` rises to the right.
+ */
+export interface SlopeSpec {
+	left: number;
+	right: number;
+}
+
+export interface TileCollisionConfig {
+	/** Tiles that block from every side */
+	solid: TileRule;
+	/** Tiles that only block bodies landing on them from above */
+	oneWay?: TileRule;
+	/** Floor slopes keyed by tile ref or sprite name */
+	slopes?: Record<string, SlopeSpec | [number, number]>;
+	/** World position of the map's top-left corner */
+	x?: number;
+	y?: number;
+	/** Grid row 0 is the bottom row, as `TileMap` draws it. Set false for top-down row order. */
+	flipY?: boolean;
+	/** Map layer to collide with, by name or index. Defaults to the map's bottom layer. */
+	mapLayer?: string | number;
+	/** Collision layer the tiles belong to, checked against each body's mask */
+	layer?: LayerSpec;
+	restitution?: number;
+}
+
+const EMPTY = 0;
+const SOLID = 1;
+const ONE_WAY = 2;
+const SLOPE = 3;
+
+// Tolerance for one-way platforms: a body resting exactly on the top edge still lands
+const ONE_WAY_SLOP = 0.5;
+
+function spriteName(ref: string): string {
+	const colon = ref.indexOf(":");
+	return colon === -1 ? ref : ref.substring(0, colon);
+}
+
+function matches(rule: TileRule | undefined, ref: string): boolean {
+	if (!rule) return false;
+	if (typeof rule === "function") return !!rule(ref);
+	return rule.includes(ref) || rule.includes(spriteName(ref));
+}
+
+export class TileCollider {
+	readonly map: TileSource;
+	readonly category: number;
+	private readonly config: TileCollisionConfig;
+	private kinds: Map<string, number> = new Map();
+	private slopes: Map<string, SlopeSpec> = new Map();
+	private readonly box: AABB = { type: "aabb", x: 0, y: 0, w: 0, h: 0 };
+	/** Immovable stand-in for the tiles in impulse maths */
+	private readonly anchor: PhysicsBody;
+
+	constructor(map: TileSource, config: TileCollisionConfig, category: number) {
+		this.map = map;
+		this.config = config;
+		this.category = category;
+		this.anchor = createBody(-1, { x: 0, y: 0, mass: 0, shape: this.box, restitution: config.restitution ?? 0 });
+		for (const [ref, spec] of Object.entries(config.slopes ?? {})) {
+			this.slopes.set(ref, Array.isArray(spec) ? { left: spec[0], right: spec[1] } : spec);
+		}
+	}
+
+	get originX(): number {
+		return this.config.x ?? 0;
+	}
+
+	get originY(): number {
+		return this.config.y ?? 0;
+	}
+
+	/** Tile ref at a world-space row/column (rows counted top-down), or null when empty */
+	refAt(col: number, row: number): string | null {
+		const map = this.map;
+		if (col < 0 || row < 0 || col >= map.width || row >= map.height) return null;
+		const gy = this.config.flipY === false ? row : map.height - 1 - row;
+		const ref = map.get(col, gy, this.config.mapLayer);
+		return typeof ref === "string" && ref.length > 0 ? ref : null;
+	}
+
+	/** Converts a world-space row back to the map's own grid y */
+	gridY(row: number): number {
+		return this.config.flipY === false ? row : this.map.height - 1 - row;
+	}
+
+	isSolid(col: number, row: number): boolean {
+		return this._kind(col, row) === SOLID;
+	}
+
+	/** Pushes `body` out of every blocking tile it overlaps and records the contacts */
+	resolve(body: PhysicsBody, out: CollisionResult[]): void {
+		const bw = this.map.block_width;
+		const bh = this.map.block_height;
+		if (bw <= 0 || bh <= 0) return;
+
+		const bounds = computeBounds(body.shape, body.x, body.y, body.bounds, body.angle);
+		const ox = this.originX;
+		const oy = this.originY;
+		const c0 = Math.max(0, Math.floor((bounds.left - ox) / bw));
+		const c1 = Math.min(this.map.width - 1, Math.floor((bounds.right - ox) / bw));
+		const r0 = Math.max(0, Math.floor((bounds.top - oy) / bh));
+		const r1 = Math.min(this.map.height - 1, Math.floor((bounds.bottom - oy) / bh));
+		if (c0 > c1 || r0 > r1) return;
+
+		const resolveBody = !body.isTrigger && body.invMass > 0;
+
+		// Slopes first: they lift the body before the flat tiles next to them are tested
+		for (let row = r0; row <= r1; row++) {
+			for (let col = c0; col <= c1; col++) {
+				if (this._kind(col, row) === SLOPE) this._resolveSlope(body, col, row, resolveBody, out);
+			}
+		}
+
+		for (let row = r0; row <= r1; row++) {
+			for (let col = c0; col <= c1; col++) {
+				const kind = this._kind(col, row);
+				if (kind === SOLID) {
+					this._resolveSolid(body, col, row, resolveBody, out);
+				} else if (kind === ONE_WAY) {
+					this._resolveOneWay(body, col, row, resolveBody, out);
+				}
+			}
+		}
+	}
+
+	/** Sweeps `cast` from (ox, oy) by (dx, dy) and returns the first solid tile it touches */
+	cast(
+		ox: number,
+		oy: number,
+		dx: number,
+		dy: number,
+		cast: CastShape,
+	): { hit: CastHit; col: number; row: number } | null {
+		const bw = this.map.block_width;
+		const bh = this.map.block_height;
+		if (bw <= 0 || bh <= 0) return null;
+
+		if (cast.hw === 0 && cast.hh === 0 && cast.radius === 0) {
+			return this._castRay(ox, oy, dx, dy);
+		}
+
+		const grow = Math.max(cast.hw, cast.hh) + cast.radius;
+		const c0 = Math.max(0, Math.floor((Math.min(ox, ox + dx) - grow - this.originX) / bw));
+		const c1 = Math.min(this.map.width - 1, Math.floor((Math.max(ox, ox + dx) + grow - this.originX) / bw));
+		const r0 = Math.max(0, Math.floor((Math.min(oy, oy + dy) - grow - this.originY) / bh));
+		const r1 = Math.min(this.map.height - 1, Math.floor((Math.max(oy, oy + dy) + grow - this.originY) / bh));
+
+		let best: { hit: CastHit; col: number; row: number } | null = null;
+		for (let row = r0; row <= r1; row++) {
+			for (let col = c0; col <= c1; col++) {
+				if (!this.isSolid(col, row)) continue;
+				const left = this.originX + col * bw;
+				const top = this.originY + row * bh;
+				const hit = rayVsRoundedBox(
+					ox,
+					oy,
+					dx,
+					dy,
+					left - cast.hw,
+					top - cast.hh,
+					left + bw + cast.hw,
+					top + bh + cast.hh,
+					cast.radius,
+				);
+				if (hit && (!best || hit.t < best.hit.t)) best = { hit, col, row };
+			}
+		}
+		return best;
+	}
+
+	/** Grid traversal (Amanatides & Woo) so long rays only visit the cells they cross */
+	private _castRay(ox: number, oy: number, dx: number, dy: number): { hit: CastHit; col: number; row: number } | null {
+		const bw = this.map.block_width;
+		const bh = this.map.block_height;
+		let col = Math.floor((ox - this.originX) / bw);
+		let row = Math.floor((oy - this.originY) / bh);
+		const endCol = Math.floor((ox + dx - this.originX) / bw);
+		const endRow = Math.floor((oy + dy - this.originY) / bh);
+		const stepX = Math.sign(dx);
+		const stepY = Math.sign(dy);
+		const deltaX = dx === 0 ? Number.POSITIVE_INFINITY : Math.abs(bw / dx);
+		const deltaY = dy === 0 ? Number.POSITIVE_INFINITY : Math.abs(bh / dy);
+		const nextX = this.originX + (stepX > 0 ? col + 1 : col) * bw;
+		const nextY = this.originY + (stepY > 0 ? row + 1 : row) * bh;
+		let tMaxX = dx === 0 ? Number.POSITIVE_INFINITY : (nextX - ox) / dx;
+		let tMaxY = dy === 0 ? Number.POSITIVE_INFINITY : (nextY - oy) / dy;
+		const maxSteps = Math.abs(endCol - col) + Math.abs(endRow - row) + 1;
+
+		for (let i = 0; i < maxSteps; i++) {
+			if (this.isSolid(col, row)) {
+				const left = this.originX + col * bw;
+				const top = this.originY + row * bh;
+				const hit = rayVsRoundedBox(ox, oy, dx, dy, left, top, left + bw, top + bh, 0);
+				if (hit) return { hit, col, row };
+			}
+			if (tMaxX < tMaxY) {
+				if (tMaxX > 1) break;
+				col += stepX;
+				tMaxX += deltaX;
+			} else {
+				if (tMaxY > 1) break;
+				row += stepY;
+				tMaxY += deltaY;
+			}
+		}
+		return null;
+	}
+
+	private _kind(col: number, row: number): number {
+		const ref = this.refAt(col, row);
+		if (ref === null) return EMPTY;
+		let kind = this.kinds.get(ref);
+		if (kind === undefined) {
+			if (this.slopes.has(ref) || this.slopes.has(spriteName(ref))) kind = SLOPE;
+			else if (matches(this.config.solid, ref)) kind = SOLID;
+			else if (matches(this.config.oneWay, ref)) kind = ONE_WAY;
+			else kind = EMPTY;
+			this.kinds.set(ref, kind);
+		}
+		return kind;
+	}
+
+	private _resolveSolid(
+		body: PhysicsBody,
+		col: number,
+		row: number,
+		resolveBody: boolean,
+		out: CollisionResult[],
+	): void {
+		const box = this.box;
+		box.w = this.map.block_width;
+		box.h = this.map.block_height;
+		const tx = this.originX + col * box.w;
+		const ty = this.originY + row * box.h;
+
+		const shape = body.shape;
+		let hit: (Hit & Partial<ContactHit>) | null;
+		if (shape.type === "aabb") {
+			hit = testAABBvsAABB(body.x, body.y, shape, tx, ty, box);
+		} else if (shape.type === "circle") {
+			const h = testAABBvsCircle(tx, ty, box, body.x, body.y, shape);
+			hit = h ? { nx: -h.nx, ny: -h.ny, depth: h.depth } : null;
+		} else {
+			hit = testConvex(bodyConvex(body), toConvex(box, tx, ty, 0), true);
+		}
+		if (!hit) return;
+
+		// The face we would push out through is shared with another solid tile, so it is
+		// internal — skip it and let the neighbour produce the real contact. This keeps
+		// bodies from catching on the seams between floor tiles.
+		const horizontal = Math.abs(hit.nx) >= Math.abs(hit.ny);
+		const faceCol = horizontal ? col - Math.sign(hit.nx) : col;
+		const faceRow = horizontal ? row : row - Math.sign(hit.ny);
+		if (this.isSolid(faceCol, faceRow)) return;
+
+		this._contact(body, hit.nx, hit.ny, hit.depth, col, row, resolveBody, out, hit);
+	}
+
+	private _resolveOneWay(
+		body: PhysicsBody,
+		col: number,
+		row: number,
+		resolveBody: boolean,
+		out: CollisionResult[],
+	): void {
+		if (body.vy < 0) return;
+		const top = this.originY + row * this.map.block_height;
+		const bottom = body.bounds.bottom;
+		const prevBottom = bottom - (body.y - body.prevY);
+		if (bottom <= top || prevBottom > top + ONE_WAY_SLOP) return;
+		this._contact(body, 0, 1, bottom - top, col, row, resolveBody, out);
+	}
+
+	private _resolveSlope(
+		body: PhysicsBody,
+		col: number,
+		row: number,
+		resolveBody: boolean,
+		out: CollisionResult[],
+	): void {
+		const ref = this.refAt(col, row) as string;
+		const spec = this.slopes.get(ref) ?? (this.slopes.get(spriteName(ref)) as SlopeSpec);
+		const bw = this.map.block_width;
+		const bh = this.map.block_height;
+		const left = this.originX + col * bw;
+		const tileBottom = this.originY + (row + 1) * bh;
+
+		const floorAt = (x: number) => tileBottom - (spec.left + ((spec.right - spec.left) * (x - left)) / bw) * bh;
+
+		const bounds = body.bounds;
+		let floorY: number;
+		if (body.shape.type === "circle" || body.shape.type === "capsule") {
+			// A round bottom rests on the slope under its centre
+			const cx = (bounds.left + bounds.right) / 2;
+			if (cx < left || cx >= left + bw) return;
+			floorY = floorAt(cx);
+		} else {
+			// A box rests on whichever bottom corner meets the slope first
+			floorY = Math.min(floorAt(Math.max(left, bounds.left)), floorAt(Math.min(left + bw, bounds.right)));
+		}
+
+		const prevBottom = bounds.bottom - (body.y - body.prevY);
+		if (bounds.bottom <= floorY || prevBottom > tileBottom) return;
+		this._contact(body, 0, 1, bounds.bottom - floorY, col, row, resolveBody, out);
+	}
+
+	/**
+	 * Applies a contact with normal (nx, ny) pointing from the body into the tile.
+	 * Contact points from the separating-axis test let the bounce turn bodies that can rotate.
+	 */
+	private _contact(
+		body: PhysicsBody,
+		nx: number,
+		ny: number,
+		depth: number,
+		col: number,
+		row: number,
+		resolveBody: boolean,
+		out: CollisionResult[],
+		points?: Partial<ContactHit>,
+	): void {
+		if (resolveBody) {
+			const p = points;
+			if (p?.px1 !== undefined && p.py1 !== undefined && p.px2 !== undefined && p.py2 !== undefined) {
+				applyManifoldImpulse(body, this.anchor, nx, ny, p.px1, p.py1, p.px2, p.py2);
+			} else {
+				applyContactImpulse(body, this.anchor, nx, ny, points?.px, points?.py);
+			}
+			body.x -= nx * depth;
+			body.y -= ny * depth;
+			computeBounds(body.shape, body.x, body.y, body.bounds, body.angle);
+		}
+		out.push({
+			bodyId: body.id,
+			otherId: -1,
+			otherTag: "tile",
+			nx: -nx,
+			ny: -ny,
+			depth,
+			tileX: col,
+			tileY: this.gridY(row),
+		});
+	}
+}
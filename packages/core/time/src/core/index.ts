@@ -2,5 +2,5 @@
  * Core module exports
  */
 
-export type { TimeMachineRuntime } from "./machine";
+export type { SystemStateSource, TimeMachineRuntime } from "./machine";
 export { TimeMachine } from "./machine";
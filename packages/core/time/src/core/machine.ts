@@ -10,14 +10,20 @@
 import { DEFAULT_LOOP_BUFFER_FRAMES, DEFAULT_RECORD_BUFFER_FRAMES } from "../constants";
 import { StatePlayer } from "../playback";
 import { StateRecorder } from "../recording";
-import type { TimeMachineMessage, TimeMachineStatus } from "../types";
+import type { StateSnapshot, TimeMachineMessage, TimeMachineStatus } from "../types";
 
-export interface TimeMachineRuntime {
+/** State held by engine systems outside the globals (e.g. state machines), recorded with each frame */
+export interface SystemStateSource {
+	captureSystems(): StateSnapshot;
+	restoreSystems(state: StateSnapshot): void;
+}
+
+export interface TimeMachineRuntime extends Partial<SystemStateSource> {
 	vm?: {
 		context?: {
 			global?: any;
 		};
-	};
+	} | null;
 	updateCall?: () => void;
 	drawCall?: () => void;
 }
@@ -86,7 +92,7 @@ export class TimeMachine {
 
 			// Capture current global state snapshot for time travel
 			if (this.runtime.vm?.context?.global) {
-				this.recorder.record(this.runtime.vm.context.global);
+				this.recorder.record(this.runtime.vm.context.global, this.runtime.captureSystems?.());
 			}
 
 			this.sendStatus();
@@ -254,6 +260,11 @@ export class TimeMachine {
 			this.player.restoreState(this.runtime.vm.context.global, snapshot);
 		}
 
+		const systems = this.recorder.getSystems(this.replayPosition);
+		if (systems) {
+			this.runtime.restoreSystems?.(systems);
+		}
+
 		if (!skipDraw) {
 			this.runtime.drawCall?.();
 		}
@@ -4,7 +4,7 @@
  * Record, replay, and loop game state for debugging.
  */
 
-export type { TimeMachineRuntime } from "./core";
+export type { SystemStateSource, TimeMachineRuntime } from "./core";
 export { TimeMachine } from "./core";
 export { StatePlayer } from "./playback";
 export { StateRecorder } from "./recording";
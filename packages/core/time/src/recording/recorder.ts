@@ -13,6 +13,8 @@ import type { StateSnapshot } from "../types";
 
 export class StateRecorder {
 	private history: StateSnapshot[] = [];
+	// Engine system state recorded with each frame, same indices as history
+	private systemsHistory: (StateSnapshot | null)[] = [];
 	private recordIndex = 0;
 	private recordLength = 0;
 	private maxLength: number;
@@ -30,10 +32,11 @@ export class StateRecorder {
 	}
 
 	/**
-	 * Record a state snapshot
+	 * Record a state snapshot, with the engine systems' state if given
 	 */
-	record(state: any): void {
+	record(state: any, systems?: StateSnapshot): void {
 		const snapshot = this.makeStorableState(state);
+		this.systemsHistory[this.recordIndex] = systems ? deepCopy(systems) : null;
 		this.history[this.recordIndex++] = snapshot;
 		this.recordLength = Math.min(this.recordLength + 1, this.maxLength);
 
@@ -54,6 +57,18 @@ export class StateRecorder {
 		return this.history[index];
 	}
 
+	/**
+	 * Get the systems state recorded at a position (0 = most recent)
+	 */
+	getSystems(position: number): StateSnapshot | null {
+		if (position >= this.recordLength) {
+			return null;
+		}
+
+		const index = (this.recordIndex - position - 1 + this.maxLength) % this.maxLength;
+		return this.systemsHistory[index] ?? null;
+	}
+
 	/**
 	 * Get current record length
 	 */
@@ -73,6 +88,7 @@ export class StateRecorder {
 	 */
 	clear(): void {
 		this.history = [];
+		this.systemsHistory = [];
 		this.recordIndex = 0;
 		this.recordLength = 0;
 	}
@@ -86,15 +102,18 @@ export class StateRecorder {
 		}
 
 		const histo: StateSnapshot[] = [];
+		const systems: (StateSnapshot | null)[] = [];
 		const start = this.recordLength;
 		const end = position + 1;
 
 		for (let i = start; i >= end; i--) {
 			const index = (this.recordIndex - i + this.maxLength) % this.maxLength;
 			histo.push(this.history[index]);
+			systems.push(this.systemsHistory[index] ?? null);
 		}
 
 		this.history = histo;
+		this.systemsHistory = systems;
 		this.recordIndex = this.history.length;
 		this.recordLength = this.history.length;
 	}
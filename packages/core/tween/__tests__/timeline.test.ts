@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { Timeline } from "../src/timeline";
+import { TweenManager } from "../src/tween-manager";
+
+describe("Timeline", () => {
+	it("places children by time, label, previous child and offset", () => {
+		const a = { x: 0 };
+		const b = { y: 0 };
+		const c = { z: 0 };
+		const timeline = new Timeline()
+			.to(a, { x: 100 }, 400)
+			.addLabel("mid", 200)
+			.to(b, { y: 10 }, 100, { at: "mid" })
+			.to(c, { z: 1 }, 100, { at: ">+=50" });
+		// c starts 50 ms after b ends, at 350
+		expect(timeline.duration).toBe(450);
+
+		timeline.seek(250);
+		expect(a.x).toBeCloseTo(62.5, 9);
+		expect(b.y).toBeCloseTo(5, 9);
+		expect(c.z).toBe(0);
+		timeline.seek(400);
+		expect(b.y).toBe(10);
+		expect(c.z).toBeCloseTo(0.5, 9);
+
+		const d = { w: 0 };
+		timeline.to(d, { w: 1 }, 100, { at: "<-=50" });
+		timeline.seek(350);
+		expect(d.w).toBeCloseTo(0.5, 9);
+	});
+
+	it("tweens several properties with relative values and colors", () => {
+		const target: Record<string, unknown> = { x: 10, color: "#000000", alpha: 1 };
+		const timeline = new Timeline().to(target, { x: "+=50", color: "#ff8000", alpha: 0 }, 100);
+
+		timeline.update(50);
+		expect(target.x).toBe(35);
+		expect(target.color).toBe("#804000");
+		expect(target.alpha).toBe(0.5);
+		timeline.update(50);
+		expect(target).toEqual({ x: 60, color: "#ff8000", alpha: 0 });
+	});
+
+	it("repeats with yoyo and calls onComplete at the end of the last run", () => {
+		let completed = 0;
+		const target = { x: 0 };
+		const timeline = new Timeline({ repeat: 1, yoyo: true, onComplete: () => completed++ }).to(target, { x: 100 }, 100);
+		expect(timeline.totalDuration).toBe(200);
+
+		timeline.update(150);
+		expect(target.x).toBeCloseTo(50, 9);
+		expect(completed).toBe(0);
+		expect(timeline.update(60)).toBe(true);
+		expect(target.x).toBe(0);
+		expect(completed).toBe(1);
+		expect(timeline.active).toBe(false);
+	});
+
+	it("plays back from the end once reversed, following timeScale", () => {
+		const target = { x: 0 };
+		const timeline = new Timeline({ timeScale: 2 }).to(target, { x: 100 }, 100);
+
+		expect(timeline.update(50)).toBe(true);
+		expect(target.x).toBe(100);
+		timeline.reverse();
+		timeline.update(25);
+		expect(target.x).toBeCloseTo(50, 9);
+		expect(timeline.update(25)).toBe(true);
+		expect(target.x).toBe(0);
+	});
+
+	it("calls callbacks each time the playhead passes them going forward", () => {
+		const calls: number[] = [];
+		const timeline = new Timeline().to({ x: 0 }, { x: 1 }, 200).call(() => calls.push(timeline.getTime()), 100);
+
+		timeline.update(90);
+		expect(calls).toEqual([]);
+		timeline.update(20);
+		expect(calls).toEqual([110]);
+		timeline.update(20);
+		timeline.seek(50);
+		expect(calls).toHaveLength(1);
+		timeline.seek(150);
+		expect(calls).toEqual([110, 150]);
+	});
+});
+
+describe("TweenManager timelines", () => {
+	it("plays sequences step by step and nests timelines by id", () => {
+		const tweens = new TweenManager();
+		const target = { x: 0, y: 0 };
+		const order: string[] = [];
+		const inner = tweens.parallel([
+			{ target, to: { x: 10 }, duration: 100 },
+			{ target, to: { y: 20 }, duration: 200 },
+		]);
+		const outer = tweens.sequence([inner, () => order.push("after inner"), { target, to: { x: 0 }, duration: 100 }]);
+
+		expect(tweens.getTimeline(inner)).toBeUndefined();
+		expect(tweens.getTimeline(outer)?.duration).toBe(300);
+
+		tweens.update(150);
+		expect(target).toEqual({ x: 10, y: 15 });
+		expect(order).toEqual([]);
+		tweens.update(100);
+		expect(order).toEqual(["after inner"]);
+		expect(target.x).toBeCloseTo(5, 9);
+		tweens.update(100);
+		expect(target).toEqual({ x: 0, y: 20 });
+		// Kept after completing so it can be replayed
+		expect(tweens.getTimeline(outer)?.active).toBe(false);
+	});
+
+	it("drops an animate timeline once it completes", () => {
+		const tweens = new TweenManager();
+		const target = { x: 0 };
+		let done = false;
+		const id = tweens.animate(target, { x: 30 }, 100, {
+			onComplete: () => {
+				done = true;
+			},
+		});
+
+		tweens.update(100);
+		expect(target.x).toBe(30);
+		expect(done).toBe(true);
+		expect(tweens.getTimeline(id)).toBeUndefined();
+	});
+});
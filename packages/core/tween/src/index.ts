@@ -1,3 +1,11 @@
 export { Easing } from "./easing";
+export {
+	Timeline,
+	type TimelineOptions,
+	type TimelinePosition,
+	type TrackOptions,
+	type TweenEasing,
+	type TweenValue,
+} from "./timeline";
 export { Tween, type TweenConfig } from "./tween";
-export { TweenManager } from "./tween-manager";
+export { type AnimateOptions, type TimelineStep, TweenManager } from "./tween-manager";
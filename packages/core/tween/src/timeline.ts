@@ -0,0 +1,376 @@
+import { Easing } from "./easing";
+
+/** An easing name, or a custom curve over 0..1 */
+export type TweenEasing = string | ((t: number) => number);
+
+/**
+ * Target value of a property: a number, a relative "+=50" / "-=50", or a hex
+ * color ("#f80", "#ff8800", "#ff8800cc") tweened channel by channel.
+ */
+export type TweenValue = number | string;
+
+/**
+ * Where a child goes in a timeline: a time in ms, a label, "<" (start of the
+ * previous child) or ">" (its end), each optionally followed by an offset
+ * ("intro+=200", "<-=100"). An offset alone ("+=200") is relative to the end
+ * of the timeline, which is also the default.
+ */
+export type TimelinePosition = number | string;
+
+export interface TrackOptions {
+	easing?: TweenEasing;
+	/** Extra ms before the track starts */
+	delay?: number;
+	/** Additional runs after the first; -1 repeats forever */
+	repeat?: number;
+	/** Every other run plays backwards */
+	yoyo?: boolean;
+	at?: TimelinePosition;
+}
+
+export interface TimelineOptions {
+	repeat?: number;
+	yoyo?: boolean;
+	/** Playback speed, 1 = normal */
+	timeScale?: number;
+	paused?: boolean;
+	/** Drop the timeline from its manager once it completes, instead of keeping it for seek/reverse */
+	autoRemove?: boolean;
+	onUpdate?: () => void;
+	/** Called each time playback reaches the end (or the start, when reversed) */
+	onComplete?: () => void;
+}
+
+interface TimelineChild {
+	readonly totalDuration: number;
+	/** Renders at `time` ms after the child's start; negative before it */
+	render(time: number): void;
+}
+
+const clamp = (v: number, min: number, max: number): number => (v < min ? min : v > max ? max : v);
+
+const resolveEasing = (easing: TweenEasing | undefined): ((t: number) => number) => {
+	if (typeof easing === "function") return easing;
+	return Easing[easing ?? "linear"] ?? Easing.linear;
+};
+
+const totalOf = (duration: number, repeat: number): number => (repeat < 0 ? Infinity : duration * (repeat + 1));
+
+/** Time inside the current run for a playhead over all runs, accounting for yoyo */
+const iterationTime = (time: number, duration: number, repeat: number, yoyo: boolean): number => {
+	if (duration <= 0) return 0;
+	let iteration: number;
+	let local: number;
+	if (time >= totalOf(duration, repeat)) {
+		iteration = repeat;
+		local = duration;
+	} else {
+		iteration = Math.floor(time / duration);
+		local = time - iteration * duration;
+	}
+	return yoyo && iteration % 2 === 1 ? duration - local : local;
+};
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+const parseColor = (value: string): number[] => {
+	let hex = value.slice(1);
+	if (hex.length === 3) hex = hex.replace(/./g, "$&$&");
+	const channels = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16));
+	channels.push(hex.length === 8 ? parseInt(hex.slice(6, 8), 16) : 255);
+	return channels;
+};
+
+const formatColor = (channels: number[], alpha: boolean): string => {
+	const used = alpha ? channels : channels.slice(0, 3);
+	return `#${used
+		.map((c) =>
+			Math.round(clamp(c, 0, 255))
+				.toString(16)
+				.padStart(2, "0"),
+		)
+		.join("")}`;
+};
+
+type PropertyTrack =
+	| { key: string; color: false; from: number; to: number }
+	| { key: string; color: true; from: number[]; to: number[]; alpha: boolean };
+
+/** Tweens several properties of one target together */
+class PropertyTween implements TimelineChild {
+	private readonly target: Record<string, unknown>;
+	private readonly values: Record<string, TweenValue>;
+	private readonly duration: number;
+	private readonly easingFn: (t: number) => number;
+	private readonly repeat: number;
+	private readonly yoyo: boolean;
+	// Start values are read from the target the first time the tween is reached
+	private tracks: PropertyTrack[] | null = null;
+	private last: number | null = null;
+
+	constructor(
+		target: Record<string, unknown>,
+		values: Record<string, TweenValue>,
+		duration: number,
+		options: TrackOptions,
+	) {
+		this.target = target;
+		this.values = values;
+		this.duration = Math.max(0, duration);
+		this.easingFn = resolveEasing(options.easing);
+		this.repeat = options.repeat ?? 0;
+		this.yoyo = options.yoyo ?? false;
+	}
+
+	get totalDuration(): number {
+		return totalOf(this.duration, this.repeat);
+	}
+
+	render(time: number): void {
+		if (this.tracks === null) {
+			if (time < 0) return;
+			this.tracks = this._capture();
+		}
+		const clamped = clamp(time, 0, this.totalDuration);
+		if (clamped === this.last) return;
+		this.last = clamped;
+		const local = iterationTime(clamped, this.duration, this.repeat, this.yoyo);
+		const progress = this.duration > 0 ? local / this.duration : time >= 0 ? 1 : 0;
+		const t = this.easingFn(progress);
+		for (const track of this.tracks) {
+			if (track.color) {
+				const channels = track.from.map((c, i) => c + (track.to[i] - c) * t);
+				this.target[track.key] = formatColor(channels, track.alpha);
+			} else {
+				this.target[track.key] = track.from + (track.to - track.from) * t;
+			}
+		}
+	}
+
+	private _capture(): PropertyTrack[] {
+		const tracks: PropertyTrack[] = [];
+		for (const key of Object.keys(this.values)) {
+			const value = this.values[key];
+			const current = this.target[key];
+			if (typeof value === "string" && HEX_COLOR.test(value)) {
+				const to = parseColor(value);
+				const from = typeof current === "string" && HEX_COLOR.test(current) ? parseColor(current) : to;
+				const alpha = value.length === 9 || (typeof current === "string" && current.length === 9);
+				tracks.push({ key, color: true, from, to, alpha });
+				continue;
+			}
+			const from = typeof current === "number" ? current : Number(current) || 0;
+			let to: number;
+			if (typeof value === "string" && /^[+-]=/.test(value)) {
+				const delta = Number(value.slice(2)) || 0;
+				to = value[0] === "+" ? from + delta : from - delta;
+			} else {
+				to = Number(value) || 0;
+			}
+			tracks.push({ key, color: false, from, to });
+		}
+		return tracks;
+	}
+}
+
+/** Calls a function when the playhead passes its position going forward */
+class TimelineCallback implements TimelineChild {
+	readonly totalDuration = 0;
+	private readonly fn: () => void;
+	private before = true;
+
+	constructor(fn: () => void) {
+		this.fn = fn;
+	}
+
+	render(time: number): void {
+		const before = time < 0;
+		if (this.before && !before) this.fn();
+		this.before = before;
+	}
+}
+
+/**
+ * Children placed on a time axis: property tweens, callbacks and nested
+ * timelines. Plays with its own repeat/yoyo, timeScale and direction, and can
+ * be sought to any time. Children overlapping on the same property are
+ * applied in start order.
+ */
+export class Timeline implements TimelineChild {
+	id = 0;
+	timeScale: number;
+	paused: boolean;
+	/** False once playback has reached its end, until play, reverse or restart */
+	active = true;
+	reversed = false;
+	readonly autoRemove: boolean;
+
+	private readonly repeat: number;
+	private readonly yoyo: boolean;
+	private readonly onUpdate: (() => void) | undefined;
+	private readonly onComplete: (() => void) | undefined;
+	// Sorted by start, insertion order for equal starts
+	private children: Array<{ child: TimelineChild; start: number }> = [];
+	private labels: Map<string, number> = new Map();
+	private previous: { start: number; end: number } | null = null;
+	private time = 0;
+	private lastLocal = 0;
+	// For nesting: whether the parent has reached this timeline yet, and where it last rendered it
+	private started = false;
+	private last: number | null = null;
+
+	constructor(options: TimelineOptions = {}) {
+		this.repeat = options.repeat ?? 0;
+		this.yoyo = options.yoyo ?? false;
+		this.timeScale = options.timeScale ?? 1;
+		this.paused = options.paused ?? false;
+		this.autoRemove = options.autoRemove ?? false;
+		this.onUpdate = options.onUpdate;
+		this.onComplete = options.onComplete;
+	}
+
+	/** Length of one run, in ms */
+	get duration(): number {
+		let end = 0;
+		for (const { child, start } of this.children) end = Math.max(end, start + child.totalDuration);
+		return end;
+	}
+
+	/** Length of all runs, Infinity when repeating forever */
+	get totalDuration(): number {
+		return totalOf(this.duration, this.repeat);
+	}
+
+	/** Tweens properties of `target` to `values` over `duration` ms */
+	to(
+		target: Record<string, unknown>,
+		values: Record<string, TweenValue>,
+		duration: number,
+		options: TrackOptions = {},
+	): this {
+		const start = this._position(options.at) + (options.delay ?? 0);
+		return this._insert(new PropertyTween(target, values, duration, options), start);
+	}
+
+	/** Nests another timeline, which then plays as part of this one */
+	add(timeline: Timeline, at?: TimelinePosition): this {
+		return this._insert(timeline, this._position(at));
+	}
+
+	call(fn: () => void, at?: TimelinePosition): this {
+		return this._insert(new TimelineCallback(fn), this._position(at));
+	}
+
+	addLabel(name: string, at?: TimelinePosition): this {
+		this.labels.set(name, this._position(at));
+		return this;
+	}
+
+	/** Advances the playhead; returns true when playback has just reached its end */
+	update(dtMs: number): boolean {
+		if (!this.active || this.paused) return false;
+		const total = this.totalDuration;
+		this.time += dtMs * this.timeScale * (this.reversed ? -1 : 1);
+		const finished = this.reversed ? this.time <= 0 : this.time >= total;
+		this.time = clamp(this.time, 0, total);
+		this._renderTime(this.time);
+		this.onUpdate?.();
+		if (!finished) return false;
+		this.active = false;
+		this.onComplete?.();
+		return true;
+	}
+
+	/** Jumps to `ms` over all runs, keeping the play state */
+	seek(ms: number): void {
+		this.time = clamp(ms, 0, this.totalDuration);
+		this._renderTime(this.time);
+	}
+
+	getTime(): number {
+		return this.time;
+	}
+
+	/** Flips the playing direction; a completed timeline plays back from where it ended */
+	reverse(): void {
+		this.reversed = !this.reversed;
+		this.active = true;
+	}
+
+	/** Resumes, starting over if playback had already reached its end */
+	play(): void {
+		this.paused = false;
+		if (!this.active) {
+			this.active = true;
+			if (this.reversed ? this.time <= 0 : this.time >= this.totalDuration) {
+				this.seek(this.reversed ? this.totalDuration : 0);
+			}
+		}
+	}
+
+	pause(): void {
+		this.paused = true;
+	}
+
+	restart(): void {
+		this.reversed = false;
+		this.paused = false;
+		this.active = true;
+		this.seek(0);
+	}
+
+	stop(): void {
+		this.active = false;
+	}
+
+	/** @internal Rendering as a child of another timeline */
+	render(time: number): void {
+		if (!this.started) {
+			if (time < 0) return;
+			this.started = true;
+		}
+		const clamped = clamp(time, 0, this.totalDuration);
+		if (clamped === this.last) return;
+		this.last = clamped;
+		this._renderTime(clamped);
+	}
+
+	private _renderTime(time: number): void {
+		const local = iterationTime(time, this.duration, this.repeat, this.yoyo);
+		const forward = local >= this.lastLocal;
+		this.lastLocal = local;
+		const count = this.children.length;
+		for (let n = 0; n < count; n++) {
+			const { child, start } = this.children[forward ? n : count - 1 - n];
+			child.render(local - start);
+		}
+	}
+
+	private _insert(child: TimelineChild, start: number): this {
+		start = Math.max(0, start);
+		let idx = this.children.length;
+		while (idx > 0 && this.children[idx - 1].start > start) idx--;
+		this.children.splice(idx, 0, { child, start });
+		this.previous = { start, end: start + child.totalDuration };
+		return this;
+	}
+
+	private _position(at: TimelinePosition | undefined): number {
+		const end = this.duration;
+		if (typeof at === "number") return at;
+		if (at === undefined || at === "") return end;
+		const match = /^(.*?)([+-]=)(-?[\d.]+)$/.exec(at);
+		const anchor = match ? match[1] : at;
+		const offset = match ? (match[2] === "+=" ? 1 : -1) * (Number(match[3]) || 0) : 0;
+		let base: number;
+		if (anchor === "") base = end;
+		else if (anchor === "<") base = this.previous?.start ?? 0;
+		else if (anchor === ">") base = this.previous?.end ?? end;
+		else {
+			// Unknown labels are added at the current end
+			base = this.labels.get(anchor) ?? end;
+			this.labels.set(anchor, base);
+		}
+		return base + offset;
+	}
+}
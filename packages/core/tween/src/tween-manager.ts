@@ -1,8 +1,23 @@
+import { Timeline, type TimelineOptions, type TimelinePosition, type TrackOptions, type TweenValue } from "./timeline";
 import { Tween, type TweenConfig } from "./tween";
 
+export interface AnimateOptions extends Omit<TrackOptions, "at"> {
+	timeScale?: number;
+	onUpdate?: () => void;
+	onComplete?: () => void;
+}
+
+/** One step of a sequence or parallel group: a property tween, a callback, or the id of a timeline to nest */
+export type TimelineStep =
+	| number
+	| (() => void)
+	| (TrackOptions & { target: Record<string, unknown>; to: Record<string, TweenValue>; duration: number });
+
 export class TweenManager {
 	private active: Tween[] = [];
 	private pool: Tween[] = [];
+	// Timelines share the id space of tweens, so pause/resume/stop work on both
+	private timelines: Map<number, Timeline> = new Map();
 	private nextId = 0;
 
 	update(dtMs: number): void {
@@ -15,6 +30,9 @@ export class TweenManager {
 				this.pool.push(t);
 			}
 		}
+		for (const [id, timeline] of this.timelines) {
+			if (timeline.update(dtMs) && timeline.autoRemove) this.timelines.delete(id);
+		}
 	}
 
 	create(config: TweenConfig): number {
@@ -46,15 +64,72 @@ export class TweenManager {
 		});
 	}
 
+	/** Tweens several properties of `target` at once; supports relative values, hex colors, repeat and yoyo */
+	animate(
+		target: Record<string, unknown>,
+		values: Record<string, TweenValue>,
+		duration: number,
+		options: AnimateOptions = {},
+	): number {
+		const timeline = new Timeline({
+			timeScale: options.timeScale,
+			autoRemove: true,
+			onUpdate: options.onUpdate,
+			onComplete: options.onComplete,
+		});
+		timeline.to(target, values, duration, { ...options, at: 0 });
+		return this._addTimeline(timeline);
+	}
+
+	/** An empty timeline, kept after completing so it can be replayed, sought or reversed until stopped */
+	timeline(options: TimelineOptions = {}): number {
+		return this._addTimeline(new Timeline(options));
+	}
+
+	/** A timeline playing the steps one after another */
+	sequence(steps: TimelineStep[], options: TimelineOptions = {}): number {
+		const timeline = new Timeline(options);
+		for (const step of steps) this._addStep(timeline, step);
+		return this._addTimeline(timeline);
+	}
+
+	/** A timeline playing the steps together */
+	parallel(steps: TimelineStep[], options: TimelineOptions = {}): number {
+		const timeline = new Timeline(options);
+		for (const step of steps) this._addStep(timeline, step, 0);
+		return this._addTimeline(timeline);
+	}
+
+	getTimeline(id: number): Timeline | undefined {
+		return this.timelines.get(id);
+	}
+
+	/** Moves timeline `childId` inside timeline `id`; it then only plays as part of it */
+	nest(id: number, childId: number, at?: TimelinePosition): void {
+		const parent = this.timelines.get(id);
+		const child = this.timelines.get(childId);
+		if (!parent || !child || parent === child) return;
+		this.timelines.delete(childId);
+		parent.add(child, at);
+	}
+
 	pause(id: number): void {
 		this._find(id)?.pause();
+		this.timelines.get(id)?.pause();
 	}
 
 	resume(id: number): void {
 		this._find(id)?.resume();
+		this.timelines.get(id)?.play();
 	}
 
 	stop(id: number): void {
+		const timeline = this.timelines.get(id);
+		if (timeline) {
+			timeline.stop();
+			this.timelines.delete(id);
+			return;
+		}
 		const idx = this.active.findIndex((t) => t.id === id);
 		if (idx !== -1) {
 			const t = this.active.splice(idx, 1)[0];
@@ -69,6 +144,8 @@ export class TweenManager {
 			this.pool.push(t);
 		}
 		this.active.length = 0;
+		for (const timeline of this.timelines.values()) timeline.stop();
+		this.timelines.clear();
 	}
 
 	reset(): void {
@@ -88,6 +165,47 @@ export class TweenManager {
 				easing?: string,
 				onComplete?: () => void,
 			) => this.to(target, durationMs, prop, toVal, easing, onComplete),
+			animate: (
+				target: Record<string, unknown>,
+				values: Record<string, TweenValue>,
+				duration: number,
+				options?: AnimateOptions,
+			) => this.animate(target, values, duration, options || {}),
+			timeline: (options?: TimelineOptions) => this.timeline(options || {}),
+			sequence: (steps: TimelineStep[], options?: TimelineOptions) => this.sequence(steps, options || {}),
+			parallel: (steps: TimelineStep[], options?: TimelineOptions) => this.parallel(steps, options || {}),
+			add: (
+				id: number,
+				target: Record<string, unknown>,
+				values: Record<string, TweenValue>,
+				duration: number,
+				options?: TrackOptions,
+			) => {
+				this.timelines.get(id)?.to(target, values, duration, options || {});
+			},
+			addTimeline: (id: number, childId: number, at?: TimelinePosition) => this.nest(id, childId, at),
+			addLabel: (id: number, name: string, at?: TimelinePosition) => {
+				this.timelines.get(id)?.addLabel(name, at);
+			},
+			call: (id: number, fn: () => void, at?: TimelinePosition) => {
+				this.timelines.get(id)?.call(fn, at);
+			},
+			play: (id: number) => this.resume(id),
+			seek: (id: number, ms: number) => {
+				this.timelines.get(id)?.seek(ms);
+			},
+			reverse: (id: number) => {
+				this.timelines.get(id)?.reverse();
+			},
+			restart: (id: number) => {
+				this.timelines.get(id)?.restart();
+			},
+			setTimeScale: (id: number, scale: number) => {
+				const timeline = this.timelines.get(id);
+				if (timeline) timeline.timeScale = scale;
+			},
+			getTime: (id: number): number => this.timelines.get(id)?.getTime() ?? 0,
+			getDuration: (id: number): number => this.timelines.get(id)?.totalDuration ?? 0,
 			pause: (id: number) => this.pause(id),
 			resume: (id: number) => this.resume(id),
 			stop: (id: number) => this.stop(id),
@@ -95,6 +213,25 @@ export class TweenManager {
 		};
 	}
 
+	private _addTimeline(timeline: Timeline): number {
+		timeline.id = this.nextId++;
+		this.timelines.set(timeline.id, timeline);
+		return timeline.id;
+	}
+
+	private _addStep(timeline: Timeline, step: TimelineStep, at?: TimelinePosition): void {
+		if (typeof step === "number") {
+			const child = this.timelines.get(step);
+			if (!child || child === timeline) return;
+			this.timelines.delete(step);
+			timeline.add(child, at);
+		} else if (typeof step === "function") {
+			timeline.call(step, at);
+		} else if (step) {
+			timeline.to(step.target, step.to, step.duration, at === undefined ? step : { ...step, at });
+		}
+	}
+
 	private _find(id: number): Tween | undefined {
 		return this.active.find((t) => t.id === id);
 	}
@@ -168,6 +168,13 @@ vi.mock("../src/hot-reload", () => ({
 
 import { createRuntime } from "../src/core/controller";
 
+/** Globals of a started runtime's VM */
+const globalsOf = (runtime: ReturnType<typeof createRuntime>) => {
+	const global = runtime.vm?.context.global;
+	if (!global) throw new Error("Runtime has not started");
+	return global;
+};
+
 describe("RuntimeController bridge integration", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
@@ -210,22 +217,48 @@ describe("RuntimeController bridge integration", () => {
 		});
 
 		await runtime.start();
-		runtime.vm!.context.global.score = 7;
+		globalsOf(runtime).score = 7;
 
 		const snapshot = runtime.exportSnapshot();
 		expect(snapshot.global.score).toBe(7);
 		expect(snapshot.session?.user?.id).toBe("user-2");
 
-		runtime.vm!.context.global.score = 99;
+		globalsOf(runtime).score = 99;
 		await runtime.importSnapshot(snapshot);
-		expect(runtime.vm!.context.global.score).toBe(7);
+		expect(globalsOf(runtime).score).toBe(7);
 
-		runtime.vm!.context.global.score = 33;
+		globalsOf(runtime).score = 33;
 		await runtime.reset({ preserveSnapshot: true, preserveSession: true });
-		expect(runtime.vm!.context.global.score).toBe(33);
+		expect(globalsOf(runtime).score).toBe(33);
 		expect(runtime.getSession()?.user?.id).toBe("user-2");
 	});
 
+	it("restores FSM states and game-time timing from snapshots", async () => {
+		const runtime = createRuntime({
+			sources: { main: "print('ok')" },
+		});
+
+		await runtime.start();
+		const fsm = globalsOf(runtime).fsm;
+		const id = fsm.create();
+		fsm.addState(id, "idle", {});
+		fsm.addState(id, "run", {});
+		fsm.transition(id, "idle");
+		fsm.transition(id, "run");
+		runtime.fsmManager.update(250);
+
+		const snapshot = runtime.exportSnapshot();
+		expect(fsm.getTimeInState(id)).toBe(250);
+
+		fsm.transition(id, "idle");
+		runtime.fsmManager.update(100);
+		await runtime.importSnapshot(snapshot);
+
+		expect(fsm.getState(id)).toBe("run");
+		expect(fsm.getPrevious(id)).toBe("idle");
+		expect(fsm.getTimeInState(id)).toBe(250);
+	});
+
 	it("updates session from host events", async () => {
 		const runtime = createRuntime({
 			sources: { main: "print('ok')" },
@@ -9,7 +9,7 @@
 
 import { AudioCore, Sound, Music } from "@al8b/audio";
 import { ASSET_LOAD_TIMEOUT_MS, DEFAULT_BLOCK_SIZE, LOADING_BAR_THROTTLE_MS } from "../constants";
-import { LoadMap } from "@al8b/map";
+import { LoadMap, LoadTiledMap } from "@al8b/map";
 import { LoadSprite } from "@al8b/sprites";
 import type { AssetCollections, ResourceFile, Resources } from "../types";
 import type { RuntimeListener } from "../types";
@@ -124,14 +124,22 @@ export class AssetLoader {
 	}
 
 	/**
-	 * Load maps
+	 * Load maps (engine JSON, or Tiled .tmj/.tmx)
 	 */
 	private async loadMaps(): Promise<void> {
 		await this.loadCallbackAssets(
 			this.resources.maps,
 			"maps",
 			"maps",
-			(url, _mapRes, onReady) => LoadMap(url, this.collections.sprites, onReady),
+			(url, mapRes, onReady) => {
+				if (!/\.(tmj|tmx)$/i.test(mapRes.file)) {
+					return LoadMap(url, this.collections.sprites, onReady);
+				}
+				return LoadTiledMap(url, this.collections.sprites, (error) => {
+					if (error) this.listener?.log?.(`[AssetLoader] Failed to import Tiled map "${mapRes.file}": ${error.message}`);
+					onReady();
+				});
+			},
 			(name) => ({
 				name,
 				ready: false,
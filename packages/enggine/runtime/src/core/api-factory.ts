@@ -1,3 +1,4 @@
+import { LoadTiledMap, ParseTiledMap, type TiledImportOptions, type TiledMap } from "@al8b/map";
 import { Palette } from "@al8b/palette";
 import { type GlobalAPI, type L8BVM, type MetaFunctions, Random } from "@al8b/vm";
 import { Image, Sound, Sprite, TileMap } from "../assets";
@@ -13,7 +14,16 @@ import type {
 	RuntimeSnapshotMeta,
 } from "../types";
 import { ObjectPool } from "../utils/object-pool";
-import type { IPlayerService, IEventBus, ITweenManager, IFSMManager, IPhysicsWorld, ICameraManager, IParticleManager } from "./service-interfaces";
+import type {
+	IPlayerService,
+	IEventBus,
+	ITweenManager,
+	IFSMManager,
+	IBehaviorTreeManager,
+	IPhysicsWorld,
+	ICameraManager,
+	IParticleManager,
+} from "./service-interfaces";
 import type { RuntimeAssetsRegistry } from "./assets-registry";
 import type { Screen } from "@al8b/screen";
 import type { AudioCore } from "@al8b/audio";
@@ -32,6 +42,7 @@ export interface RuntimeApiFactoryContext {
 	events: IEventBus;
 	tweens: ITweenManager;
 	fsmManager: IFSMManager;
+	behaviorTrees: IBehaviorTreeManager;
 	physics: IPhysicsWorld;
 	cameraManager: ICameraManager;
 	particles: IParticleManager;
@@ -85,9 +96,14 @@ export function createRuntimeGlobalApi(context: RuntimeApiFactoryContext): Parti
 	events: Record<string, unknown>;
 	tween: Record<string, unknown>;
 	fsm: Record<string, unknown>;
+	bt: Record<string, unknown>;
 	physics: Record<string, unknown>;
 	camera: Record<string, unknown>;
 	particles: Record<string, unknown>;
+	tiled: {
+		parse: (data: string | TiledMap, options?: TiledImportOptions) => TileMap;
+		load: (url: string, callback?: (error?: Error) => void) => TileMap;
+	};
 } {
 	const inputStates = context.input.getStates();
 	const session = {
@@ -115,6 +131,13 @@ export function createRuntimeGlobalApi(context: RuntimeApiFactoryContext): Parti
 		load: (meta?: RuntimeSnapshotMeta, callback?: (result: unknown) => void) => context.loadSnapshot(meta, callback),
 	};
 
+	// Tiled imports resolve tileset images against the game's loaded sprites
+	const tiled = {
+		parse: (data: string | TiledMap, options?: TiledImportOptions) =>
+			ParseTiledMap(data, context.assets.sprites, options),
+		load: (url: string, callback?: (error?: Error) => void) => LoadTiledMap(url, context.assets.sprites, callback),
+	};
+
 	// Wire camera canvas context lazily (canvas is ready by the time API is created)
 	const getCtx = () => {
 		try {
@@ -125,6 +148,9 @@ export function createRuntimeGlobalApi(context: RuntimeApiFactoryContext): Parti
 	};
 	context.cameraManager.setContextProvider(getCtx);
 
+	// Contact events published by physics reach scripts through the event bus at the end of the frame
+	context.physics.setEventSink((name, payload) => context.events.defer(name, payload));
+
 	// Wire particle canvas context
 	const ctx2d = getCtx();
 	if (ctx2d) context.particles.setContext(ctx2d);
@@ -149,9 +175,11 @@ export function createRuntimeGlobalApi(context: RuntimeApiFactoryContext): Parti
 		events: context.events.getInterface(),
 		tween: context.tweens.getInterface(),
 		fsm: context.fsmManager.getInterface(),
+		bt: context.behaviorTrees.getInterface(),
 		physics: context.physics.getInterface(),
 		camera: context.cameraManager.getInterface(),
 		particles: context.particles.getInterface(),
+		tiled,
 		Image,
 		Sprite,
 		TileMap,
@@ -1,10 +1,17 @@
 import { AudioCore } from "@al8b/audio";
 import { Screen } from "@al8b/screen";
-import { StatePlayer, TimeMachine, type StateSnapshot, type TimeMachineCommand } from "@al8b/time";
+import {
+	StatePlayer,
+	type StateSnapshot,
+	type SystemStateSource,
+	TimeMachine,
+	type TimeMachineCommand,
+} from "@al8b/time";
 import { L8BVM } from "@al8b/vm";
 import type { EventBus } from "@al8b/events";
 import type { TweenManager } from "@al8b/tween";
 import type { FSMManager } from "@al8b/fsm";
+import type { BehaviorTreeManager } from "@al8b/behavior-tree";
 import type { PhysicsWorld } from "@al8b/physics";
 import type { CameraManager } from "@al8b/camera";
 import type { ParticleManager } from "@al8b/particles";
@@ -48,6 +55,11 @@ export interface RuntimeController {
 	stop(): void;
 	resume(): void;
 	reset(options?: RuntimeResetOptions): Promise<void>;
+	/**
+	 * Game globals, session, update rate and FSM state. Events, tweens,
+	 * behavior trees, physics, camera and particles are not saved and keep
+	 * their current state on import.
+	 */
 	exportSnapshot(): RuntimeSnapshot;
 	importSnapshot(snapshot: RuntimeSnapshot): Promise<void>;
 	updateSource(file: string, src: string, reinit?: boolean): boolean;
@@ -55,13 +67,14 @@ export interface RuntimeController {
 	sendHostEvent(event: HostEvent): void;
 	getCanvas(): HTMLCanvasElement;
 	getSession(): RuntimeSessionSnapshot | null;
+	setPhysicsDebugDraw(enabled: boolean): void;
 }
 
 export function createRuntime(options: RuntimeOptions = {}): RuntimeController {
 	return new RuntimeControllerImpl(options);
 }
 
-export class RuntimeControllerImpl implements RuntimeController {
+export class RuntimeControllerImpl implements RuntimeController, SystemStateSource {
 	private readonly options: RuntimeOptions;
 	private readonly listener: RuntimeListener;
 	private readonly assetRegistry = new RuntimeAssetsRegistry();
@@ -87,6 +100,7 @@ export class RuntimeControllerImpl implements RuntimeController {
 	public readonly events: EventBus;
 	public readonly tweens: TweenManager;
 	public readonly fsmManager: FSMManager;
+	public readonly behaviorTrees: BehaviorTreeManager;
 	public readonly physics: PhysicsWorld;
 	public readonly cameraManager: CameraManager;
 	public readonly particles: ParticleManager;
@@ -135,7 +149,9 @@ export class RuntimeControllerImpl implements RuntimeController {
 		this.events = this.factory.createEventBus() as unknown as EventBus;
 		this.tweens = this.factory.createTweenManager() as unknown as TweenManager;
 		this.fsmManager = this.factory.createFSMManager() as unknown as FSMManager;
+		this.behaviorTrees = this.factory.createBehaviorTreeManager() as unknown as BehaviorTreeManager;
 		this.physics = this.factory.createPhysicsWorld() as unknown as PhysicsWorld;
+		if (options.debug?.physics) this.physics.debugDraw(true);
 		this.cameraManager = this.factory.createCameraManager(
 			options.width || 400,
 			options.height || 400,
@@ -256,6 +272,7 @@ export class RuntimeControllerImpl implements RuntimeController {
 			system: {
 				updateRate: this.system.getAPI().update_rate,
 			},
+			systems: this.captureSystems(),
 		};
 	}
 
@@ -267,12 +284,28 @@ export class RuntimeControllerImpl implements RuntimeController {
 		this.snapshotRestorer.restoreState(this.vm.context.global as unknown as Record<string, unknown>, snapshot.global);
 		this.system.getAPI().update_rate = snapshot.system.updateRate;
 		this.updateGameLoopUpdateRate();
+		if (snapshot.systems) {
+			this.restoreSystems(snapshot.systems);
+		}
 
 		if (snapshot.session) {
 			this.sessionSnapshot = cloneSnapshot(snapshot.session);
 		}
 	}
 
+	/** State of engine systems that lives outside the VM globals; also recorded by the time machine */
+	captureSystems(): StateSnapshot {
+		return {
+			fsm: this.fsmManager.exportState(),
+		};
+	}
+
+	restoreSystems(systems: StateSnapshot): void {
+		if (systems.fsm) {
+			this.fsmManager.importState(systems.fsm);
+		}
+	}
+
 	updateSource(file: string, src: string, reinit = false): boolean {
 		if (!this.sourceUpdater) return false;
 		return this.sourceUpdater.updateSource(file, src, reinit);
@@ -301,6 +334,11 @@ export class RuntimeControllerImpl implements RuntimeController {
 		return this.screen.getCanvas();
 	}
 
+	/** Shows or hides the physics debug overlay, same as `physics.debugDraw` from scripts */
+	setPhysicsDebugDraw(enabled: boolean): void {
+		this.physics.debugDraw(enabled);
+	}
+
 	private async loadAssets(): Promise<void> {
 		const collections = await this.assetLoader.loadAll();
 		this.assetRegistry.replace(collections);
@@ -343,6 +381,7 @@ export class RuntimeControllerImpl implements RuntimeController {
 			events: this.events,
 			tweens: this.tweens,
 			fsmManager: this.fsmManager,
+			behaviorTrees: this.behaviorTrees,
 			physics: this.physics,
 			cameraManager: this.cameraManager,
 			particles: this.particles,
@@ -371,7 +410,7 @@ export class RuntimeControllerImpl implements RuntimeController {
 			() => reportWarnings(this.vm!, this.listener),
 			(name: string, payload?: unknown) => this.emitBridgeEvent(name, payload),
 		);
-		this.timeMachine = new TimeMachine(this as any);
+		this.timeMachine = new TimeMachine(this);
 
 		this.timeMachine.onStatus((status: any) => {
 			this.emitBridgeEvent("time_machine_status", { status });
@@ -479,6 +518,7 @@ export class RuntimeControllerImpl implements RuntimeController {
 
 		this.tweens.update(dtMs);
 		this.fsmManager.update(dtMs);
+		this.behaviorTrees.update(dtMs);
 		this.cameraManager.update(dtMs);
 		this.particles.update(dtMs);
 		this.physics.update(dtMs);
@@ -518,11 +558,13 @@ export class RuntimeControllerImpl implements RuntimeController {
 		try {
 			this.screen.initDraw();
 			this.screen.updateInterface();
+			this.cameraManager.initDraw();
 
 			this.vm.call("draw");
 			this.vm.runner.tick();
 
 			this.particles.draw();
+			this.drawPhysicsDebug();
 
 			reportWarnings(this.vm, this.listener);
 
@@ -542,6 +584,19 @@ export class RuntimeControllerImpl implements RuntimeController {
 		this.timeMachine?.step();
 	}
 
+	/** Physics overlay on top of the frame, seen through the active camera */
+	private drawPhysicsDebug(): void {
+		if (!this.physics.isDebugDrawing()) return;
+		const ctx = this.screen.getContext();
+		const camera = this.cameraManager.getActive();
+		if (camera) camera.applyTransform(ctx);
+		try {
+			this.physics.drawDebug(ctx);
+		} finally {
+			if (camera) camera.resetTransform(ctx);
+		}
+	}
+
 	private handleTick(): void {
 		if (this.vm?.runner) {
 			(this.vm.runner as any).tick?.();
@@ -745,6 +800,7 @@ export class RuntimeControllerImpl implements RuntimeController {
 		this.events.reset();
 		this.tweens.reset();
 		this.fsmManager.reset();
+		this.behaviorTrees.reset();
 		this.physics.reset();
 		this.cameraManager.reset();
 		this.particles.reset();
@@ -789,6 +845,7 @@ function serializeGlobalSnapshot(global: object): StateSnapshot {
 		globalRecord.events,
 		globalRecord.tween,
 		globalRecord.fsm,
+		globalRecord.bt,
 		globalRecord.camera,
 		globalRecord.particles,
 		globalRecord.physics,
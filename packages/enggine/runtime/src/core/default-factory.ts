@@ -13,6 +13,7 @@ import { StatePlayer } from "@al8b/time";
 import { EventBus } from "@al8b/events";
 import { TweenManager } from "@al8b/tween";
 import { FSMManager } from "@al8b/fsm";
+import { BehaviorTreeManager } from "@al8b/behavior-tree";
 import { PhysicsWorld } from "@al8b/physics";
 import { CameraManager } from "@al8b/camera";
 import { ParticleManager } from "@al8b/particles";
@@ -104,6 +105,9 @@ export const DefaultRuntimeServiceFactory: RuntimeServiceFactory = {
 
 	createFSMManager: () => new FSMManager() as unknown as import("./service-interfaces").IFSMManager,
 
+	createBehaviorTreeManager: () =>
+		new BehaviorTreeManager() as unknown as import("./service-interfaces").IBehaviorTreeManager,
+
 	createPhysicsWorld: () => new PhysicsWorld() as unknown as import("./service-interfaces").IPhysicsWorld,
 
 	createCameraManager: (screenW, screenH) =>
@@ -95,6 +95,7 @@ export interface IDebugLogger {
 // ─── Game Systems ─────────────────────────────────────────────────────────────
 
 export interface IEventBus {
+	defer(event: string, payload?: unknown): void;
 	flushDeferred(): void;
 	reset(): void;
 	getInterface(): Record<string, unknown>;
@@ -107,6 +108,14 @@ export interface ITweenManager {
 }
 
 export interface IFSMManager {
+	update(dtMs: number): void;
+	reset(): void;
+	exportState(): unknown;
+	importState(state: unknown): void;
+	getInterface(): Record<string, unknown>;
+}
+
+export interface IBehaviorTreeManager {
 	update(dtMs: number): void;
 	reset(): void;
 	getInterface(): Record<string, unknown>;
@@ -115,11 +124,16 @@ export interface IFSMManager {
 export interface IPhysicsWorld {
 	update(dtMs: number): void;
 	reset(): void;
+	setEventSink(sink: ((name: string, payload: Record<string, unknown>) => void) | null): void;
+	debugDraw(enabled: boolean): void;
+	isDebugDrawing(): boolean;
+	drawDebug(ctx: CanvasRenderingContext2D): void;
 	getInterface(): Record<string, unknown>;
 }
 
 export interface ICameraManager {
 	update(dtMs: number): void;
+	initDraw(): void;
 	reset(): void;
 	setContextProvider(fn: () => CanvasRenderingContext2D | null): void;
 	getInterface(): Record<string, unknown>;
@@ -172,6 +186,7 @@ export interface RuntimeServiceFactory {
 	createEventBus(): IEventBus;
 	createTweenManager(): ITweenManager;
 	createFSMManager(): IFSMManager;
+	createBehaviorTreeManager(): IBehaviorTreeManager;
 	createPhysicsWorld(): IPhysicsWorld;
 	createCameraManager(screenW: number, screenH: number): ICameraManager;
 	createParticleManager(): IParticleManager;
@@ -47,6 +47,8 @@ export interface RuntimeSnapshot {
 	system: {
 		updateRate: number;
 	};
+	/** State of engine systems kept outside the globals, e.g. `fsm`; absent in older snapshots */
+	systems?: StateSnapshot;
 }
 
 export interface RuntimeResetOptions {
@@ -40,6 +40,8 @@ export interface RuntimeDebugOptions {
 	screen?: boolean;
 	/** Detailed lifecycle logs for runtime startup and control */
 	lifecycle?: boolean;
+	/** Start with the physics debug overlay on (toggle later with `setPhysicsDebugDraw`) */
+	physics?: boolean;
 }
 
 export interface RuntimeOptions {